@@ -0,0 +1,158 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { dirname, resolve } from 'node:path';
+import type {
+  ConflictResponse,
+  DeleteTableRequest,
+  PutOrderRequest,
+  PutTableRequest,
+  RevisionResponse,
+  SyncEvent,
+  SyncSnapshot,
+} from '../src/syncProtocol';
+
+// Small sync backend for running several tablets against the same tables.
+//
+//   GET    /api/state        full snapshot (table order + every table with its revision)
+//   PUT    /api/tables/:id   save one table; 409 with the current copy when baseRev is stale
+//   DELETE /api/tables/:id   remove one table; same revision check
+//   PUT    /api/order        save the table order (last write wins)
+//   GET    /api/events       server-sent events carrying every accepted change
+//
+// Start with `npm run sync-server`. SYNC_PORT and SYNC_DATA_FILE override the defaults.
+
+const PORT = Number(process.env.SYNC_PORT ?? 8787);
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE ?? 'server/data/tables.json');
+
+function loadSnapshot(): SyncSnapshot {
+  if (!existsSync(DATA_FILE)) return { order: [], tables: {} };
+  try {
+    return JSON.parse(readFileSync(DATA_FILE, 'utf8')) as SyncSnapshot;
+  } catch (err) {
+    console.error(`Could not read ${DATA_FILE}, starting empty:`, err);
+    return { order: [], tables: {} };
+  }
+}
+
+function saveSnapshot(snapshot: SyncSnapshot): void {
+  mkdirSync(dirname(DATA_FILE), { recursive: true });
+  const tmp = `${DATA_FILE}.tmp`;
+  writeFileSync(tmp, JSON.stringify(snapshot));
+  renameSync(tmp, DATA_FILE);
+}
+
+const state = loadSnapshot();
+const listeners = new Set<ServerResponse>();
+
+function broadcast(event: SyncEvent): void {
+  const payload = `data: ${JSON.stringify(event)}\n\n`;
+  for (const res of listeners) res.write(payload);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<T> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8')) as T;
+}
+
+function currentRev(id: number): number {
+  return state.tables[id]?.rev ?? 0;
+}
+
+function handlePutTable(id: number, body: PutTableRequest, res: ServerResponse): void {
+  const rev = currentRev(id);
+  if (body.baseRev !== rev) {
+    const conflict: ConflictResponse = { rev, table: state.tables[id]?.table ?? null };
+    sendJson(res, 409, conflict);
+    return;
+  }
+  const nextRev = rev + 1;
+  state.tables[id] = { rev: nextRev, table: { ...body.table, id } };
+  if (!state.order.includes(id)) state.order.push(id);
+  saveSnapshot(state);
+  broadcast({ type: 'table', id, rev: nextRev, table: state.tables[id].table });
+  const reply: RevisionResponse = { rev: nextRev };
+  sendJson(res, 200, reply);
+}
+
+function handleDeleteTable(id: number, body: DeleteTableRequest, res: ServerResponse): void {
+  const rev = currentRev(id);
+  if (body.baseRev !== rev) {
+    const conflict: ConflictResponse = { rev, table: state.tables[id]?.table ?? null };
+    sendJson(res, 409, conflict);
+    return;
+  }
+  delete state.tables[id];
+  state.order = state.order.filter((x) => x !== id);
+  saveSnapshot(state);
+  broadcast({ type: 'removed', id, rev });
+  const reply: RevisionResponse = { rev };
+  sendJson(res, 200, reply);
+}
+
+function handlePutOrder(body: PutOrderRequest, res: ServerResponse): void {
+  const known = body.order.filter((id) => state.tables[id]);
+  const rest = state.order.filter((id) => !known.includes(id));
+  state.order = [...known, ...rest];
+  saveSnapshot(state);
+  broadcast({ type: 'order', order: state.order });
+  sendJson(res, 200, { order: state.order });
+}
+
+function handleEvents(req: IncomingMessage, res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(': connected\n\n');
+  listeners.add(res);
+  const keepAlive = setInterval(() => res.write(': ping\n\n'), 25000);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    listeners.delete(res);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  // Tablets load the app from the Vite dev server or a static host on another origin.
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const tableMatch = url.pathname.match(/^\/api\/tables\/(\d+)$/);
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/api/state') {
+      sendJson(res, 200, state);
+    } else if (req.method === 'GET' && url.pathname === '/api/events') {
+      handleEvents(req, res);
+    } else if (req.method === 'PUT' && url.pathname === '/api/order') {
+      handlePutOrder(await readJson<PutOrderRequest>(req), res);
+    } else if (req.method === 'PUT' && tableMatch) {
+      handlePutTable(Number(tableMatch[1]), await readJson<PutTableRequest>(req), res);
+    } else if (req.method === 'DELETE' && tableMatch) {
+      handleDeleteTable(Number(tableMatch[1]), await readJson<DeleteTableRequest>(req), res);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (err) {
+    console.error(err);
+    sendJson(res, 400, { error: err instanceof Error ? err.message : 'Bad request' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`EVERWIN sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
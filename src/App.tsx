@@ -1,298 +1,200 @@
-import React, { useEffect, useMemo, useState } from 'react';
-
-type SeatStatus = 'idle' | 'seated' | 'rest';
-type Lang = 'zh' | 'en';
-
-interface SeatState {
-  id: number;
-  memberId: string;
-  status: SeatStatus;
-  activeSeconds: number;
-  restSeconds: number;
-  lastActiveStart: number | null;
-  lastRestStart: number | null;
-  buyInAmount: number;
-  transferNote: string | null;
-  sessionStart: string | null;
-  selectedForBatch: boolean;
-}
-
-interface SessionRow {
-  date: string;
-  tableId: number;
-  tableName: string;
-  seatId: number;
-  memberId: string;
-  startTime: string;
-  endTime: string;
-  activeSeconds: number;
-  restSeconds: number;
-  durationHMS: string;
-  buyInDisplay: string;
-  buyInAmount: number | null;
-  transferNote: string | null;
-}
-
-interface TableState {
-  id: number;
-  name: string;
-  blinds: string;
-  openedAt: string | null;
-  closedAt: string | null;
-  elapsedSeconds: number;
-  lastStartTime: number | null;
-  isRunning: boolean;
-  seats: SeatState[];
-  sessions: SessionRow[];
-}
-
-const TABLE_COUNT = 4;
-const SEATS_PER_TABLE = 9;
-const STORAGE_KEY = 'everwin_poker_tables_v5';
-
-function formatHMS(totalSeconds: number): string {
-  const s = Math.max(0, Math.floor(totalSeconds));
-  const h = Math.floor(s / 3600);
-  const m = Math.floor((s % 3600) / 60);
-  const sec = s % 60;
-  const pad = (n: number) => n.toString().padStart(2, '0');
-  return `${pad(h)}:${pad(m)}:${pad(sec)}`;
-}
-
-function formatDateTime(d: Date): string {
-  const y = d.getFullYear();
-  const m = (d.getMonth() + 1).toString().padStart(2, '0');
-  const day = d.getDate().toString().padStart(2, '0');
-  const h = d.getHours().toString().padStart(2, '0');
-  const min = d.getMinutes().toString().padStart(2, '0');
-  const sec = d.getSeconds().toString().padStart(2, '0');
-  return `${y}-${m}-${day} ${h}:${min}:${sec}`;
-}
-
-function formatToday(): string {
-  const d = new Date();
-  const y = d.getFullYear();
-  const m = (d.getMonth() + 1).toString().padStart(2, '0');
-  const day = d.getDate().toString().padStart(2, '0');
-  return `${y}-${m}-${day}`;
-}
-
-function createInitialSeat(id: number): SeatState {
-  return {
-    id,
-    memberId: '',
-    status: 'idle',
-    activeSeconds: 0,
-    restSeconds: 0,
-    lastActiveStart: null,
-    lastRestStart: null,
-    buyInAmount: 0,
-    transferNote: null,
-    sessionStart: null,
-    selectedForBatch: false,
-  };
-}
-
-function createInitialTable(id: number): TableState {
-  return {
-    id,
-    name: `Table ${id}`,
-    blinds: '',
-    openedAt: null,
-    closedAt: null,
-    elapsedSeconds: 0,
-    lastStartTime: null,
-    isRunning: false,
-    seats: Array.from({ length: SEATS_PER_TABLE }, (_, i) => createInitialSeat(i + 1)),
-    sessions: [],
-  };
-}
-
-function loadInitialTables(): TableState[] {
-  if (typeof window === 'undefined') {
-    return Array.from({ length: TABLE_COUNT }, (_, i) => createInitialTable(i + 1));
-  }
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) {
-      return Array.from({ length: TABLE_COUNT }, (_, i) => createInitialTable(i + 1));
-    }
-    const parsed = JSON.parse(raw) as TableState[];
-    return parsed.map((t, idx) => ({
-      ...createInitialTable(idx + 1),
-      ...t,
-      id: idx + 1,
-      seats: t.seats
-        ? t.seats.map((s, seatIdx) => ({
-            ...createInitialSeat(seatIdx + 1),
-            ...s,
-            id: seatIdx + 1,
-          }))
-        : Array.from({ length: SEATS_PER_TABLE }, (_, i) => createInitialSeat(i + 1)),
-      sessions: Array.isArray(t.sessions) ? t.sessions : [],
-    }));
-  } catch {
-    return Array.from({ length: TABLE_COUNT }, (_, i) => createInitialTable(i + 1));
-  }
-}
-
-function usePersistentTables(): [TableState[], React.Dispatch<React.SetStateAction<TableState[]>>] {
-  const [tables, setTables] = useState<TableState[]>(() => loadInitialTables());
-
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
-  }, [tables]);
-
-  return [tables, setTables];
-}
-
-function getTableElapsedSeconds(table: TableState, nowMs: number): number {
-  if (table.isRunning && table.lastStartTime != null) {
-    const delta = Math.floor((nowMs - table.lastStartTime) / 1000);
-    return table.elapsedSeconds + Math.max(0, delta);
-  }
-  return table.elapsedSeconds;
-}
-
-function getSeatActiveSeconds(seat: SeatState, nowMs: number): number {
-  if (seat.status === 'seated' && seat.lastActiveStart != null) {
-    const delta = Math.floor((nowMs - seat.lastActiveStart) / 1000);
-    return seat.activeSeconds + Math.max(0, delta);
-  }
-  return seat.activeSeconds;
-}
-
-function getSeatRestSeconds(seat: SeatState, nowMs: number): number {
-  if (seat.status === 'rest' && seat.lastRestStart != null) {
-    const delta = Math.floor((nowMs - seat.lastRestStart) / 1000);
-    return seat.restSeconds + Math.max(0, delta);
-  }
-  return seat.restSeconds;
-}
-
-const zhTexts = {
-  tableLabel: '桌號',
-  running: '運行中',
-  stopped: '未開桌',
-  startOrResume: '開桌 / 繼續',
-  pause: '暫停牌桌',
-  stop: '關桌（輸出本局）',
-  exportCsv: '手動匯出 CSV',
-  resetTable: 'Reset 本桌（匯出後清除）',
-  today: '今天',
-  currentTableTime: '牌桌時間',
-  openedAt: '開桌時間',
-  closedAt: '關桌時間',
-  blinds: '盲注級別',
-  blindsPlaceholder: '例如 25-50 / 50-100',
-  seat: '席次',
-  statusIdle: '空位 / 未上桌',
-  statusSeated: '上桌中',
-  statusRest: '休息中',
-  todayTotal: '本局上桌時間',
-  todayCount: '本局上桌次數',
-  restSeconds: '休息秒數',
-  buyIn: '買碼總額',
-  memberId: '會員 ID',
-  batchLabel: '批次',
-  btnSeat: '上桌',
-  btnRest: '休息',
-  btnLeave: '下桌',
-  btnAddBuyIn: '加買籌碼',
-  btnBatchSeat: '批次上桌',
-  btnBatchLeave: '批次下桌',
-  tableHasPlayers: '仍有玩家在桌上（非休息），請先讓所有玩家下桌。',
-  tableNotRunning: '請先運行開桌，再為玩家上桌。',
-  needMemberId: '請先輸入會員號碼再上桌。',
-  duplicateMember: '同一位會員已在本桌其他位置上桌，請先處理座位移動。',
-  batchNoSelection: '請先勾選要批次操作的席次。',
-  batchMissingMember: '批次上桌的每個席次都必須先輸入會員號。',
-  batchPromptChips: '請輸入本次上桌每位玩家的買入籌碼（金額，可為 0）',
-  invalidNumber: '請輸入正確的數字。',
-  confirmMove: (memberId: string, fromSeat: number, toSeat: number) =>
-    `會員 ${memberId} 目前在席次 ${fromSeat}，要移動到席次 ${toSeat} 嗎？`,
-  confirmReset: '確定要重置本桌所有資料嗎？系統會先自動匯出一份 CSV。',
-  confirmBatchLeave: '確定要將勾選的席次全部下桌並寫入紀錄嗎？',
-  csvHeaderDate: '日期',
-  csvHeaderTable: '桌號',
-  csvHeaderSeat: '席次',
-  csvHeaderMember: '會員 ID',
-  csvHeaderStart: '上桌時間',
-  csvHeaderEnd: '下桌時間',
-  csvHeaderActiveSec: '上桌秒數',
-  csvHeaderRestSec: '休息秒數',
-  csvHeaderDuration: '上桌時間(HH:MM:SS)',
-  csvHeaderBuyIn: '買碼',
-  csvHeaderTransfer: '轉席註記',
-  csvSummaryTotalBuyIn: '本局總買碼',
-  csvSummaryUniquePlayers: '不重複會員數',
-  csvSummaryTotalSessions: '本局紀錄筆數',
-};
-
-const enTexts = {
-  tableLabel: 'Table',
-  running: 'Running',
-  stopped: 'Stopped',
-  startOrResume: 'Start / Resume',
-  pause: 'Pause Table',
-  stop: 'Close Table (Export)',
-  exportCsv: 'Export CSV (manual)',
-  resetTable: 'Reset Table (export & clear)',
-  today: 'Today',
-  currentTableTime: 'Table Time',
-  openedAt: 'Opened At',
-  closedAt: 'Closed At',
-  blinds: 'Blinds',
-  blindsPlaceholder: 'e.g. 25-50 / 50-100',
-  seat: 'Seat',
-  statusIdle: 'Empty / Idle',
-  statusSeated: 'Seated',
-  statusRest: 'Resting',
-  todayTotal: 'Session Time',
-  todayCount: 'Seat Count',
-  restSeconds: 'Rest Seconds',
-  buyIn: 'Total Buy-in',
-  memberId: 'Member ID',
-  batchLabel: 'Batch',
-  btnSeat: 'Seat',
-  btnRest: 'Rest',
-  btnLeave: 'Leave',
-  btnAddBuyIn: 'Add Chips',
-  btnBatchSeat: 'Batch Seat',
-  btnBatchLeave: 'Batch Leave',
-  tableHasPlayers: 'There are still players seated (not resting). Please let them leave first.',
-  tableNotRunning: 'Please start the table clock before seating players.',
-  needMemberId: 'Please enter a member ID before seating.',
-  duplicateMember: 'This member is already seated at another position. Please handle seat move first.',
-  batchNoSelection: 'Please select seats for batch operation first.',
-  batchMissingMember: 'Every batch seat must have a member ID.',
-  batchPromptChips: 'Enter buy-in amount for each selected player (can be 0).',
-  invalidNumber: 'Please enter a valid number.',
-  confirmMove: (memberId: string, fromSeat: number, toSeat: number) =>
-    `Member ${memberId} is currently seated at Seat ${fromSeat}. Move to Seat ${toSeat}?`,
-  confirmReset: 'Reset this table and clear all data? A CSV will be exported first.',
-  confirmBatchLeave: 'Leave all selected seats and write their sessions?',
-  csvHeaderDate: 'Date',
-  csvHeaderTable: 'Table',
-  csvHeaderSeat: 'Seat',
-  csvHeaderMember: 'Member ID',
-  csvHeaderStart: 'Start Time',
-  csvHeaderEnd: 'End Time',
-  csvHeaderActiveSec: 'Active Seconds',
-  csvHeaderRestSec: 'Rest Seconds',
-  csvHeaderDuration: 'Duration (HH:MM:SS)',
-  csvHeaderBuyIn: 'Buy-in',
-  csvHeaderTransfer: 'Transfer Note',
-  csvSummaryTotalBuyIn: 'Total Buy-in',
-  csvSummaryUniquePlayers: 'Unique Members',
-  csvSummaryTotalSessions: 'Total Sessions',
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import AuditLogView from './AuditLogView';
+import BackupPanel from './BackupPanel';
+import BalancePanel from './BalancePanel';
+import ClosingReport from './ClosingReport';
+import DailyReportView from './DailyReportView';
+import HistoryView from './HistoryView';
+import MemberReportView from './MemberReportView';
+import MembersView from './MembersView';
+import MoveSeatPanel from './MoveSeatPanel';
+import OverviewView from './OverviewView';
+import RecoveryPanel, { type RecoveryDecision } from './RecoveryPanel';
+import SessionsPanel from './SessionsPanel';
+import SettingsView from './SettingsView';
+import StaffLogin from './StaffLogin';
+import StaffView from './StaffView';
+import SwapSeatPanel from './SwapSeatPanel';
+import TableSetup from './TableSetup';
+import TournamentView from './TournamentView';
+import WaitlistPanel from './WaitlistPanel';
+import {
+  archiveSessions,
+  getArchivedIds,
+  planArchiveUndo,
+  queryArchive,
+  useSessionArchive,
+} from './archive';
+import { buildBackup, type BackupData, type BackupMode } from './backup';
+import {
+  UNDO_LIMIT,
+  buildAuditEntry,
+  replayTables,
+  useAuditLog,
+  type AuditMeta,
+  type UndoStep,
+} from './audit';
+import { planCashBalance, type BalanceMove } from './balance';
+import { downloadBlob, downloadCsv } from './csv';
+import { useDialogs } from './dialogs';
+import { computeTimeCharge } from './fees';
+import { createId } from './ids';
+import {
+  PAYMENT_METHODS,
+  addBuyInToSeat,
+  createBuyInEntry,
+  formatBuyInDisplay,
+  voidBuyInOnSeat,
+} from './ledger';
+import { findMember, parseMembersCsv, upsertMembers, useMembers } from './members';
+import { findInterruptedSeats, readHeartbeat, useHeartbeat } from './recovery';
+import {
+  findDueSeats,
+  getAutoLeaveRowId,
+  getBreakSeconds,
+  getRestAlert,
+  getRestLimitMinutes,
+} from './rest';
+import { useScannerInput } from './scanner';
+import { checkCorrection, correctSessionRow, formatCorrections } from './sessions';
+import { cutoffToMinutes, useSettings } from './settings';
+import {
+  createStaffAccount,
+  endShift,
+  getUndoPermission,
+  hasPermission,
+  startShift,
+  useCurrentShiftId,
+  useShifts,
+  useStaffAccounts,
+  type Permission,
+} from './staff';
+import {
+  applyBlindsChange,
+  checkBuyIn,
+  findStake,
+  formatBlindsLevels,
+  formatStakeLabel,
+  getBlindsLevelsForSession,
+} from './stakes';
+import { subscribeWriteFailures, usePersistentState } from './storage';
+import { SYNC_URL_KEY, useTableSync } from './sync';
+import {
+  addTable,
+  clampSeatCount,
+  createInitialTable,
+  findMemberSeatings,
+  formatTransferNote,
+  getActiveTables,
+  getBlockingSeatsForResize,
+  getOpenSeats,
+  getSeatActiveSeconds,
+  getSeatRestSeconds,
+  getTableElapsedSeconds,
+  isSameSession,
+  isTableInUse,
+  moveTable,
+  removeTable,
+  renameTable,
+  resizeTable,
+  setTableRestLimit,
+  setTableRetired,
+  swapSeats,
+  usePersistentTables,
+} from './tables';
+import { enTexts, zhTexts } from './texts';
+import { formatBusinessDate, formatDateTime, formatHMS, parseDateTime } from './time';
+import { getTournamentSeatIds, useTournament } from './tournament';
+import type {
+  AutoLeaveRecord,
+  Lang,
+  Member,
+  PaymentMethod,
+  SeatState,
+  SeatStatus,
+  SessionPatch,
+  SessionRow,
+  StaffAccount,
+  TableState,
+  WaitlistEntry,
+} from './types';
+import {
+  createWaitlistEntry,
+  getWaitSeconds,
+  getWaitlistForTable,
+  moveWaitlistEntry,
+  useWaitlist,
+} from './waitlist';
+import { buildXlsx, cellText, type XlsxCell, type XlsxSheet } from './xlsx';
+
+type AppView =
+  | 'tables'
+  | 'overview'
+  | 'tournament'
+  | 'setup'
+  | 'members'
+  | 'history'
+  | 'report'
+  | 'daily'
+  | 'log'
+  | 'staff'
+  | 'settings';
+
+const SCANNER_MODE_KEY = 'everwin_poker_scanner_mode_v1';
+
+/** Single keys that act on the selected seat while scanner mode is on. */
+const SEAT_SHORTCUTS: Record<string, 'seat' | 'rest' | 'leave' | 'addBuyIn'> = {
+  s: 'seat',
+  r: 'rest',
+  l: 'leave',
+  b: 'addBuyIn',
 };
 
 const App: React.FC = () => {
-  const [tables, setTables] = usePersistentTables();
+  const [tables, setTables, tablesLoad] = usePersistentTables();
+  // Handlers that wait on a dialog build their change from this, not from the tables they
+  // saw when the dialog opened, so sync merges and other actions in between are kept.
+  const tablesRef = useRef(tables);
+  tablesRef.current = tables;
+  const [syncUrl, setSyncUrl] = usePersistentState(
+    SYNC_URL_KEY,
+    import.meta.env.VITE_SYNC_URL ?? '',
+  );
+  const sync = useTableSync(tables, setTables, syncUrl.trim().replace(/\/+$/, ''));
   const [currentTableId, setCurrentTableId] = useState(1);
+  const [view, setView] = useState<AppView>('tables');
   const [lang, setLang] = useState<Lang>('zh');
+  const [staffAccounts, setStaffAccounts] = useStaffAccounts();
+  const [shifts, setShifts] = useShifts();
+  const [currentShiftId, setCurrentShiftId] = useCurrentShiftId();
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [ledgerSeatId, setLedgerSeatId] = useState<number | null>(null);
+  const [moveSeatId, setMoveSeatId] = useState<number | null>(null);
+  const [swapSeatId, setSwapSeatId] = useState<number | null>(null);
+  const [selectedSeatId, setSelectedSeatId] = useState<number | null>(null);
+  const [scannerMode, setScannerMode] = usePersistentState(SCANNER_MODE_KEY, false);
+  const [auditLog, appendAudit, replaceAudit] = useAuditLog();
+  const [members, setMembers] = useMembers();
+  const [settings, setSettings] = useSettings();
+  const [lastAliveMs] = useState(readHeartbeat);
+  const [closingReport, setClosingReport] = useState<
+    (ReturnType<typeof buildTableExport> & { tableName: string; printedAt: string }) | null
+  >(null);
+  const [interruptedSeats, setInterruptedSeats] = useState(() =>
+    findInterruptedSeats(tables, lastAliveMs, Date.now(), settings.recoveryThresholdMinutes),
+  );
+  const [autoLeaveNotice, setAutoLeaveNotice] = useState<string[]>([]);
+  const [storageNotice, setStorageNotice] = useState<'backup' | 'lost' | 'full' | null>(
+    tablesLoad.source === 'backup' || tablesLoad.source === 'lost' ? tablesLoad.source : null,
+  );
+  useEffect(() => subscribeWriteFailures(() => setStorageNotice('full')), []);
+  useHeartbeat();
+  const [waitlist, setWaitlist] = useWaitlist();
+  const [tournament, setTournament] = useTournament();
+  const reconcileArchive = useSessionArchive(tables);
+  const [undoSteps, setUndoSteps] = useState<UndoStep[]>([]);
+  const [redoSteps, setRedoSteps] = useState<UndoStep[]>([]);
+  const blindsEditStart = useRef<TableState[] | null>(null);
   const [nowMs, setNowMs] = useState(Date.now());
 
   useEffect(() => {
@@ -301,84 +203,333 @@ const App: React.FC = () => {
   }, []);
 
   const t = lang === 'zh' ? zhTexts : enTexts;
-  const todayText = formatToday();
+  const [dialogs, dialogElement] = useDialogs(t);
+  const currentShift = shifts.find((shift) => shift.id === currentShiftId && !shift.logoutAt);
+  const currentStaff =
+    staffAccounts.find((account) => account.id === currentShift?.staffId && account.active) ?? null;
+  const staffName = currentStaff?.name ?? '';
+  const cutoffMinutes = cutoffToMinutes(settings.gamingDayCutoff);
+  const businessDate = formatBusinessDate(new Date(nowMs), cutoffMinutes);
   const langToggleLabel = lang === 'zh' ? 'English' : '中文';
 
+  const activeTables = useMemo(() => getActiveTables(tables), [tables]);
   const currentTableIndex = useMemo(
-    () => tables.findIndex((tbl) => tbl.id === currentTableId),
-    [tables, currentTableId],
+    () => activeTables.findIndex((tbl) => tbl.id === currentTableId),
+    [activeTables, currentTableId],
   );
-  const currentTable = tables[currentTableIndex] ?? tables[0];
+  const currentTable = activeTables[currentTableIndex] ?? activeTables[0];
+
+  const requirePermission = (permission: Permission): boolean => {
+    if (hasPermission(currentStaff, permission)) return true;
+    dialogs.alert(t.staffNoPermission);
+    return false;
+  };
+
+  const handleLogin = (account: StaffAccount) => {
+    const shift = startShift(account);
+    setShifts((prev) => [...prev, shift]);
+    setCurrentShiftId(shift.id);
+    // Covers shifts that ended without a logout, e.g. a deactivated account.
+    setUndoSteps([]);
+    setRedoSteps([]);
+  };
+
+  const handleLogout = () => {
+    if (currentShiftId) setShifts((prev) => endShift(prev, currentShiftId));
+    setCurrentShiftId(null);
+    // The next person to log in may not be allowed to take back what this one did.
+    setUndoSteps([]);
+    setRedoSteps([]);
+    setView('tables');
+  };
+
+  const handleCreateFirstManager = (name: string, pin: string) => {
+    const account = createStaffAccount(name, 'manager', pin);
+    setStaffAccounts((prev) => [...prev, account]);
+    handleLogin(account);
+  };
+
+  const logChange = (meta: AuditMeta, before: TableState[], after: TableState[]) => {
+    const entry = buildAuditEntry(meta, before, after, staffName);
+    if (Object.keys(entry.after).length === 0) return;
+    appendAudit(entry);
+    const step: UndoStep = {
+      entryId: entry.id,
+      action: meta.action,
+      tableIds: meta.tableIds ?? null,
+      before,
+      after,
+    };
+    setUndoSteps((prev) => [...prev, step].slice(-UNDO_LIMIT));
+    setRedoSteps([]);
+  };
+
+  /** Applies a change that goes into the audit log and can be undone. */
+  const commitTables = (updater: (prev: TableState[]) => TableState[], meta: AuditMeta) => {
+    const before = tablesRef.current;
+    const after = updater(before);
+    tablesRef.current = after;
+    setTables(after);
+    logChange(meta, before, after);
+  };
+
+  /** The seat as it is now, for handlers picking up again after a dialog. */
+  const getLatestSeat = (tableId: number, seatId: number): SeatState | undefined =>
+    tablesRef.current.find((tbl) => tbl.id === tableId)?.seats.find((s) => s.id === seatId);
+
+  const updateTable = (
+    tableId: number,
+    updater: (t: TableState) => TableState,
+    meta?: Omit<AuditMeta, 'tableIds'>,
+  ) => {
+    const apply = (prev: TableState[]) =>
+      prev.map((tbl) => (tbl.id === tableId ? updater(tbl) : tbl));
+    if (meta) {
+      commitTables(apply, { ...meta, tableIds: [tableId] });
+    } else {
+      setTables(apply);
+    }
+  };
+
+  /** Returns false, after telling staff why, when later changes stand in the step's way. */
+  const applyUndoStep = (step: UndoStep, direction: 'undo' | 'redo'): boolean => {
+    const [from, to] = direction === 'undo' ? [step.after, step.before] : [step.before, step.after];
+    const current = tablesRef.current;
+    const next = replayTables(current, from, to, step.tableIds);
+    if (!next) {
+      dialogs.alert(t.undoStale);
+      return false;
+    }
+    tablesRef.current = next;
+    setTables(next);
+    reconcileArchive(planArchiveUndo(step.before, step.after, direction)).catch((err) =>
+      console.error('Session archive failed', err),
+    );
+    appendAudit(
+      buildAuditEntry(
+        { action: direction, tableIds: step.tableIds ?? undefined, note: step.entryId },
+        current,
+        next,
+        staffName,
+      ),
+    );
+    return true;
+  };
+
+  const handleUndo = () => {
+    const step = undoSteps[undoSteps.length - 1];
+    if (!step) return;
+    const permission = getUndoPermission(step.action);
+    if (permission && !requirePermission(permission)) return;
+    if (!applyUndoStep(step, 'undo')) return;
+    setUndoSteps((prev) => prev.slice(0, -1));
+    setRedoSteps((prev) => [...prev, step]);
+  };
+
+  const handleRedo = () => {
+    const step = redoSteps[redoSteps.length - 1];
+    if (!step) return;
+    const permission = getUndoPermission(step.action);
+    if (permission && !requirePermission(permission)) return;
+    if (!applyUndoStep(step, 'redo')) return;
+    setRedoSteps((prev) => prev.slice(0, -1));
+    setUndoSteps((prev) => [...prev, step]);
+  };
+
+  const handleAddTable = (seatCount: number) => {
+    commitTables((prev) => addTable(prev, seatCount), { action: 'tableSetup' });
+  };
+
+  const handleRenameTable = (tableId: number, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      dialogs.alert(t.setupEmptyName);
+      return;
+    }
+    commitTables((prev) => renameTable(prev, tableId, trimmed), { action: 'tableSetup' });
+  };
+
+  const handleResizeTable = (tableId: number, seatCount: number) => {
+    const tbl = tables.find((x) => x.id === tableId);
+    if (!tbl) return;
+    const blocking = getBlockingSeatsForResize(tbl, clampSeatCount(seatCount));
+    if (blocking.length > 0) {
+      dialogs.alert(t.setupSeatsOccupied(blocking.map((s) => s.id).join(', ')));
+      return;
+    }
+    commitTables((prev) => resizeTable(prev, tableId, seatCount), { action: 'tableSetup' });
+  };
+
+  const handleSetTableRetired = (tableId: number, retired: boolean) => {
+    const tbl = tables.find((x) => x.id === tableId);
+    if (!tbl) return;
+    if (retired) {
+      if (isTableInUse(tbl)) {
+        dialogs.alert(t.setupTableInUse);
+        return;
+      }
+      if (activeTables.length <= 1) {
+        dialogs.alert(t.setupLastActiveTable);
+        return;
+      }
+    }
+    commitTables((prev) => setTableRetired(prev, tableId, retired), { action: 'tableSetup' });
+  };
+
+  const handleSetTableRestLimit = (tableId: number, minutes: number | null) => {
+    commitTables((prev) => setTableRestLimit(prev, tableId, minutes), { action: 'tableSetup' });
+  };
 
-  const updateTable = (tableId: number, updater: (t: TableState) => TableState) => {
-    setTables((prev) => prev.map((tbl) => (tbl.id === tableId ? updater(tbl) : tbl)));
+  const handleDeleteTable = async (tableId: number) => {
+    const canDelete = (tbl: TableState | undefined): tbl is TableState =>
+      !!tbl && tbl.retired && tbl.sessions.length === 0;
+    const tbl = tables.find((x) => x.id === tableId);
+    if (!canDelete(tbl)) return;
+    if (!(await dialogs.confirm(t.confirmDeleteTable(tbl.name)))) return;
+    if (!canDelete(tablesRef.current.find((x) => x.id === tableId))) return;
+    commitTables((prev) => removeTable(prev, tableId), { action: 'tableSetup' });
   };
 
+  const handleMoveTable = (tableId: number, offset: number) => {
+    commitTables((prev) => moveTable(prev, tableId, offset), { action: 'tableSetup' });
+  };
+
+  /** Open seats for cash players, leaving out those tournament entries hold. */
+  const getCashOpenSeats = (tbl: TableState) =>
+    getOpenSeats(tbl, getTournamentSeatIds(tournament, tbl.id));
+
   const hasActivePlayers = (tbl: TableState): boolean =>
     tbl.seats.some((s) => s.status === 'seated');
 
   const handleStartOrResume = () => {
     if (!currentTable) return;
     const now = Date.now();
-    updateTable(currentTable.id, (tbl) => {
-      if (tbl.isRunning) return tbl;
-      const openedAt = tbl.openedAt ?? formatDateTime(new Date());
-      return {
-        ...tbl,
-        openedAt,
-        isRunning: true,
-        lastStartTime: now,
-        closedAt: null,
-      };
-    });
+    updateTable(
+      currentTable.id,
+      (tbl) => {
+        if (tbl.isRunning) return tbl;
+        const openedAt = tbl.openedAt ?? formatDateTime(new Date());
+        // Record the level the table opens at, so sessions can be split by level later.
+        const opened =
+          tbl.blindsHistory.length === 0 && tbl.blinds
+            ? applyBlindsChange(tbl, tbl.blinds, tbl.stakeId, now)
+            : tbl;
+        return {
+          ...opened,
+          openedAt,
+          isRunning: true,
+          lastStartTime: now,
+          closedAt: null,
+        };
+      },
+      { action: 'start' },
+    );
   };
 
   const handlePause = () => {
     if (!currentTable) return;
     if (hasActivePlayers(currentTable)) {
-      window.alert(t.tableHasPlayers);
+      dialogs.alert(t.tableHasPlayers);
       return;
     }
     const now = Date.now();
-    updateTable(currentTable.id, (tbl) => {
-      if (!tbl.isRunning || tbl.lastStartTime == null) return tbl;
-      const elapsedSeconds = getTableElapsedSeconds(tbl, now);
-      return {
-        ...tbl,
-        isRunning: false,
-        lastStartTime: null,
-        elapsedSeconds,
-      };
-    });
+    updateTable(
+      currentTable.id,
+      (tbl) => {
+        if (!tbl.isRunning || tbl.lastStartTime == null) return tbl;
+        const elapsedSeconds = getTableElapsedSeconds(tbl, now);
+        return {
+          ...tbl,
+          isRunning: false,
+          lastStartTime: null,
+          elapsedSeconds,
+        };
+      },
+      { action: 'pause' },
+    );
   };
 
+  const getSeatTimeCharge = (tbl: TableState, seat: SeatState, nowMsSnapshot: number) =>
+    computeTimeCharge(
+      getSeatActiveSeconds(seat, nowMsSnapshot),
+      getSeatRestSeconds(seat, nowMsSnapshot),
+      tbl.blinds,
+      settings,
+      getBlindsLevelsForSession(
+        tbl,
+        parseDateTime(seat.sessionStart ?? '')?.getTime() ?? nowMsSnapshot,
+        nowMsSnapshot,
+      ),
+    );
+
   const computeTableSummary = (tbl: TableState, nowMsSnapshot: number) => {
     const elapsed = getTableElapsedSeconds(tbl, nowMsSnapshot);
     const totalBuyIn = tbl.sessions.reduce((sum, s) => (s.buyInAmount ?? 0) + sum, 0);
+    const totalCashOut = tbl.sessions.reduce((sum, s) => (s.cashOutAmount ?? 0) + sum, 0);
+    const totalNet = tbl.sessions.reduce((sum, s) => (s.netAmount ?? 0) + sum, 0);
+    // Chips bought in should all come back out as cash-outs once every seat has left.
+    const chipBalance = totalBuyIn - totalCashOut;
     const uniqueMembers = Array.from(new Set(tbl.sessions.map((s) => s.memberId))).filter(
       (id) => id.trim() !== '',
     ).length;
-    return { elapsed, totalBuyIn, uniqueMembers, totalSessions: tbl.sessions.length };
+    // Closed sessions plus what the seats still playing have run up so far.
+    const totalTimeCharge =
+      tbl.sessions.reduce((sum, s) => (s.timeCharge ?? 0) + sum, 0) +
+      tbl.seats
+        .filter((s) => s.status !== 'idle')
+        .reduce((sum, s) => getSeatTimeCharge(tbl, s, nowMsSnapshot) + sum, 0);
+    return {
+      elapsed,
+      totalBuyIn,
+      totalCashOut,
+      totalNet,
+      chipBalance,
+      uniqueMembers,
+      totalSessions: tbl.sessions.length,
+      totalTimeCharge,
+    };
   };
 
-  const exportCsvForTable = (tbl: TableState, nowMsSnapshot: number, closedAtOverride?: string) => {
+  /**
+   * Everything a table export holds: summary lines, one row per session and the buy-in
+   * ledger. Cells keep their types so the workbook gets real numbers and times.
+   */
+  const buildTableExport = (tbl: TableState, nowMsSnapshot: number, closedAtOverride?: string) => {
     const closedAt = closedAtOverride ?? tbl.closedAt ?? '';
-    const { elapsed, totalBuyIn, uniqueMembers, totalSessions } = computeTableSummary(
-      tbl,
-      nowMsSnapshot,
+    const {
+      elapsed,
+      totalBuyIn,
+      totalCashOut,
+      totalNet,
+      chipBalance,
+      uniqueMembers,
+      totalSessions,
+      totalTimeCharge,
+    } = computeTableSummary(tbl, nowMsSnapshot);
+    // A table opened before midnight still belongs to the gaming day it was opened on.
+    const tableDate = formatBusinessDate(
+      parseDateTime(tbl.openedAt ?? '') ?? new Date(nowMsSnapshot),
+      cutoffMinutes,
     );
 
-    const headerLines: string[][] = [
+    const summary: XlsxCell[][] = [
       ['Table', tbl.name],
-      ['Date', todayText],
+      ['Date', tableDate],
       ['Blinds', tbl.blinds ?? ''],
-      [t.openedAt, tbl.openedAt ?? ''],
-      [t.closedAt, closedAt],
-      [t.currentTableTime, formatHMS(elapsed)],
-      [t.csvSummaryTotalBuyIn, totalBuyIn.toString()],
-      [t.csvSummaryUniquePlayers, uniqueMembers.toString()],
-      [t.csvSummaryTotalSessions, totalSessions.toString()],
-      [''],
+      [
+        t.csvBlindsHistory,
+        ...tbl.blindsHistory.map((change) => `${change.time.slice(11)} ${change.blinds}`),
+      ],
+      [t.openedAt, tbl.openedAt ? { dateTime: tbl.openedAt } : ''],
+      [t.closedAt, closedAt ? { dateTime: closedAt } : ''],
+      [t.currentTableTime, { duration: elapsed }],
+      [t.csvSummaryTotalBuyIn, totalBuyIn],
+      [t.csvSummaryTotalCashOut, totalCashOut],
+      [t.csvSummaryNet, totalNet],
+      [t.csvSummaryBalance, chipBalance, chipBalance === 0 ? t.balanceOk : t.balanceMismatch],
+      [t.csvSummaryTimeCharge, totalTimeCharge],
+      [t.csvSummaryUniquePlayers, uniqueMembers],
+      [t.csvSummaryTotalSessions, totalSessions],
     ];
 
     const columns = [
@@ -392,45 +543,262 @@ const App: React.FC = () => {
       t.csvHeaderRestSec,
       t.csvHeaderDuration,
       t.csvHeaderBuyIn,
+      t.csvHeaderCashOut,
+      t.csvHeaderNet,
       t.csvHeaderTransfer,
+      t.csvHeaderWait,
+      t.csvHeaderTimeCharge,
+      t.csvHeaderLevels,
+      t.csvHeaderClosedBy,
+      t.csvHeaderCorrected,
+      t.csvHeaderAutoLeave,
     ];
 
-    const rows = tbl.sessions.map((row) => [
+    const rows = tbl.sessions.map((row): XlsxCell[] => [
       row.date,
       row.tableName,
-      row.seatId.toString(),
+      row.seatId,
       row.memberId,
-      row.startTime,
-      row.endTime,
-      row.activeSeconds.toString(),
-      row.restSeconds.toString(),
-      row.durationHMS,
-      row.buyInDisplay,
+      { dateTime: row.startTime },
+      { dateTime: row.endTime },
+      row.activeSeconds,
+      row.restSeconds,
+      { duration: row.activeSeconds },
+      row.buyInAmount,
+      row.cashOutAmount,
+      row.netAmount,
       row.transferNote ?? '',
+      row.waitSeconds,
+      row.timeCharge,
+      formatBlindsLevels(row.blindsLevels),
+      row.staff,
+      formatCorrections(row),
+      row.autoLeave ? { dateTime: row.autoLeave.at } : '',
     ]);
 
-    const allLines = [...headerLines, columns, ...rows];
-    const csvContent = allLines
-      .map((line) => line.map((v) => `"${(v ?? '').replace(/"/g, '""')}"`).join(','))
-      .join('\n');
+    const ledgerColumns = [
+      t.csvHeaderSeat,
+      t.csvHeaderMember,
+      t.csvHeaderStart,
+      t.csvHeaderBuyInTime,
+      t.csvHeaderAmount,
+      t.csvHeaderMethod,
+      t.csvHeaderStaff,
+      t.csvHeaderVoided,
+    ];
+
+    const ledgerRows = tbl.sessions.flatMap((row) =>
+      row.buyIns.map((entry): XlsxCell[] => [
+        row.seatId,
+        row.memberId,
+        { dateTime: row.startTime },
+        { dateTime: entry.time },
+        entry.amount,
+        t.methodLabels[entry.method],
+        entry.staff,
+        entry.voided ? `${t.voidedTag} ${entry.voidedAt ?? ''} ${entry.voidedBy ?? ''}`.trim() : '',
+      ]),
+    );
+
+    const fileName = `PokerSessions_${tableDate.replace(/-/g, '')}_${tbl.name.replace(/\s+/g, '')}`;
+    return { summary, columns, rows, ledgerColumns, ledgerRows, fileName };
+  };
+
+  const exportCsvForTable = (tbl: TableState, nowMsSnapshot: number, closedAtOverride?: string) => {
+    const { summary, columns, rows, ledgerColumns, ledgerRows, fileName } = buildTableExport(
+      tbl,
+      nowMsSnapshot,
+      closedAtOverride,
+    );
+    const ledgerLines =
+      ledgerRows.length > 0 ? [[''], [t.csvLedgerTitle], ledgerColumns, ...ledgerRows] : [];
+    const allLines = [...summary, [''], columns, ...rows, ...ledgerLines];
+    downloadCsv(
+      allLines.map((line) => line.map(cellText)),
+      `${fileName}.csv`,
+    );
+  };
+
+  const exportXlsxForTable = (tbl: TableState, nowMsSnapshot: number) => {
+    const { summary, columns, rows, ledgerColumns, ledgerRows, fileName } = buildTableExport(
+      tbl,
+      nowMsSnapshot,
+    );
+    const totalColumns = [
+      t.csvHeaderActiveSec,
+      t.csvHeaderRestSec,
+      t.csvHeaderDuration,
+      t.csvHeaderBuyIn,
+      t.csvHeaderCashOut,
+      t.csvHeaderNet,
+      t.csvHeaderTimeCharge,
+    ].map((label) => columns.indexOf(label));
+    const sheets: XlsxSheet[] = [
+      { name: t.xlsxSummarySheet, rows: summary },
+      {
+        name: t.xlsxSessionsSheet,
+        rows: [columns, ...rows],
+        headerRow: 0,
+        totals: { label: t.dailyTotal, columns: totalColumns },
+      },
+    ];
+    if (ledgerRows.length > 0) {
+      sheets.push({
+        name: t.csvLedgerTitle,
+        rows: [ledgerColumns, ...ledgerRows],
+        headerRow: 0,
+      });
+    }
+    downloadBlob(buildXlsx(sheets), `${fileName}.xlsx`);
+  };
+
+  const handleSaveMember = (member: Member, originalId: string | null): boolean => {
+    const cleaned = { ...member, id: member.id.trim(), name: member.name.trim() };
+    if (!cleaned.id) {
+      dialogs.alert(t.membersNeedId);
+      return false;
+    }
+    const clash = findMember(members, cleaned.id);
+    if (clash && clash.id !== originalId) {
+      dialogs.alert(t.membersDuplicateId(cleaned.id));
+      return false;
+    }
+    setMembers((prev) =>
+      originalId == null
+        ? [...prev, cleaned]
+        : prev.map((m) => (m.id === originalId ? cleaned : m)),
+    );
+    return true;
+  };
+
+  const handleDeleteMember = async (memberId: string) => {
+    if (!(await dialogs.confirm(t.membersConfirmDelete(memberId)))) return;
+    setMembers((prev) => prev.filter((m) => m.id !== memberId));
+  };
+
+  const handleImportMembers = (csvText: string) => {
+    const imported = parseMembersCsv(csvText);
+    if (!imported) {
+      dialogs.alert(t.membersImportNoId);
+      return;
+    }
+    setMembers((prev) => upsertMembers(prev, imported));
+    dialogs.alert(t.membersImported(imported.length));
+  };
+
+  const backupData: BackupData = {
+    tables,
+    settings,
+    members,
+    waitlist,
+    tournament,
+    staff: staffAccounts,
+    shifts,
+    audit: auditLog,
+  };
+
+  const handleExportBackup = async () => {
+    const archive = await queryArchive({}).catch((err) => {
+      console.error('Session archive failed', err);
+      return undefined;
+    });
+    // The rest of the backup is still worth having when the archive cannot be read.
+    if (!archive) dialogs.alert(t.backupNoArchive);
+    const now = new Date();
+    const backup = buildBackup({ ...backupData, archive }, now.toISOString());
+    const fileName = `PokerBackup_${formatDateTime(now).replace(/\D/g, '')}.json`;
+    downloadBlob(
+      new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }),
+      fileName,
+    );
+  };
+
+  /** Table changes go through the audit log so a bad import can be undone from there. */
+  const handleImportBackup = (data: BackupData, mode: BackupMode) => {
+    if (!requirePermission('importBackup')) return;
+    // Swapped in first so the restore entry itself lands in the imported log.
+    if (data.audit) replaceAudit(data.audit);
+    commitTables(() => data.tables, { action: 'restore', note: t.backupModes[mode] });
+    setSettings(data.settings);
+    setMembers(data.members);
+    setWaitlist(data.waitlist);
+    setTournament(data.tournament);
+    setStaffAccounts(data.staff);
+    setShifts(data.shifts);
+    const archive = data.archive;
+    if (archive) {
+      const keep = new Set(archive.map((row) => row.id));
+      getArchivedIds()
+        .then((ids) =>
+          reconcileArchive({
+            remove: mode === 'replace' ? [...ids].filter((id) => !keep.has(id)) : [],
+            rewrite: archive.filter((row) => mode === 'replace' || !ids.has(row.id)),
+          }),
+        )
+        .catch((err) => console.error('Session archive failed', err));
+    }
+    dialogs.alert(t.backupImported);
+  };
+
+  /**
+   * Warns before seating banned members or IDs missing from the registry. Unknown IDs are
+   * only questioned once the registry has been filled in.
+   */
+  const confirmMembersForSeating = async (memberIds: string[]): Promise<boolean> => {
+    const banned = memberIds.filter((id) => findMember(members, id)?.banned);
+    if (banned.length > 0 && !(await dialogs.confirm(t.confirmBannedMembers(banned.join(', '))))) {
+      return false;
+    }
+    const unknown = members.length > 0 ? memberIds.filter((id) => !findMember(members, id)) : [];
+    if (
+      unknown.length > 0 &&
+      !(await dialogs.confirm(t.confirmUnknownMembers(unknown.join(', '))))
+    ) {
+      return false;
+    }
+    return true;
+  };
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    const fileName = `PokerSessions_${todayText.replace(/-/g, '')}_${tbl.name.replace(
-      /\s+/g,
-      '',
-    )}.csv`;
-    link.download = fileName;
-    link.click();
-    URL.revokeObjectURL(url);
+  const handleCorrectSession = (rowId: string, patch: SessionPatch, reason: string): boolean => {
+    if (!currentTable || !requirePermission('editSessions')) return false;
+    const row = currentTable.sessions.find((r) => r.id === rowId);
+    if (!row) return false;
+    const problem = checkCorrection(row, patch, reason);
+    if (problem) {
+      dialogs.alert(t.sessionProblems[problem]);
+      return false;
+    }
+    const corrected = correctSessionRow(
+      row,
+      patch,
+      reason,
+      staffName,
+      settings,
+      cutoffMinutes,
+      currentTable,
+    );
+    updateTable(
+      currentTable.id,
+      (tbl) => ({
+        ...tbl,
+        sessions: tbl.sessions.map((r) => (r.id === rowId ? corrected : r)),
+      }),
+      {
+        action: 'correctSession',
+        seatIds: [row.seatId],
+        memberIds: [row.memberId],
+        note: reason.trim(),
+      },
+    );
+    // The archive already holds the old version of this row; overwrite it.
+    archiveSessions([corrected]).catch((err) => console.error('Session archive failed', err));
+    return true;
   };
 
   const handleStop = () => {
-    if (!currentTable) return;
+    if (!currentTable || !requirePermission('stop')) return;
     if (hasActivePlayers(currentTable)) {
-      window.alert(t.tableHasPlayers);
+      dialogs.alert(t.tableHasPlayers);
       return;
     }
     const now = Date.now();
@@ -442,16 +810,20 @@ const App: React.FC = () => {
     };
     exportCsvForTable(snapshot, now, closedAtStr);
 
-    updateTable(currentTable.id, (tbl) => {
-      const elapsedSeconds = getTableElapsedSeconds(tbl, now);
-      return {
-        ...tbl,
-        isRunning: false,
-        lastStartTime: null,
-        elapsedSeconds,
-        closedAt: closedAtStr,
-      };
-    });
+    updateTable(
+      currentTable.id,
+      (tbl) => {
+        const elapsedSeconds = getTableElapsedSeconds(tbl, now);
+        return {
+          ...tbl,
+          isRunning: false,
+          lastStartTime: null,
+          elapsedSeconds,
+          closedAt: closedAtStr,
+        };
+      },
+      { action: 'stop' },
+    );
   };
 
   const handleExportCsv = () => {
@@ -464,24 +836,54 @@ const App: React.FC = () => {
     exportCsvForTable(snapshot, now);
   };
 
-  const handleResetTable = () => {
+  const handleExportXlsx = () => {
+    if (!currentTable) return;
+    const now = Date.now();
+    exportXlsxForTable(
+      { ...currentTable, elapsedSeconds: getTableElapsedSeconds(currentTable, now) },
+      now,
+    );
+  };
+
+  const handleOpenClosingReport = () => {
     if (!currentTable) return;
-    if (!window.confirm(t.confirmReset)) return;
     const now = Date.now();
-    if (currentTable.sessions.length > 0) {
+    const snapshot = { ...currentTable, elapsedSeconds: getTableElapsedSeconds(currentTable, now) };
+    setClosingReport({
+      tableName: snapshot.name,
+      printedAt: formatDateTime(new Date(now)),
+      ...buildTableExport(snapshot, now),
+    });
+  };
+
+  const handleResetTable = async () => {
+    if (!currentTable || !requirePermission('reset')) return;
+    const tableId = currentTable.id;
+    if (!(await dialogs.confirm(t.confirmReset))) return;
+    // Export what the table holds now, including anything that came in during the confirm.
+    const latest = tablesRef.current.find((tbl) => tbl.id === tableId);
+    if (!latest) return;
+    const now = Date.now();
+    if (latest.sessions.length > 0) {
       const snapshot: TableState = {
-        ...currentTable,
-        elapsedSeconds: getTableElapsedSeconds(currentTable, now),
+        ...latest,
+        elapsedSeconds: getTableElapsedSeconds(latest, now),
       };
       exportCsvForTable(snapshot, now);
     }
-    updateTable(currentTable.id, (tbl) => {
-      const fresh = createInitialTable(tbl.id);
-      return {
-        ...fresh,
-        name: tbl.name,
-      };
-    });
+    updateTable(
+      tableId,
+      (tbl) => {
+        const fresh = createInitialTable(tbl.id, tbl.seats.length);
+        // Setup configuration stays; only the session state starts over.
+        return {
+          ...fresh,
+          name: tbl.name,
+          restLimitMinutes: tbl.restLimitMinutes,
+        };
+      },
+      { action: 'reset' },
+    );
   };
 
   const handleBlindsChange = (value: string) => {
@@ -489,9 +891,40 @@ const App: React.FC = () => {
     updateTable(currentTable.id, (tbl) => ({
       ...tbl,
       blinds: value,
+      stakeId: null,
     }));
   };
 
+  // Blinds are typed freely, so the log gets one entry per edit rather than per keystroke.
+  const handleBlindsFocus = () => {
+    blindsEditStart.current = tables;
+  };
+
+  const handleBlindsBlur = () => {
+    const before = blindsEditStart.current;
+    blindsEditStart.current = null;
+    if (!before || !currentTable) return;
+    const previous = before.find((tbl) => tbl.id === currentTable.id);
+    if (!previous || previous.blinds === currentTable.blinds) return;
+    const after = tablesRef.current.map((tbl) =>
+      tbl.id === currentTable.id ? applyBlindsChange(tbl, tbl.blinds, null, Date.now()) : tbl,
+    );
+    tablesRef.current = after;
+    setTables(after);
+    logChange({ action: 'blinds', tableIds: [currentTable.id] }, before, after);
+  };
+
+  const handleStakeChange = (stakeId: string) => {
+    if (!currentTable) return;
+    const stake = findStake(settings.stakes, stakeId);
+    if (!stake) return;
+    updateTable(
+      currentTable.id,
+      (tbl) => applyBlindsChange(tbl, formatStakeLabel(stake), stake.id, Date.now()),
+      { action: 'blinds', note: formatStakeLabel(stake) },
+    );
+  };
+
   const handleToggleBatchSeat = (seatId: number) => {
     if (!currentTable) return;
     updateTable(currentTable.id, (tbl) => ({
@@ -502,20 +935,89 @@ const App: React.FC = () => {
     }));
   };
 
+  /** Only empty seats take typing; a seated player's ID is fixed until they leave. */
   const handleMemberChange = (seatId: number, value: string) => {
     if (!currentTable) return;
     updateTable(currentTable.id, (tbl) => ({
       ...tbl,
-      seats: tbl.seats.map((s) => (s.id === seatId ? { ...s, memberId: value.trim() } : s)),
+      seats: tbl.seats.map((s) =>
+        s.id === seatId && s.status === 'idle'
+          ? {
+              ...s,
+              memberId: value.trim(),
+              // Someone else typed over a called player: the recorded wait no longer applies.
+              waitSeconds: null,
+            }
+          : s,
+      ),
     }));
   };
 
-  const findSeatByMember = (tbl: TableState, memberId: string): SeatState | undefined => {
+  const handleAddToWaitlist = (memberId: string, byBlinds: boolean): boolean => {
+    if (!currentTable) return false;
     const id = memberId.trim();
-    if (!id) return undefined;
-    return tbl.seats.find(
-      (s) => s.memberId === id && (s.status === 'seated' || s.status === 'rest'),
-    );
+    if (!id) {
+      dialogs.alert(t.needMemberId);
+      return false;
+    }
+    const blinds = currentTable.blinds.trim();
+    const entry = createWaitlistEntry(id, byBlinds ? { blinds } : { tableId: currentTable.id });
+    if (
+      waitlist.some(
+        (e) => e.memberId === id && e.tableId === entry.tableId && e.blinds === entry.blinds,
+      )
+    ) {
+      dialogs.alert(t.waitlistDuplicate(id));
+      return false;
+    }
+    setWaitlist((prev) => [...prev, entry]);
+    return true;
+  };
+
+  const handleMoveWaitlistEntry = (entryId: string, offset: number) => {
+    setWaitlist((prev) => moveWaitlistEntry(prev, entryId, offset));
+  };
+
+  const handleRemoveWaitlistEntry = (entryId: string) => {
+    setWaitlist((prev) => prev.filter((e) => e.id !== entryId));
+  };
+
+  /** Puts a waiting player's ID on an open seat and takes them off the list. */
+  const callFromWaitlist = (tableId: number, seatId: number, entry: WaitlistEntry) => {
+    const waitSeconds = getWaitSeconds(entry, Date.now());
+    updateTable(tableId, (tbl) => ({
+      ...tbl,
+      seats: tbl.seats.map((s) =>
+        s.id === seatId ? { ...s, memberId: entry.memberId, waitSeconds } : s,
+      ),
+    }));
+    setWaitlist((prev) => prev.filter((e) => e.id !== entry.id));
+  };
+
+  const handleSeatFromWaitlist = (entryId: string) => {
+    if (!currentTable) return;
+    const entry = waitlist.find((e) => e.id === entryId);
+    const seat = getCashOpenSeats(currentTable)[0];
+    if (!entry) return;
+    if (!seat) {
+      dialogs.alert(t.waitlistNoSeat);
+      return;
+    }
+    callFromWaitlist(currentTable.id, seat.id, entry);
+  };
+
+  /** After seats free up, offers them one by one to the head of the table's waitlist. */
+  const offerSeatsToWaitlist = async (tbl: TableState, seatIds: number[]) => {
+    const queue = getWaitlistForTable(waitlist, tbl);
+    for (const seatId of seatIds) {
+      const next = queue.shift();
+      if (!next) return;
+      const waited = formatHMS(getWaitSeconds(next, Date.now()));
+      if (!(await dialogs.confirm(t.waitlistCallNext(next.memberId, seatId, waited)))) return;
+      const latest = tablesRef.current.find((x) => x.id === tbl.id);
+      if (!latest || !getCashOpenSeats(latest).some((s) => s.id === seatId)) continue;
+      callFromWaitlist(tbl.id, seatId, next);
+    }
   };
 
   const appendSessionRow = (
@@ -523,19 +1025,37 @@ const App: React.FC = () => {
     seat: SeatState,
     endTimeStr: string,
     nowMsSnapshot: number,
+    cashOutAmount: number | null = null,
   ): SessionRow | null => {
     if (!seat.memberId || !seat.sessionStart) return null;
     const activeSeconds = getSeatActiveSeconds(seat, nowMsSnapshot);
     const restSeconds = getSeatRestSeconds(seat, nowMsSnapshot);
     const durationHMS = formatHMS(activeSeconds);
-    const buyInDisplay = seat.transferNote
-      ? seat.transferNote
-      : seat.buyInAmount.toString();
-    const buyInAmount = seat.transferNote ? null : seat.buyInAmount;
+    // Chips carried in from a move count as buy-in here, so the table's chip balance adds up.
+    const buyInAmount = seat.buyInAmount + (seat.carriedIn ?? 0);
+    const buyInDisplay = formatBuyInDisplay(seat.transferNote, buyInAmount, seat.carriedIn);
+    const netAmount =
+      cashOutAmount != null && (!seat.transferNote || seat.carriedIn != null)
+        ? cashOutAmount - buyInAmount
+        : null;
+    const startMs = parseDateTime(seat.sessionStart)?.getTime() ?? nowMsSnapshot;
+    const blindsLevels = getBlindsLevelsForSession(tbl, startMs, nowMsSnapshot);
+    const timeCharge = computeTimeCharge(
+      activeSeconds,
+      restSeconds,
+      tbl.blinds,
+      settings,
+      blindsLevels,
+    );
     return {
-      date: formatToday(),
+      id: createId(),
+      date: formatBusinessDate(
+        parseDateTime(seat.sessionStart) ?? new Date(nowMsSnapshot),
+        cutoffMinutes,
+      ),
       tableId: tbl.id,
       tableName: tbl.name,
+      blinds: tbl.blinds,
       seatId: seat.id,
       memberId: seat.memberId,
       startTime: seat.sessionStart,
@@ -545,7 +1065,17 @@ const App: React.FC = () => {
       durationHMS,
       buyInDisplay,
       buyInAmount,
+      buyIns: seat.buyIns,
+      carriedIn: seat.carriedIn,
+      cashOutAmount,
+      netAmount,
       transferNote: seat.transferNote,
+      waitSeconds: seat.waitSeconds,
+      timeCharge,
+      blindsLevels,
+      staff: staffName,
+      corrections: [],
+      autoLeave: null,
     };
   };
 
@@ -557,263 +1087,743 @@ const App: React.FC = () => {
     lastActiveStart: null,
     lastRestStart: null,
     buyInAmount: 0,
+    buyIns: [],
     transferNote: null,
+    carriedIn: null,
     sessionStart: null,
     selectedForBatch: false,
     memberId: '',
+    waitSeconds: null,
   });
 
-  const handleSeatUp = (seatId: number) => {
+  /** Writes the session rows for `seatIds` as ending at `endMs` and frees the seats. */
+  const closeSeats = (
+    tbl: TableState,
+    seatIds: number[],
+    endMs: number,
+    cashOut: number | null = null,
+    autoLeave: AutoLeaveRecord | null = null,
+  ): TableState => {
+    const endTimeStr = formatDateTime(new Date(endMs));
+    const sessions: SessionRow[] = [...tbl.sessions];
+    const seats = tbl.seats.map((s) => {
+      if (!seatIds.includes(s.id)) return s;
+      const session = appendSessionRow(tbl, s, endTimeStr, endMs, cashOut);
+      if (session && autoLeave) {
+        const id = getAutoLeaveRowId(tbl.id, s);
+        if (!sessions.some((row) => row.id === id)) sessions.push({ ...session, id, autoLeave });
+      } else if (session) {
+        sessions.push(session);
+      }
+      return clearSeat(s);
+    });
+    return { ...tbl, seats, sessions };
+  };
+
+  /**
+   * Ends the sessions on `seatIds` through `close`, logs it as one step and offers the freed
+   * seats to the table's waitlist. Leave, batch leave and the rest policy all come through here.
+   */
+  const leaveSeats = (
+    tableId: number,
+    seatIds: number[],
+    close: (tbl: TableState) => TableState,
+    meta: Omit<AuditMeta, 'tableIds' | 'seatIds'>,
+  ) => {
+    updateTable(tableId, close, { ...meta, seatIds });
+    const latest = tablesRef.current.find((tbl) => tbl.id === tableId);
+    if (latest) offerSeatsToWaitlist(latest, seatIds);
+  };
+
+  // Players resting past their limit and grace period leave through the same path as the
+  // Leave button, as of the moment the grace period ran out. Nothing happens while the floor
+  // is still confirming seats after an outage.
+  useEffect(() => {
+    if (interruptedSeats.length > 0) return;
+    const due = findDueSeats(getActiveTables(tablesRef.current), settings, nowMs);
+    if (due.length === 0) return;
+    const notices = due.map((d) => {
+      const name = tablesRef.current.find((tbl) => tbl.id === d.tableId)?.name ?? '';
+      return t.restAutoLeftSeat(name, d.seatId, d.memberId);
+    });
+    for (const tableId of new Set(due.map((d) => d.tableId))) {
+      const tableDue = due.filter((d) => d.tableId === tableId);
+      leaveSeats(
+        tableId,
+        tableDue.map((d) => d.seatId),
+        (tbl) =>
+          tableDue.reduce(
+            (acc, d) =>
+              closeSeats(acc, [d.seatId], d.dueAtMs, null, {
+                at: formatDateTime(new Date(d.dueAtMs)),
+                breakSeconds: d.breakSeconds,
+                limitMinutes: d.limitMinutes,
+              }),
+            tbl,
+          ),
+        { action: 'autoLeave', memberIds: tableDue.map((d) => d.memberId) },
+      );
+    }
+    setAutoLeaveNotice((prev) => [...prev, ...notices]);
+  }, [nowMs]);
+
+  /**
+   * Ends the seats the floor says were left before the outage, at the times they gave.
+   * Seats marked as still playing keep running, outage included.
+   */
+  const handleConfirmRecovery = (decisions: RecoveryDecision[]): boolean => {
+    const now = Date.now();
+    const ended: { tableId: number; seatId: number; memberId: string; endMs: number }[] = [];
+    for (const decision of decisions) {
+      if (decision.endTime == null) continue;
+      const tbl = tables.find((x) => x.id === decision.tableId);
+      const seat = tbl?.seats.find((s) => s.id === decision.seatId);
+      if (!tbl || !seat) continue;
+      const endMs = parseDateTime(decision.endTime.trim())?.getTime();
+      const startMs = seat.sessionStart ? parseDateTime(seat.sessionStart)?.getTime() : undefined;
+      if (endMs == null || endMs > now || (startMs != null && endMs < startMs)) {
+        dialogs.alert(t.recoveryBadTime(tbl.name, seat.id));
+        return false;
+      }
+      ended.push({ tableId: tbl.id, seatId: seat.id, memberId: seat.memberId, endMs });
+    }
+    if (ended.length > 0) {
+      commitTables(
+        (prev) =>
+          prev.map((tbl) =>
+            ended
+              .filter((e) => e.tableId === tbl.id)
+              .reduce((acc, e) => closeSeats(acc, [e.seatId], e.endMs), tbl),
+          ),
+        {
+          action: 'recover',
+          tableIds: Array.from(new Set(ended.map((e) => e.tableId))),
+          seatIds: ended.map((e) => e.seatId),
+          memberIds: ended.map((e) => e.memberId),
+        },
+      );
+    }
+    setInterruptedSeats([]);
+    return true;
+  };
+
+  /**
+   * Closes the player's session on the source seat and opens a fresh one on the target seat,
+   * which may be at another table. The chips travel with the player: the source row is cashed
+   * out for `chips` and the new session carries them in as its buy-in, so both tables balance.
+   * Returns the change without committing it, so several moves can go in as one step.
+   */
+  const planTransfer = (
+    fromTableId: number,
+    fromSeatId: number,
+    toTableId: number,
+    toSeatId: number,
+    chips: number,
+  ): { apply: (prev: TableState[]) => TableState[]; meta: AuditMeta } | null => {
+    const fromTable = tablesRef.current.find((tbl) => tbl.id === fromTableId);
+    const fromSeat = fromTable?.seats.find((s) => s.id === fromSeatId);
+    if (!fromTable || !fromSeat) return null;
+    const memberId = fromSeat.memberId;
+    const resting = fromSeat.status === 'rest';
+    const transferNote = formatTransferNote(fromTable, fromSeatId);
+    const now = Date.now();
+    const nowStr = formatDateTime(new Date());
+
+    const moveOut = (tbl: TableState): TableState => {
+      const sessions: SessionRow[] = [...tbl.sessions];
+      const seats = tbl.seats.map((s) => {
+        if (s.id !== fromSeatId) return s;
+        // A resting player's current break goes with them, so it is left out of this row.
+        const closing = resting ? { ...s, lastRestStart: now } : s;
+        const session = appendSessionRow(tbl, closing, nowStr, now, chips);
+        if (session) sessions.push(session);
+        return clearSeat(s);
+      });
+      return { ...tbl, seats, sessions };
+    };
+
+    const moveIn = (tbl: TableState): TableState => ({
+      ...tbl,
+      seats: tbl.seats.map((s) =>
+        s.id === toSeatId
+          ? {
+              ...s,
+              memberId,
+              // Resting players stay on their break, which keeps counting toward the rest limit.
+              status: (resting ? 'rest' : 'seated') as SeatStatus,
+              lastActiveStart: resting ? null : now,
+              lastRestStart: resting ? fromSeat.lastRestStart : null,
+              activeSeconds: 0,
+              restSeconds: 0,
+              buyInAmount: 0,
+              buyIns: [],
+              sessionStart: nowStr,
+              transferNote,
+              carriedIn: chips,
+              waitSeconds: null,
+            }
+          : s,
+      ),
+    });
+
+    return {
+      apply: (prev) =>
+        prev.map((tbl) => {
+          let next = tbl;
+          if (tbl.id === fromTableId) next = moveOut(next);
+          if (tbl.id === toTableId) next = moveIn(next);
+          return next;
+        }),
+      meta: {
+        action: 'move',
+        tableIds: fromTableId === toTableId ? [fromTableId] : [fromTableId, toTableId],
+        seatIds: [fromSeatId, toSeatId],
+        memberIds: [memberId],
+        note: transferNote,
+      },
+    };
+  };
+
+  /** Asks for the chips the player takes along, then moves them if neither seat changed. */
+  const transferPlayer = async (
+    fromTableId: number,
+    fromSeatId: number,
+    toTableId: number,
+    toSeatId: number,
+  ) => {
+    const fromSeat = getLatestSeat(fromTableId, fromSeatId);
+    const toSeat = getLatestSeat(toTableId, toSeatId);
+    if (!fromSeat || !toSeat) return;
+    const chips = await dialogs.promptNumber(t.movePromptChips(fromSeat.memberId, fromSeatId), {
+      initial: 0,
+    });
+    if (chips == null) return;
+    if (
+      !isSameSession(fromSeat, getLatestSeat(fromTableId, fromSeatId)) ||
+      !isSameSession(toSeat, getLatestSeat(toTableId, toSeatId))
+    ) {
+      dialogs.alert(t.seatChanged);
+      return;
+    }
+    const transfer = planTransfer(fromTableId, fromSeatId, toTableId, toSeatId, chips);
+    if (transfer) commitTables(transfer.apply, transfer.meta);
+  };
+
+  /** Seats the member typed into the seat, or `scannedId` when a card was scanned for it. */
+  const handleSeatUp = async (seatId: number, scannedId?: string) => {
     if (!currentTable) return;
     const tbl = currentTable;
 
     if (!tbl.isRunning) {
-      window.alert(t.tableNotRunning);
+      dialogs.alert(t.tableNotRunning);
       return;
     }
 
     const seat = tbl.seats.find((s) => s.id === seatId);
     if (!seat) return;
+    if (seat.status === 'idle' && getTournamentSeatIds(tournament, tbl.id).includes(seatId)) {
+      dialogs.alert(t.seatHeldByTournament(String(seatId)));
+      return;
+    }
 
-    const memberId = seat.memberId.trim();
+    const memberId = (scannedId ?? seat.memberId).trim();
     if (!memberId) {
-      window.alert(t.needMemberId);
+      dialogs.alert(t.needMemberId);
       return;
     }
 
-    const existing = findSeatByMember(tbl, memberId);
-    const now = Date.now();
-
-    if (existing && existing.id !== seatId) {
-      const ok = window.confirm(t.confirmMove(memberId, existing.id, seatId));
+    const existing = findMemberSeatings(tables, memberId).find(
+      (x) => !(x.table.id === tbl.id && x.seat.id === seatId),
+    );
+    if (existing) {
+      const ok = await dialogs.confirm(
+        existing.table.id === tbl.id
+          ? t.confirmMove(memberId, existing.seat.id, seatId)
+          : t.confirmMoveTable(memberId, existing.table.name, existing.seat.id, tbl.name, seatId),
+      );
       if (!ok) return;
+      if (
+        !isSameSession(existing.seat, getLatestSeat(existing.table.id, existing.seat.id)) ||
+        !isSameSession(seat, getLatestSeat(tbl.id, seatId))
+      ) {
+        dialogs.alert(t.seatChanged);
+        return;
+      }
+      await transferPlayer(existing.table.id, existing.seat.id, tbl.id, seatId);
+      return;
+    }
 
-      updateTable(tbl.id, (prevTbl) => {
-        const closedAtStr = formatDateTime(new Date());
-        const nowSnap = now;
-        const sessions: SessionRow[] = [...prevTbl.sessions];
-        const newSeats = prevTbl.seats.map((s) => {
-          if (s.id === existing.id) {
-            const session = appendSessionRow(prevTbl, s, closedAtStr, nowSnap);
-            if (session) sessions.push(session);
-            return clearSeat(s);
-          }
-          return s;
-        });
+    if (seat.status === 'idle' && !(await confirmMembersForSeating([memberId]))) return;
+    if (!isSameSession(seat, getLatestSeat(tbl.id, seatId))) {
+      dialogs.alert(t.seatChanged);
+      return;
+    }
 
-        const updatedSeats = newSeats.map((s) => {
+    const now = Date.now();
+    updateTable(
+      tbl.id,
+      (prevTbl) => {
+        const nowSnap = now;
+        const seats = prevTbl.seats.map((s) => {
           if (s.id !== seatId) return s;
+          if (s.status === 'seated') return s;
+          let activeSeconds = s.activeSeconds;
+          let restSeconds = s.restSeconds;
+          let sessionStart = s.sessionStart;
+          if (s.status === 'rest' && s.lastRestStart != null) {
+            const delta = Math.floor((nowSnap - s.lastRestStart) / 1000);
+            restSeconds += Math.max(0, delta);
+          }
+          if (s.status === 'idle') {
+            activeSeconds = 0;
+            restSeconds = 0;
+            sessionStart = formatDateTime(new Date());
+          }
           return {
             ...s,
+            // A scanned card replaces whoever was typed in or called to an empty seat.
+            ...(s.status === 'idle' && memberId !== s.memberId
+              ? { memberId, waitSeconds: null }
+              : null),
             status: 'seated' as SeatStatus,
             lastActiveStart: nowSnap,
             lastRestStart: null,
-            activeSeconds: 0,
-            restSeconds: 0,
-            sessionStart: formatDateTime(new Date()),
-            transferNote: `Transfer-Seat${existing.id}`,
+            activeSeconds,
+            restSeconds,
+            sessionStart,
+            transferNote: s.transferNote,
           };
         });
+        return { ...prevTbl, seats };
+      },
+      { action: 'seat', seatIds: [seatId], memberIds: [memberId] },
+    );
+  };
 
-        return {
-          ...prevTbl,
-          seats: updatedSeats,
-          sessions,
-        };
-      });
+  const handleMoveToTable = async (seatId: number, toTableId: number, toSeatId: number) => {
+    if (!currentTable) return;
+    const seat = currentTable.seats.find((s) => s.id === seatId);
+    const toTable = tables.find((tbl) => tbl.id === toTableId);
+    if (!seat || !toTable) return;
+    if (!toTable.isRunning) {
+      dialogs.alert(t.tableNotRunning);
       return;
     }
+    setMoveSeatId(null);
+    await transferPlayer(currentTable.id, seatId, toTableId, toSeatId);
+  };
 
-    updateTable(tbl.id, (prevTbl) => {
-      const nowSnap = now;
-      const seats = prevTbl.seats.map((s) => {
-        if (s.id !== seatId) return s;
-        if (s.status === 'seated') return s;
-        let activeSeconds = s.activeSeconds;
-        let restSeconds = s.restSeconds;
-        let sessionStart = s.sessionStart;
-        if (s.status === 'rest' && s.lastRestStart != null) {
-          const delta = Math.floor((nowSnap - s.lastRestStart) / 1000);
-          restSeconds += Math.max(0, delta);
-        }
-        if (s.status === 'idle') {
-          activeSeconds = 0;
-          restSeconds = 0;
-          sessionStart = formatDateTime(new Date());
-        }
-        return {
-          ...s,
-          status: 'seated' as SeatStatus,
-          lastActiveStart: nowSnap,
-          lastRestStart: null,
-          activeSeconds,
-          restSeconds,
-          sessionStart,
-          transferNote: s.transferNote,
-        };
-      });
-      return { ...prevTbl, seats };
+  /** Trades the players on two occupied seats without closing either session. */
+  const handleSwapSeats = (seatId: number, otherSeatId: number) => {
+    if (!currentTable) return;
+    const seat = currentTable.seats.find((s) => s.id === seatId);
+    const other = currentTable.seats.find((s) => s.id === otherSeatId);
+    if (!seat || !other || seat.status === 'idle' || other.status === 'idle') return;
+    setSwapSeatId(null);
+    updateTable(currentTable.id, (tbl) => swapSeats(tbl, seatId, otherSeatId), {
+      action: 'swap',
+      seatIds: [seatId, otherSeatId],
+      memberIds: [seat.memberId, other.memberId],
+    });
+  };
+
+  const balanceMoves = useMemo(
+    () => planCashBalance(tables, tournament.tableIds),
+    [tables, tournament.tableIds],
+  );
+
+  const handleBalanceMove = async (move: BalanceMove) => {
+    await transferPlayer(move.fromTableId, move.fromSeatId, move.toTableId, move.toSeatId);
+  };
+
+  const handleBalanceMoveAll = async () => {
+    const moves = balanceMoves.flatMap((move) => {
+      const from = getLatestSeat(move.fromTableId, move.fromSeatId);
+      const to = getLatestSeat(move.toTableId, move.toSeatId);
+      return from && to ? [{ move, from, to }] : [];
+    });
+    if (moves.length === 0) return;
+    const chips = await dialogs.promptAmounts(
+      t.movePromptChipsAll,
+      moves.map(({ move, from }, index) => {
+        const fromName = tables.find((tbl) => tbl.id === move.fromTableId)?.name ?? '';
+        return { key: index, label: `${fromName} ${t.seat} ${from.id} · ${from.memberId}` };
+      }),
+      { initial: 0 },
+    );
+    if (!chips) return;
+    const changed = moves.some(
+      ({ move, from, to }) =>
+        !isSameSession(from, getLatestSeat(move.fromTableId, move.fromSeatId)) ||
+        !isSameSession(to, getLatestSeat(move.toTableId, move.toSeatId)),
+    );
+    if (changed) {
+      dialogs.alert(t.seatChanged);
+      return;
+    }
+    const transfers = moves
+      .map(({ move }, index) =>
+        planTransfer(
+          move.fromTableId,
+          move.fromSeatId,
+          move.toTableId,
+          move.toSeatId,
+          chips.get(index) ?? 0,
+        ),
+      )
+      .filter((transfer): transfer is NonNullable<typeof transfer> => transfer != null);
+    if (transfers.length === 0) return;
+    commitTables((prev) => transfers.reduce((acc, transfer) => transfer.apply(acc), prev), {
+      action: 'move',
+      tableIds: Array.from(new Set(transfers.flatMap((x) => x.meta.tableIds ?? []))),
+      seatIds: transfers.flatMap((x) => x.meta.seatIds ?? []),
+      memberIds: transfers.flatMap((x) => x.meta.memberIds ?? []),
+      note: t.balanceTitle,
     });
   };
 
   const handleRest = (seatId: number) => {
     if (!currentTable) return;
+    const seat = currentTable.seats.find((s) => s.id === seatId);
+    if (!seat) return;
     const now = Date.now();
-    updateTable(currentTable.id, (tbl) => {
-      const seats = tbl.seats.map((s) => {
-        if (s.id !== seatId) return s;
-        if (s.status !== 'seated' || s.lastActiveStart == null) return s;
-        const delta = Math.floor((now - s.lastActiveStart) / 1000);
-        const activeSeconds = s.activeSeconds + Math.max(0, delta);
-        return {
-          ...s,
-          status: 'rest' as SeatStatus,
-          lastActiveStart: null,
-          lastRestStart: now,
-          activeSeconds,
-        };
-      });
-      return { ...tbl, seats };
+    updateTable(
+      currentTable.id,
+      (tbl) => {
+        const seats = tbl.seats.map((s) => {
+          if (s.id !== seatId) return s;
+          if (s.status !== 'seated' || s.lastActiveStart == null) return s;
+          const delta = Math.floor((now - s.lastActiveStart) / 1000);
+          const activeSeconds = s.activeSeconds + Math.max(0, delta);
+          return {
+            ...s,
+            status: 'rest' as SeatStatus,
+            lastActiveStart: null,
+            lastRestStart: now,
+            activeSeconds,
+          };
+        });
+        return { ...tbl, seats };
+      },
+      { action: 'rest', seatIds: [seatId], memberIds: [seat.memberId] },
+    );
+  };
+
+  /**
+   * Asks for the chips a leaving player takes off the table. Returns undefined when the
+   * floor cancels, and null for seats that have no open session to close.
+   */
+  const promptCashOut = async (seat: SeatState): Promise<number | null | undefined> => {
+    if (!seat.memberId || !seat.sessionStart) return null;
+    const amt = await dialogs.promptNumber(t.leavePromptChips(seat.memberId, seat.id), {
+      initial: 0,
     });
+    return amt ?? undefined;
   };
 
-  const handleLeave = (seatId: number) => {
+  const handleLeave = async (seatId: number) => {
     if (!currentTable) return;
+    const seat = currentTable.seats.find((s) => s.id === seatId);
+    if (!seat) return;
+    const tableId = currentTable.id;
+    const cashOut = await promptCashOut(seat);
+    if (cashOut === undefined) return;
+    if (!isSameSession(seat, getLatestSeat(tableId, seatId))) {
+      dialogs.alert(t.seatChanged);
+      return;
+    }
     const now = Date.now();
-    const endTimeStr = formatDateTime(new Date());
-    updateTable(currentTable.id, (tbl) => {
-      const nowSnap = now;
-      const sessions: SessionRow[] = [...tbl.sessions];
-      const seats = tbl.seats.map((s) => {
-        if (s.id !== seatId) return s;
-        const session = appendSessionRow(tbl, s, endTimeStr, nowSnap);
-        if (session) sessions.push(session);
-        return clearSeat(s);
-      });
-      return { ...tbl, seats, sessions };
+    leaveSeats(tableId, [seatId], (tbl) => closeSeats(tbl, [seatId], now, cashOut), {
+      action: 'leave',
+      memberIds: [seat.memberId],
     });
   };
 
-  const handleAddBuyIn = (seatId: number) => {
+  /** Rejects buy-ins outside the limits of the table's configured stake. */
+  const confirmBuyInLimits = (tbl: TableState, amount: number): boolean => {
+    const stake = findStake(settings.stakes, tbl.stakeId);
+    const problem = checkBuyIn(stake, amount);
+    if (!stake || !problem) return true;
+    dialogs.alert(
+      problem === 'belowMin' ? t.buyInBelowMin(stake.minBuyIn) : t.buyInAboveMax(stake.maxBuyIn),
+    );
+    return false;
+  };
+
+  const handleAddBuyIn = async (seatId: number) => {
     if (!currentTable) return;
     const seat = currentTable.seats.find((s) => s.id === seatId);
     if (!seat) return;
-    const raw = window.prompt(
-      lang === 'zh'
-        ? '請輸入加買籌碼數量（金額，可為 0）'
-        : 'Enter additional buy-in amount (can be 0)',
-      '0',
-    );
-    if (raw == null) return;
-    const amt = Number(raw);
-    if (!Number.isFinite(amt)) {
-      window.alert(t.invalidNumber);
+    const tableId = currentTable.id;
+    const amt = await dialogs.promptNumber(t.addBuyInPrompt, { initial: 0 });
+    if (amt == null || amt <= 0) return;
+    const latestTable = tablesRef.current.find((tbl) => tbl.id === tableId);
+    if (!latestTable || !isSameSession(seat, getLatestSeat(tableId, seatId))) {
+      dialogs.alert(t.seatChanged);
       return;
     }
-    updateTable(currentTable.id, (tbl) => ({
-      ...tbl,
-      seats: tbl.seats.map((s) =>
-        s.id === seatId ? { ...s, buyInAmount: s.buyInAmount + Math.max(0, amt) } : s,
-      ),
-    }));
+    if (!confirmBuyInLimits(latestTable, amt)) return;
+    const entry = createBuyInEntry(amt, paymentMethod, staffName);
+    updateTable(
+      tableId,
+      (tbl) => ({
+        ...tbl,
+        seats: tbl.seats.map((s) => (s.id === seatId ? addBuyInToSeat(s, entry) : s)),
+      }),
+      {
+        action: 'buyIn',
+        seatIds: [seatId],
+        memberIds: [seat.memberId],
+        note: `${amt} ${paymentMethod}`,
+      },
+    );
+  };
+
+  const handleVoidBuyIn = async (seatId: number, entryId: string) => {
+    if (!currentTable) return;
+    const seat = currentTable.seats.find((s) => s.id === seatId);
+    const entry = seat?.buyIns.find((e) => e.id === entryId);
+    if (!seat || !entry || entry.voided) return;
+    if (!requirePermission('voidBuyIn')) return;
+    const tableId = currentTable.id;
+    if (!(await dialogs.confirm(t.confirmVoidBuyIn(entry.amount, entry.time)))) return;
+    const latestEntry = getLatestSeat(tableId, seatId)?.buyIns.find((e) => e.id === entryId);
+    if (!latestEntry || latestEntry.voided) return;
+    updateTable(
+      tableId,
+      (tbl) => ({
+        ...tbl,
+        seats: tbl.seats.map((s) => (s.id === seatId ? voidBuyInOnSeat(s, entryId, staffName) : s)),
+      }),
+      {
+        action: 'voidBuyIn',
+        seatIds: [seatId],
+        memberIds: [seat.memberId],
+        note: `${entry.amount} ${entry.time}`,
+      },
+    );
   };
 
-  const handleBatchSeat = () => {
+  const handleBatchSeat = async () => {
     if (!currentTable) return;
     const tbl = currentTable;
     if (!tbl.isRunning) {
-      window.alert(t.tableNotRunning);
+      dialogs.alert(t.tableNotRunning);
       return;
     }
     const selected = tbl.seats.filter((s) => s.selectedForBatch);
     if (selected.length === 0) {
-      window.alert(t.batchNoSelection);
+      dialogs.alert(t.batchNoSelection);
       return;
     }
     if (selected.some((s) => !s.memberId.trim())) {
-      window.alert(t.batchMissingMember);
+      dialogs.alert(t.batchMissingMember);
+      return;
+    }
+    const held = getTournamentSeatIds(tournament, tbl.id);
+    const heldSelected = selected.filter((s) => s.status === 'idle' && held.includes(s.id));
+    if (heldSelected.length > 0) {
+      dialogs.alert(t.seatHeldByTournament(heldSelected.map((s) => s.id).join(', ')));
       return;
     }
     for (const s of selected) {
-      const existing = findSeatByMember(tbl, s.memberId);
-      if (existing && existing.id !== s.id) {
-        window.alert(t.duplicateMember);
+      const existing = findMemberSeatings(tables, s.memberId).find(
+        (x) => !(x.table.id === tbl.id && x.seat.id === s.id),
+      );
+      if (existing) {
+        dialogs.alert(
+          existing.table.id === tbl.id
+            ? t.duplicateMember
+            : t.duplicateMemberOtherTable(s.memberId.trim(), existing.table.name, existing.seat.id),
+        );
         return;
       }
     }
-    const raw = window.prompt(t.batchPromptChips, '0');
-    if (raw == null) return;
-    const amt = Number(raw);
-    if (!Number.isFinite(amt)) {
-      window.alert(t.invalidNumber);
+    const newcomers = selected.filter((s) => s.status === 'idle').map((s) => s.memberId.trim());
+    if (!(await confirmMembersForSeating(newcomers))) return;
+    const amounts = await dialogs.promptAmounts(
+      t.batchPromptChips,
+      selected.map((s) => ({ key: s.id, label: `${t.seat} ${s.id} · ${s.memberId.trim()}` })),
+      { initial: 0 },
+    );
+    if (!amounts) return;
+    if (selected.some((s) => !isSameSession(s, getLatestSeat(tbl.id, s.id)))) {
+      dialogs.alert(t.seatChanged);
       return;
     }
-    const buyInDelta = Math.max(0, amt);
+    // The stake may have changed while the dialogs were open; check against the limits now.
+    const latestTable = tablesRef.current.find((x) => x.id === tbl.id) ?? tbl;
+    for (const amt of amounts.values()) {
+      if (amt > 0 && !confirmBuyInLimits(latestTable, amt)) return;
+    }
+    const withBuyIn = (s: SeatState): SeatState => {
+      const amt = amounts.get(s.id) ?? 0;
+      return amt > 0 ? addBuyInToSeat(s, createBuyInEntry(amt, paymentMethod, staffName)) : s;
+    };
     const now = Date.now();
-    updateTable(tbl.id, (prevTbl) => {
-      const nowSnap = now;
-      const seats = prevTbl.seats.map((s) => {
-        if (!s.selectedForBatch) return s;
-        if (s.status === 'seated') {
-          return {
+    updateTable(
+      tbl.id,
+      (prevTbl) => {
+        const nowSnap = now;
+        const seats = prevTbl.seats.map((s) => {
+          if (!amounts.has(s.id)) return s;
+          if (s.status === 'seated') {
+            return withBuyIn(s);
+          }
+          let activeSeconds = s.activeSeconds;
+          let restSeconds = s.restSeconds;
+          let sessionStart = s.sessionStart;
+          if (s.status === 'rest' && s.lastRestStart != null) {
+            const delta = Math.floor((nowSnap - s.lastRestStart) / 1000);
+            restSeconds += Math.max(0, delta);
+          }
+          if (s.status === 'idle') {
+            activeSeconds = 0;
+            restSeconds = 0;
+            sessionStart = formatDateTime(new Date());
+          }
+          return withBuyIn({
             ...s,
-            buyInAmount: s.buyInAmount + buyInDelta,
-          };
-        }
-        let activeSeconds = s.activeSeconds;
-        let restSeconds = s.restSeconds;
-        let sessionStart = s.sessionStart;
-        if (s.status === 'rest' && s.lastRestStart != null) {
-          const delta = Math.floor((nowSnap - s.lastRestStart) / 1000);
-          restSeconds += Math.max(0, delta);
-        }
-        if (s.status === 'idle') {
-          activeSeconds = 0;
-          restSeconds = 0;
-          sessionStart = formatDateTime(new Date());
-        }
-        return {
-          ...s,
-          status: 'seated' as SeatStatus,
-          lastActiveStart: nowSnap,
-          lastRestStart: null,
-          activeSeconds,
-          restSeconds,
-          sessionStart,
-          buyInAmount: s.buyInAmount + buyInDelta,
-          transferNote: s.transferNote,
-        };
-      });
-      return { ...prevTbl, seats };
-    });
+            status: 'seated' as SeatStatus,
+            lastActiveStart: nowSnap,
+            lastRestStart: null,
+            activeSeconds,
+            restSeconds,
+            sessionStart,
+            transferNote: s.transferNote,
+          });
+        });
+        return { ...prevTbl, seats };
+      },
+      {
+        action: 'batchSeat',
+        seatIds: selected.map((s) => s.id),
+        memberIds: selected.map((s) => s.memberId),
+      },
+    );
   };
 
-  const handleBatchLeave = () => {
+  const handleBatchLeave = async () => {
     if (!currentTable) return;
     const tbl = currentTable;
     const selected = tbl.seats.filter((s) => s.selectedForBatch && s.status !== 'idle');
     if (selected.length === 0) {
-      window.alert(t.batchNoSelection);
+      dialogs.alert(t.batchNoSelection);
+      return;
+    }
+    if (!(await dialogs.confirm(t.confirmBatchLeave))) return;
+    const withSession = selected.filter((s) => s.memberId && s.sessionStart);
+    const cashOuts =
+      withSession.length > 0
+        ? await dialogs.promptAmounts(
+            t.batchLeavePromptChips,
+            withSession.map((s) => ({ key: s.id, label: `${t.seat} ${s.id} · ${s.memberId}` })),
+            { initial: 0 },
+          )
+        : new Map<number, number>();
+    if (!cashOuts) return;
+    if (selected.some((s) => !isSameSession(s, getLatestSeat(tbl.id, s.id)))) {
+      dialogs.alert(t.seatChanged);
       return;
     }
-    const ok = window.confirm(t.confirmBatchLeave);
-    if (!ok) return;
     const now = Date.now();
-    const endTimeStr = formatDateTime(new Date());
-    updateTable(tbl.id, (prevTbl) => {
-      const nowSnap = now;
-      const sessions: SessionRow[] = [...prevTbl.sessions];
-      const seats = prevTbl.seats.map((s) => {
-        if (!s.selectedForBatch || s.status === 'idle') return s;
-        const session = appendSessionRow(prevTbl, s, endTimeStr, nowSnap);
-        if (session) sessions.push(session);
-        return clearSeat(s);
-      });
-      return { ...prevTbl, seats, sessions };
-    });
+    const seatIds = selected.map((s) => s.id);
+    leaveSeats(
+      tbl.id,
+      seatIds,
+      (prevTbl) =>
+        seatIds.reduce((acc, id) => closeSeats(acc, [id], now, cashOuts.get(id) ?? null), prevTbl),
+      { action: 'batchLeave', memberIds: selected.map((s) => s.memberId) },
+    );
+  };
+
+  /** Seats a scanned card at the selected seat when it is empty, else at the first open seat. */
+  const handleScan = (code: string) => {
+    if (view !== 'tables' || !currentTable) return;
+    const selected = currentTable.seats.find((s) => s.id === selectedSeatId);
+    const held = getTournamentSeatIds(tournament, currentTable.id);
+    const target =
+      selected && selected.status === 'idle' && !held.includes(selected.id)
+        ? selected
+        : getCashOpenSeats(currentTable)[0];
+    if (!target) {
+      dialogs.alert(t.scanNoSeat(code));
+      return;
+    }
+    setSelectedSeatId(target.id);
+    handleSeatUp(target.id, code);
+  };
+
+  const handleShortcut = (key: string) => {
+    if (view !== 'tables' || !currentTable) return;
+    const seatIds = currentTable.seats.map((s) => s.id);
+    if (/^[1-9]$/.test(key)) {
+      if (seatIds.includes(Number(key))) setSelectedSeatId(Number(key));
+      return;
+    }
+    if (key === 'ArrowLeft' || key === 'ArrowRight') {
+      const idx = selectedSeatId == null ? -1 : seatIds.indexOf(selectedSeatId);
+      const step = key === 'ArrowRight' ? 1 : -1;
+      setSelectedSeatId(seatIds[(idx + step + seatIds.length) % seatIds.length]);
+      return;
+    }
+    if (key === 'Escape') {
+      setSelectedSeatId(null);
+      return;
+    }
+    if (selectedSeatId == null || !seatIds.includes(selectedSeatId)) return;
+    const action = SEAT_SHORTCUTS[key.toLowerCase()];
+    if (action === 'seat') handleSeatUp(selectedSeatId);
+    else if (action === 'rest') handleRest(selectedSeatId);
+    else if (action === 'leave') handleLeave(selectedSeatId);
+    else if (action === 'addBuyIn') handleAddBuyIn(selectedSeatId);
   };
 
+  useScannerInput(scannerMode && !dialogElement, { onScan: handleScan, onKey: handleShortcut });
+
   const tableElapsed = currentTable ? getTableElapsedSeconds(currentTable, nowMs) : 0;
+  const restLimitMinutes = currentTable ? getRestLimitMinutes(currentTable, settings) : 0;
+  const tableSummary = currentTable ? computeTableSummary(currentTable, nowMs) : null;
+  const conflictSeatsText = sync.conflicts
+    .map((c) => {
+      const name = tables.find((tbl) => tbl.id === c.tableId)?.name ?? `#${c.tableId}`;
+      return `${name} ${c.seatIds.map((id) => `S${id}`).join('/')}`;
+    })
+    .join(', ');
+
+  if (!currentStaff) {
+    return (
+      <div className="app-root">
+        <div className="app-shell">
+          <StaffLogin
+            t={t}
+            accounts={staffAccounts}
+            langToggleLabel={langToggleLabel}
+            onToggleLang={() => setLang((prev) => (prev === 'zh' ? 'en' : 'zh'))}
+            onLogin={handleLogin}
+            onCreateFirst={handleCreateFirstManager}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (closingReport) {
+    return (
+      <div className="app-root">
+        <ClosingReport
+          t={t}
+          tableName={closingReport.tableName}
+          summary={closingReport.summary}
+          columns={closingReport.columns}
+          rows={closingReport.rows}
+          printedAt={closingReport.printedAt}
+          staffName={staffName}
+          onClose={() => setClosingReport(null)}
+        />
+      </div>
+    );
+  }
 
   return (
     <div className="app-root">
@@ -825,10 +1835,73 @@ const App: React.FC = () => {
               <span className="app-title-badge">Poker Table Manager v5</span>
             </div>
             <div className="app-subtitle">
-              多桌中央牌桌時間 + 9 座位上桌計時，適用於現場牌桌經理玩家時數與買碼紀錄。本機儲存：每台裝置各自獨立紀錄。
+              多桌中央牌桌時間 + 各桌座位上桌計時，適用於現場牌桌經理玩家時數與買碼紀錄。資料存於本機，可於牌桌設定連線同步伺服器讓多台裝置共用。
             </div>
           </div>
           <div className="app-header-right">
+            <nav className="view-nav">
+              {(
+                [
+                  ['tables', t.navTables],
+                  ['overview', t.navOverview],
+                  ['tournament', t.navTournament],
+                  ['setup', t.navSetup, 'setup'],
+                  ['members', t.navMembers],
+                  ['history', t.navHistory],
+                  ['report', t.navReport],
+                  ['daily', t.navDaily],
+                  ['log', t.navLog],
+                  ['staff', t.navStaff, 'manageStaff'],
+                  ['settings', t.navSettings, 'setup'],
+                ] as [AppView, string, Permission?][]
+              )
+                .filter(
+                  ([, , permission]) => !permission || hasPermission(currentStaff, permission),
+                )
+                .map(([key, label]) => (
+                  <button
+                    key={key}
+                    type="button"
+                    className={'view-nav-btn ' + (view === key ? 'view-nav-btn-active' : '')}
+                    onClick={() => setView(key)}
+                  >
+                    {label}
+                  </button>
+                ))}
+            </nav>
+            {sync.status !== 'disabled' && (
+              <span className={'sync-pill sync-pill-' + sync.status}>
+                {t.syncStatusLabels[sync.status]}
+              </span>
+            )}
+            <div className="undo-group">
+              <button
+                type="button"
+                className="lang-toggle-btn"
+                disabled={undoSteps.length === 0}
+                title={
+                  undoSteps.length > 0
+                    ? t.auditActionLabels[undoSteps[undoSteps.length - 1].action]
+                    : undefined
+                }
+                onClick={handleUndo}
+              >
+                {t.undo}
+              </button>
+              <button
+                type="button"
+                className="lang-toggle-btn"
+                disabled={redoSteps.length === 0}
+                title={
+                  redoSteps.length > 0
+                    ? t.auditActionLabels[redoSteps[redoSteps.length - 1].action]
+                    : undefined
+                }
+                onClick={handleRedo}
+              >
+                {t.redo}
+              </button>
+            </div>
             <button
               type="button"
               className="lang-toggle-btn"
@@ -837,238 +1910,670 @@ const App: React.FC = () => {
               {langToggleLabel}
             </button>
             <div className="today-text">
-              {t.today}：{todayText}
+              {t.today}：{businessDate}
+            </div>
+            <div className="staff-badge">
+              <span>
+                {staffName} · {currentStaff && t.staffRoleLabels[currentStaff.role]}
+              </span>
+              <button type="button" className="lang-toggle-btn" onClick={handleLogout}>
+                {t.staffLogout}
+              </button>
             </div>
           </div>
         </header>
 
-        <main className="app-body">
-          <section className="left-panel">
-            <div className="left-top-row">
-              <div className="table-selector-group">
-                <span className="label-pill">{t.tableLabel}</span>
-                <select
-                  className="table-select"
-                  value={currentTableId}
-                  onChange={(e) => setCurrentTableId(Number(e.target.value))}
-                >
-                  {tables.map((tbl) => (
-                    <option key={tbl.id} value={tbl.id}>
-                      {tbl.name}
-                    </option>
-                  ))}
-                </select>
-
-                <div className="table-tabs">
-                  {tables.map((tbl) => (
-                    <button
-                      key={tbl.id}
-                      type="button"
-                      className={
-                        'table-tab ' + (tbl.id === currentTableId ? 'table-tab-active' : '')
-                      }
-                      onClick={() => setCurrentTableId(tbl.id)}
-                    >
-                      {tbl.name}
-                    </button>
-                  ))}
+        {autoLeaveNotice.length > 0 && (
+          <div className="sync-conflict-banner">
+            <span>{t.restAutoLeftNotice(autoLeaveNotice)}</span>
+            <button
+              type="button"
+              className="seat-btn btn-outline-xs"
+              onClick={() => setAutoLeaveNotice([])}
+            >
+              {t.syncDismiss}
+            </button>
+          </div>
+        )}
+
+        {storageNotice && (
+          <div className="sync-conflict-banner">
+            <span>
+              {storageNotice === 'backup'
+                ? t.storageRestoredFromBackup(formatDateTime(new Date(tablesLoad.savedAt)))
+                : storageNotice === 'full'
+                ? t.storageFull
+                : t.storageLost}
+            </span>
+            <button
+              type="button"
+              className="seat-btn btn-outline-xs"
+              onClick={() => setStorageNotice(null)}
+            >
+              {t.syncDismiss}
+            </button>
+          </div>
+        )}
+
+        {interruptedSeats.length > 0 && lastAliveMs != null && (
+          <RecoveryPanel
+            t={t}
+            seats={interruptedSeats}
+            lastAliveMs={lastAliveMs}
+            onConfirm={handleConfirmRecovery}
+          />
+        )}
+
+        {sync.conflicts.length > 0 && (
+          <div className="sync-conflict-banner">
+            <span>{t.syncConflictNotice(conflictSeatsText)}</span>
+            <button type="button" className="seat-btn btn-outline-xs" onClick={sync.clearConflicts}>
+              {t.syncDismiss}
+            </button>
+          </div>
+        )}
+
+        <datalist id="member-options">
+          {members.map((m) => (
+            <option key={m.id} value={m.id}>
+              {[m.name, m.tier].filter(Boolean).join(' · ')}
+            </option>
+          ))}
+        </datalist>
+
+        {view === 'setup' && (
+          <TableSetup
+            t={t}
+            tables={tables}
+            onAdd={handleAddTable}
+            onRename={handleRenameTable}
+            onResize={handleResizeTable}
+            onSetRetired={handleSetTableRetired}
+            onSetRestLimit={handleSetTableRestLimit}
+            onDelete={handleDeleteTable}
+            onMove={handleMoveTable}
+            syncUrl={syncUrl}
+            syncStatus={sync.status}
+            onSyncUrlChange={setSyncUrl}
+          />
+        )}
+
+        {view === 'members' && (
+          <MembersView
+            t={t}
+            members={members}
+            onSave={handleSaveMember}
+            onDelete={handleDeleteMember}
+            onImport={handleImportMembers}
+          />
+        )}
+
+        {view === 'history' && <HistoryView t={t} tables={tables} today={businessDate} />}
+
+        {view === 'overview' && (
+          <OverviewView
+            t={t}
+            tables={activeTables}
+            nowMs={nowMs}
+            settings={settings}
+            onSelect={(tableId) => {
+              setCurrentTableId(tableId);
+              setView('tables');
+            }}
+          />
+        )}
+
+        {view === 'overview' && (
+          <BalancePanel
+            t={t}
+            tables={tables}
+            moves={balanceMoves}
+            onMove={handleBalanceMove}
+            onMoveAll={handleBalanceMoveAll}
+          />
+        )}
+
+        {view === 'daily' && (
+          <DailyReportView
+            t={t}
+            tables={tables}
+            nowMs={nowMs}
+            businessDate={businessDate}
+            shiftStart={currentShift?.loginAt ?? ''}
+            cutoffMinutes={cutoffMinutes}
+            staffName={staffName}
+          />
+        )}
+
+        {view === 'report' && (
+          <MemberReportView t={t} tables={tables} members={members} today={businessDate} />
+        )}
+
+        {view === 'log' && <AuditLogView t={t} log={auditLog} tables={tables} />}
+
+        {view === 'settings' && (
+          <SettingsView
+            t={t}
+            settings={settings}
+            businessDate={businessDate}
+            onChange={setSettings}
+          />
+        )}
+
+        {view === 'settings' && (
+          <BackupPanel
+            t={t}
+            current={backupData}
+            loadArchive={() => queryArchive({})}
+            dialogs={dialogs}
+            canImport={hasPermission(currentStaff, 'importBackup')}
+            onExport={handleExportBackup}
+            onImport={handleImportBackup}
+          />
+        )}
+
+        {view === 'staff' && (
+          <StaffView
+            t={t}
+            dialogs={dialogs}
+            accounts={staffAccounts}
+            shifts={shifts}
+            currentStaffId={currentStaff.id}
+            businessDate={businessDate}
+            cutoffMinutes={cutoffMinutes}
+            nowMs={nowMs}
+            onChange={setStaffAccounts}
+          />
+        )}
+
+        {view === 'tournament' && (
+          <TournamentView
+            t={t}
+            dialogs={dialogs}
+            tables={tables}
+            tournament={tournament}
+            nowMs={nowMs}
+            onChange={setTournament}
+            onConfirmMembers={confirmMembersForSeating}
+          />
+        )}
+
+        {view === 'tables' && (
+          <main className="app-body">
+            <section className="left-panel">
+              <div className="left-top-row">
+                <div className="table-selector-group">
+                  <span className="label-pill">{t.tableLabel}</span>
+                  <select
+                    className="table-select"
+                    value={currentTable?.id}
+                    onChange={(e) => setCurrentTableId(Number(e.target.value))}
+                  >
+                    {activeTables.map((tbl) => (
+                      <option key={tbl.id} value={tbl.id}>
+                        {tbl.name}
+                      </option>
+                    ))}
+                  </select>
+
+                  <div className="table-tabs">
+                    {activeTables.map((tbl) => (
+                      <button
+                        key={tbl.id}
+                        type="button"
+                        className={
+                          'table-tab ' + (tbl.id === currentTable?.id ? 'table-tab-active' : '')
+                        }
+                        onClick={() => setCurrentTableId(tbl.id)}
+                      >
+                        {tbl.name}
+                      </button>
+                    ))}
+                  </div>
                 </div>
+                <label className="batch-checkbox" title={t.scannerHint}>
+                  <input
+                    type="checkbox"
+                    checked={scannerMode}
+                    onChange={(e) => {
+                      setScannerMode(e.target.checked);
+                      setSelectedSeatId(null);
+                    }}
+                  />
+                  {t.scannerMode}
+                </label>
               </div>
-            </div>
+              {scannerMode && <div className="panel-hint">{t.scannerHint}</div>}
+
+              <div className="table-clock-wrapper">
+                <div className="clock-title-row">
+                  <div className="clock-title">{currentTable?.name ?? 'Table 1'}</div>
+                  <div
+                    className={
+                      'clock-status-text ' + (currentTable?.isRunning ? '' : 'stopped')
+                    }
+                  >
+                    {currentTable?.isRunning ? t.running : t.stopped}
+                  </div>
+                </div>
+                <div className="clock-display">{formatHMS(tableElapsed)}</div>
+                <div className="clock-meta-row">
+                  <span>
+                    {t.openedAt}：{currentTable?.openedAt ?? '-'}
+                  </span>
+                  <span>
+                    {t.closedAt}：{currentTable?.closedAt ?? '-'}
+                  </span>
+                  <span>
+                    {t.currentTableTime}：{formatHMS(tableElapsed)}
+                  </span>
+                </div>
 
-            <div className="table-clock-wrapper">
-              <div className="clock-title-row">
-                <div className="clock-title">{currentTable?.name ?? 'Table 1'}</div>
-                <div
-                  className={
-                    'clock-status-text ' + (currentTable?.isRunning ? '' : 'stopped')
-                  }
-                >
-                  {currentTable?.isRunning ? t.running : t.stopped}
+                <div className="left-info-extra">
+                  <div className="info-row">
+                    <span className="info-label">{t.blinds}</span>
+                    {settings.stakes.length > 0 ? (
+                      <select
+                        className="setup-select"
+                        value={currentTable?.stakeId ?? ''}
+                        onChange={(e) => handleStakeChange(e.target.value)}
+                      >
+                        {!currentTable?.stakeId && (
+                          <option value="">{currentTable?.blinds || t.blindsPlaceholder}</option>
+                        )}
+                        {settings.stakes.map((level) => (
+                          <option key={level.id} value={level.id}>
+                            {formatStakeLabel(level)}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        className="info-input"
+                        value={currentTable?.blinds ?? ''}
+                        placeholder={t.blindsPlaceholder}
+                        onChange={(e) => handleBlindsChange(e.target.value)}
+                        onFocus={handleBlindsFocus}
+                        onBlur={handleBlindsBlur}
+                      />
+                    )}
+                  </div>
+                  {currentTable && currentTable.blindsHistory.length > 1 && (
+                    <div className="info-row blinds-history">
+                      <span className="info-label">{t.blindsHistory}</span>
+                      <span>
+                        {currentTable.blindsHistory
+                          .map((change) => `${change.time.slice(11, 16)} ${change.blinds}`)
+                          .join(' → ')}
+                      </span>
+                    </div>
+                  )}
+                  <div className="info-row">
+                    <span className="info-label">{t.staffOnDuty}</span>
+                    <span>{staffName}</span>
+                  </div>
+                  <div className="info-row">
+                    <span className="info-label">{t.paymentMethod}</span>
+                    <select
+                      className="info-input"
+                      value={paymentMethod}
+                      onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                    >
+                      {PAYMENT_METHODS.map((m) => (
+                        <option key={m} value={m}>
+                          {t.methodLabels[m]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
-              </div>
-              <div className="clock-display">{formatHMS(tableElapsed)}</div>
-              <div className="clock-meta-row">
-                <span>
-                  {t.openedAt}：{currentTable?.openedAt ?? '-'}
-                </span>
-                <span>
-                  {t.closedAt}：{currentTable?.closedAt ?? '-'}
-                </span>
-                <span>
-                  {t.currentTableTime}：{formatHMS(tableElapsed)}
-                </span>
-              </div>
 
-              <div className="left-info-extra">
-                <div className="info-row">
-                  <span className="info-label">{t.blinds}</span>
-                  <input
-                    className="info-input"
-                    value={currentTable?.blinds ?? ''}
-                    placeholder={t.blindsPlaceholder}
-                    onChange={(e) => handleBlindsChange(e.target.value)}
-                  />
+                {tableSummary && (
+                  <div className="left-info-extra">
+                    <div className="info-row">
+                      <span className="info-label">{t.summaryTitle}</span>
+                    </div>
+                    <div className="info-row">
+                      <span className="info-label">{t.csvSummaryTotalBuyIn}</span>
+                      <span>{tableSummary.totalBuyIn}</span>
+                    </div>
+                    <div className="info-row">
+                      <span className="info-label">{t.csvSummaryTotalCashOut}</span>
+                      <span>{tableSummary.totalCashOut}</span>
+                    </div>
+                    <div className="info-row">
+                      <span className="info-label">{t.csvSummaryNet}</span>
+                      <span>{tableSummary.totalNet}</span>
+                    </div>
+                    <div className="info-row">
+                      <span className="info-label">{t.csvSummaryTimeCharge}</span>
+                      <span>{tableSummary.totalTimeCharge}</span>
+                    </div>
+                    <div className="info-row">
+                      <span className="info-label">{t.csvSummaryBalance}</span>
+                      <span
+                        className={
+                          tableSummary.chipBalance === 0 ? 'balance-ok' : 'balance-mismatch'
+                        }
+                      >
+                        {tableSummary.chipBalance}（
+                        {tableSummary.chipBalance === 0 ? t.balanceOk : t.balanceMismatch}）
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                <div className="clock-actions">
+                  <button
+                    type="button"
+                    className="btn-pill btn-green"
+                    onClick={handleStartOrResume}
+                  >
+                    {t.startOrResume}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-pill btn-yellow"
+                    onClick={handlePause}
+                  >
+                    {t.pause}
+                  </button>
+                  <button type="button" className="btn-pill btn-red" onClick={handleStop}>
+                    {t.stop}
+                  </button>
                 </div>
-              </div>
 
-              <div className="clock-actions">
-                <button
-                  type="button"
-                  className="btn-pill btn-green"
-                  onClick={handleStartOrResume}
-                >
-                  {t.startOrResume}
-                </button>
-                <button
-                  type="button"
-                  className="btn-pill btn-yellow"
-                  onClick={handlePause}
-                >
-                  {t.pause}
-                </button>
-                <button type="button" className="btn-pill btn-red" onClick={handleStop}>
-                  {t.stop}
-                </button>
+                <div className="csv-reset-row">
+                  <button
+                    type="button"
+                    className="btn-pill btn-outline"
+                    onClick={handleExportCsv}
+                  >
+                    {t.exportCsv}
+                  </button>
+                  <button type="button" className="btn-pill btn-outline" onClick={handleExportXlsx}>
+                    {t.exportXlsx}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-pill btn-outline"
+                    onClick={handleOpenClosingReport}
+                  >
+                    {t.closingReport}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-pill btn-outline"
+                    onClick={handleResetTable}
+                  >
+                    {t.resetTable}
+                  </button>
+                </div>
               </div>
 
-              <div className="csv-reset-row">
-                <button
-                  type="button"
-                  className="btn-pill btn-outline"
-                  onClick={handleExportCsv}
-                >
-                  {t.exportCsv}
-                </button>
-                <button
-                  type="button"
-                  className="btn-pill btn-outline"
-                  onClick={handleResetTable}
-                >
-                  {t.resetTable}
-                </button>
-              </div>
-            </div>
-          </section>
-
-          <section className="right-panel">
-            <div className="seat-grid">
-              {currentTable?.seats.map((seat) => {
-                const activeSeconds = getSeatActiveSeconds(seat, nowMs);
-                const restSeconds = getSeatRestSeconds(seat, nowMs);
-                const statusLabel =
-                  seat.status === 'idle'
-                    ? t.statusIdle
-                    : seat.status === 'seated'
-                    ? t.statusSeated
-                    : t.statusRest;
-                const statusClass =
-                  seat.status === 'idle'
-                    ? 'status-idle'
-                    : seat.status === 'seated'
-                    ? 'status-seated'
-                    : 'status-rest';
-
-                return (
-                  <div key={seat.id} className="seat-card">
-                    <div className="seat-header">
-                      <div>
-                        <span className="seat-id">
-                          {t.seat} {seat.id}
-                        </span>
-                      </div>
-                      <div className={`seat-status-tag ${statusClass}`}>{statusLabel}</div>
-                    </div>
-                    <div className="seat-timer">{formatHMS(activeSeconds)}</div>
-                    <div className="seat-meta">
-                      <div>
-                        <div className="meta-label">{t.todayTotal}</div>
-                        <div className="meta-value">{formatHMS(activeSeconds)}</div>
-                      </div>
-                      <div>
-                        <div className="meta-label">{t.restSeconds}</div>
-                        <div className="meta-value">{restSeconds}</div>
-                      </div>
-                      <div>
-                        <div className="meta-label">{t.buyIn}</div>
-                        <div className="meta-value">{seat.buyInAmount}</div>
+              {currentTable && (
+                <WaitlistPanel
+                  t={t}
+                  table={currentTable}
+                  entries={getWaitlistForTable(waitlist, currentTable)}
+                  nowMs={nowMs}
+                  onAdd={handleAddToWaitlist}
+                  onMove={handleMoveWaitlistEntry}
+                  onRemove={handleRemoveWaitlistEntry}
+                  onSeat={handleSeatFromWaitlist}
+                />
+              )}
+            </section>
+
+            <section className="right-panel">
+              <div className="seat-grid">
+                {currentTable?.seats.map((seat) => {
+                  const restAlert = getRestAlert(seat, restLimitMinutes, settings, nowMs);
+                  const activeSeconds = getSeatActiveSeconds(seat, nowMs);
+                  const restSeconds = getSeatRestSeconds(seat, nowMs);
+                  const seatMember = findMember(members, seat.memberId);
+                  const statusLabel =
+                    seat.status === 'idle'
+                      ? t.statusIdle
+                      : seat.status === 'seated'
+                      ? t.statusSeated
+                      : t.statusRest;
+                  const statusClass =
+                    seat.status === 'idle'
+                      ? 'status-idle'
+                      : seat.status === 'seated'
+                      ? 'status-seated'
+                      : 'status-rest';
+
+                  return (
+                    <div
+                      key={seat.id}
+                      className={
+                        'seat-card ' +
+                        (restAlert ? `seat-card-rest-${restAlert} ` : '') +
+                        (scannerMode && selectedSeatId === seat.id ? 'seat-card-selected' : '')
+                      }
+                      onClick={() => setSelectedSeatId(seat.id)}
+                    >
+                      <div className="seat-header">
+                        <div>
+                          <span className="seat-id">
+                            {t.seat} {seat.id}
+                          </span>
+                        </div>
+                        <div className={`seat-status-tag ${statusClass}`}>{statusLabel}</div>
                       </div>
-                      <div>
-                        <div className="meta-label">{t.memberId}</div>
-                        <div className="meta-value">{seat.memberId || '-'}</div>
+                      <div className="seat-timer">{formatHMS(activeSeconds)}</div>
+                      {restAlert && (
+                        <div className="seat-rest-alert">
+                          {restAlert === 'near'
+                            ? t.restNear(formatHMS(getBreakSeconds(seat, nowMs)), restLimitMinutes)
+                            : t.restOver(formatHMS(getBreakSeconds(seat, nowMs)), restLimitMinutes)}
+                        </div>
+                      )}
+                      <div className="seat-meta">
+                        <div>
+                          <div className="meta-label">{t.todayTotal}</div>
+                          <div className="meta-value">{formatHMS(activeSeconds)}</div>
+                        </div>
+                        <div>
+                          <div className="meta-label">{t.restSeconds}</div>
+                          <div className="meta-value">{restSeconds}</div>
+                        </div>
+                        <div>
+                          <div className="meta-label">{t.buyIn}</div>
+                          <div className="meta-value">{seat.buyInAmount}</div>
+                        </div>
+                        <div>
+                          <div className="meta-label">{t.memberId}</div>
+                          <div className="meta-value">{seat.memberId || '-'}</div>
+                        </div>
+                        <div>
+                          <div className="meta-label">{t.timeCharge}</div>
+                          <div className="meta-value">
+                            {seat.status === 'idle' || !currentTable
+                              ? '-'
+                              : getSeatTimeCharge(currentTable, seat, nowMs)}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                    <div className="seat-actions-row">
-                      <div className="seat-actions">
+                      <div className="seat-actions-row">
+                        <div className="seat-actions">
+                          <button
+                            type="button"
+                            className="seat-btn btn-xs-green"
+                            onClick={() => handleSeatUp(seat.id)}
+                          >
+                            {t.btnSeat}
+                          </button>
+                          <button
+                            type="button"
+                            className="seat-btn btn-xs-yellow"
+                            onClick={() => handleRest(seat.id)}
+                          >
+                            {t.btnRest}
+                          </button>
+                          <button
+                            type="button"
+                            className="seat-btn btn-xs-red"
+                            onClick={() => handleLeave(seat.id)}
+                          >
+                            {t.btnLeave}
+                          </button>
+                        </div>
                         <button
                           type="button"
-                          className="seat-btn btn-xs-green"
-                          onClick={() => handleSeatUp(seat.id)}
+                          className="seat-btn btn-xs-yellow"
+                          onClick={() => handleAddBuyIn(seat.id)}
                         >
-                          {t.btnSeat}
+                          {t.btnAddBuyIn}
                         </button>
+                      </div>
+                      <button
+                        type="button"
+                        className="ledger-toggle"
+                        onClick={() =>
+                          setLedgerSeatId((prev) => (prev === seat.id ? null : seat.id))
+                        }
+                      >
+                        {t.btnLedger}（{seat.buyIns.filter((e) => !e.voided).length}）
+                      </button>
+                      {seat.status !== 'idle' && (
                         <button
                           type="button"
-                          className="seat-btn btn-xs-yellow"
-                          onClick={() => handleRest(seat.id)}
+                          className="ledger-toggle"
+                          onClick={() =>
+                            setMoveSeatId((prev) => (prev === seat.id ? null : seat.id))
+                          }
                         >
-                          {t.btnRest}
+                          {t.btnMoveTable}
                         </button>
+                      )}
+                      {seat.status !== 'idle' && (
                         <button
                           type="button"
-                          className="seat-btn btn-xs-red"
-                          onClick={() => handleLeave(seat.id)}
+                          className="ledger-toggle"
+                          onClick={() =>
+                            setSwapSeatId((prev) => (prev === seat.id ? null : seat.id))
+                          }
                         >
-                          {t.btnLeave}
+                          {t.btnSwapSeat}
                         </button>
-                      </div>
-                      <button
-                        type="button"
-                        className="seat-btn btn-xs-yellow"
-                        onClick={() => handleAddBuyIn(seat.id)}
-                      >
-                        {t.btnAddBuyIn}
-                      </button>
-                    </div>
-                    <div className="seat-extra-row">
-                      <input
-                        className="member-input"
-                        placeholder={t.memberId}
-                        value={seat.memberId}
-                        onChange={(e) => handleMemberChange(seat.id, e.target.value)}
-                      />
-                      <label className="batch-checkbox">
+                      )}
+                      {swapSeatId === seat.id && currentTable && (
+                        <SwapSeatPanel
+                          t={t}
+                          table={currentTable}
+                          seatId={seat.id}
+                          onConfirm={(otherSeatId) => handleSwapSeats(seat.id, otherSeatId)}
+                          onCancel={() => setSwapSeatId(null)}
+                        />
+                      )}
+                      {moveSeatId === seat.id && currentTable && (
+                        <MoveSeatPanel
+                          t={t}
+                          tables={tables}
+                          tournament={tournament}
+                          fromTableId={currentTable.id}
+                          onConfirm={(toTableId, toSeatId) =>
+                            handleMoveToTable(seat.id, toTableId, toSeatId)
+                          }
+                          onCancel={() => setMoveSeatId(null)}
+                        />
+                      )}
+                      {ledgerSeatId === seat.id && (
+                        <div className="ledger-list">
+                          {seat.buyIns.length === 0 && (
+                            <div className="ledger-empty">{t.ledgerEmpty}</div>
+                          )}
+                          {seat.buyIns.map((entry) => (
+                            <div
+                              key={entry.id}
+                              className={'ledger-row ' + (entry.voided ? 'ledger-row-voided' : '')}
+                            >
+                              <span>{entry.time.slice(11)}</span>
+                              <span>{entry.amount}</span>
+                              <span>{t.methodLabels[entry.method]}</span>
+                              <span>{entry.staff || '-'}</span>
+                              {entry.voided ? (
+                                <span className="ledger-voided-tag">{t.voidedTag}</span>
+                              ) : (
+                                <button
+                                  type="button"
+                                  className="seat-btn btn-outline-xs"
+                                  onClick={() => handleVoidBuyIn(seat.id, entry.id)}
+                                >
+                                  {t.btnVoid}
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <div className="seat-extra-row">
                         <input
-                          type="checkbox"
-                          checked={seat.selectedForBatch}
-                          onChange={() => handleToggleBatchSeat(seat.id)}
+                          className="member-input"
+                          list="member-options"
+                          placeholder={t.memberId}
+                          value={seat.memberId}
+                          // Occupied seats stay read-only so a card scanned while this box has
+                          // focus cannot land in the seated player's ID.
+                          readOnly={seat.status !== 'idle'}
+                          data-scan-target="seat"
+                          onFocus={() => setSelectedSeatId(seat.id)}
+                          onChange={(e) => handleMemberChange(seat.id, e.target.value)}
                         />
-                        {t.batchLabel}
-                      </label>
+                        <label className="batch-checkbox">
+                          <input
+                            type="checkbox"
+                            checked={seat.selectedForBatch}
+                            onChange={() => handleToggleBatchSeat(seat.id)}
+                          />
+                          {t.batchLabel}
+                        </label>
+                      </div>
+                      {seatMember && (
+                        <div
+                          className={'member-hint ' + (seatMember.banned ? 'member-banned' : '')}
+                        >
+                          {[seatMember.name, seatMember.tier].filter(Boolean).join(' · ')}
+                          {seatMember.banned && ` · ${t.memberBanned}`}
+                        </div>
+                      )}
                     </div>
-                  </div>
-                );
-              })}
-            </div>
-            <div className="app-footer-batch">
-              <button
-                type="button"
-                className="seat-btn btn-xs-green"
-                onClick={handleBatchSeat}
-              >
-                {t.btnBatchSeat}
-              </button>
-              <button
-                type="button"
-                className="seat-btn btn-xs-red"
-                onClick={handleBatchLeave}
-              >
-                {t.btnBatchLeave}
-              </button>
-            </div>
-          </section>
-        </main>
+                  );
+                })}
+              </div>
+              <div className="app-footer-batch">
+                <button
+                  type="button"
+                  className="seat-btn btn-xs-green"
+                  onClick={handleBatchSeat}
+                >
+                  {t.btnBatchSeat}
+                </button>
+                <button
+                  type="button"
+                  className="seat-btn btn-xs-red"
+                  onClick={handleBatchLeave}
+                >
+                  {t.btnBatchLeave}
+                </button>
+              </div>
+              {currentTable && (
+                <SessionsPanel
+                  t={t}
+                  dialogs={dialogs}
+                  table={currentTable}
+                  canEdit={hasPermission(currentStaff, 'editSessions')}
+                  onCorrect={handleCorrectSession}
+                />
+              )}
+            </section>
+          </main>
+        )}
       </div>
+      {dialogElement}
     </div>
   );
 };
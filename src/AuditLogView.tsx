@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import type { AuditEntry, AuditValue } from './audit';
+import type { Texts } from './texts';
+import type { TableState } from './types';
+
+interface AuditLogViewProps {
+  t: Texts;
+  log: AuditEntry[];
+  tables: TableState[];
+}
+
+const MAX_ROWS = 300;
+
+function formatValue(value: AuditValue): string {
+  if (value === null || value === '') return '-';
+  return String(value);
+}
+
+const AuditLogView: React.FC<AuditLogViewProps> = ({ t, log, tables }) => {
+  const [tableFilter, setTableFilter] = useState<number | 'all'>('all');
+  const [seatFilter, setSeatFilter] = useState('');
+  const [memberFilter, setMemberFilter] = useState('');
+
+  const filtered = useMemo(() => {
+    const seatId = Number(seatFilter);
+    const member = memberFilter.trim().toLowerCase();
+    return log
+      .filter((entry) => tableFilter === 'all' || entry.tableIds.includes(tableFilter))
+      .filter((entry) => !seatFilter.trim() || entry.seatIds.includes(seatId))
+      .filter((entry) => !member || entry.memberIds.some((id) => id.toLowerCase().includes(member)))
+      .reverse();
+  }, [log, tableFilter, seatFilter, memberFilter]);
+
+  const tableName = (id: number) => tables.find((tbl) => tbl.id === id)?.name ?? `#${id}`;
+  const shown = filtered.slice(0, MAX_ROWS);
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.auditTitle}</div>
+        <div className="panel-hint">{t.auditShowing(shown.length, filtered.length)}</div>
+      </div>
+      <div className="panel-hint">{t.auditHint}</div>
+
+      <div className="filter-row">
+        <label className="inline-field">
+          <span className="info-label">{t.auditFilterTable}</span>
+          <select
+            className="setup-select"
+            value={tableFilter}
+            onChange={(e) =>
+              setTableFilter(e.target.value === 'all' ? 'all' : Number(e.target.value))
+            }
+          >
+            <option value="all">{t.auditAll}</option>
+            {tables.map((tbl) => (
+              <option key={tbl.id} value={tbl.id}>
+                {tbl.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.auditFilterSeat}</span>
+          <input
+            className="info-input filter-input-short"
+            inputMode="numeric"
+            value={seatFilter}
+            onChange={(e) => setSeatFilter(e.target.value)}
+          />
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.auditFilterMember}</span>
+          <input
+            className="info-input"
+            value={memberFilter}
+            onChange={(e) => setMemberFilter(e.target.value)}
+          />
+        </label>
+      </div>
+
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.auditTime}</th>
+            <th>{t.auditAction}</th>
+            <th>{t.auditFilterTable}</th>
+            <th>{t.auditFilterSeat}</th>
+            <th>{t.auditFilterMember}</th>
+            <th>{t.auditStaff}</th>
+            <th>{t.auditChanges}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.length === 0 && (
+            <tr>
+              <td colSpan={7}>{t.auditEmpty}</td>
+            </tr>
+          )}
+          {shown.map((entry) => (
+            <tr key={entry.id}>
+              <td>{entry.time}</td>
+              <td>
+                {t.auditActionLabels[entry.action]}
+                {entry.note && entry.action !== 'undo' && entry.action !== 'redo' && (
+                  <div className="cell-sub">{entry.note}</div>
+                )}
+              </td>
+              <td>{entry.tableIds.map(tableName).join(', ') || '-'}</td>
+              <td>{entry.seatIds.join(', ') || '-'}</td>
+              <td>{entry.memberIds.join(', ') || '-'}</td>
+              <td>{entry.staff || '-'}</td>
+              <td>
+                <div className="change-list">
+                  {Object.keys(entry.after).map((key) => (
+                    <div key={key}>
+                      <span className="cell-sub">{key}</span> {formatValue(entry.before[key])} →{' '}
+                      {formatValue(entry.after[key])}
+                    </div>
+                  ))}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default AuditLogView;
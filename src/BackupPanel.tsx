@@ -0,0 +1,179 @@
+import React, { useMemo, useState } from 'react';
+import type { ArchivedSession } from './archive';
+import {
+  mergeBackup,
+  parseBackup,
+  previewBackup,
+  type BackupData,
+  type BackupFile,
+  type BackupMode,
+} from './backup';
+import type { Dialogs } from './dialogs';
+import type { Texts } from './texts';
+import { formatDateTime } from './time';
+
+interface BackupPanelProps {
+  t: Texts;
+  dialogs: Dialogs;
+  current: BackupData;
+  /** The session archive is read only when a file is picked, since it can be large. */
+  loadArchive: () => Promise<ArchivedSession[]>;
+  canImport: boolean;
+  onExport: () => void;
+  onImport: (data: BackupData, mode: BackupMode) => void;
+}
+
+const BackupPanel: React.FC<BackupPanelProps> = ({
+  t,
+  dialogs,
+  current,
+  loadArchive,
+  canImport,
+  onExport,
+  onImport,
+}) => {
+  const [file, setFile] = useState<BackupFile | null>(null);
+  const [mode, setMode] = useState<BackupMode>('merge');
+  const [archive, setArchive] = useState<ArchivedSession[] | undefined>(undefined);
+
+  const currentWithArchive = useMemo(() => ({ ...current, archive }), [current, archive]);
+  const preview = useMemo(
+    () => file && previewBackup(currentWithArchive, file.data, mode),
+    [currentWithArchive, file, mode],
+  );
+
+  const handleFile = async (picked: File | undefined) => {
+    if (!picked) return;
+    const result = parseBackup(await picked.text());
+    if (typeof result === 'string') {
+      dialogs.alert(t.backupProblems[result]);
+      return;
+    }
+    setArchive(await loadArchive().catch(() => undefined));
+    setFile(result);
+    setMode('merge');
+  };
+
+  const handleApply = async () => {
+    if (!file) return;
+    if (mode === 'replace' && !(await dialogs.confirm(t.backupReplaceConfirm))) return;
+    onImport(mode === 'merge' ? mergeBackup(currentWithArchive, file.data) : file.data, mode);
+    setFile(null);
+  };
+
+  const countCell = ([before, after]: [number, number]) =>
+    before === after ? String(after) : `${before} → ${after}`;
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.backupTitle}</div>
+        <button type="button" className="btn-pill btn-green" onClick={onExport}>
+          {t.backupExport}
+        </button>
+      </div>
+      <div className="panel-hint">{t.backupHint}</div>
+
+      {canImport && (
+        <label className="inline-field">
+          <span className="info-label">{t.backupImport}</span>
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="file-input"
+            onChange={(e) => {
+              void handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      )}
+
+      {file && preview && (
+        <div className="settings-group">
+          <div className="panel-hint">
+            {t.backupFileInfo(formatDateTime(new Date(file.exportedAt)), file.data.tables.length)}
+          </div>
+          <div className="row-actions">
+            {(['merge', 'replace'] as BackupMode[]).map((value) => (
+              <label key={value} className="inline-field">
+                <input type="radio" checked={mode === value} onChange={() => setMode(value)} />
+                <span>{t.backupModes[value]}</span>
+              </label>
+            ))}
+          </div>
+          <div className="panel-hint">{t.backupModeHints[mode]}</div>
+
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>{t.csvHeaderTable}</th>
+                <th>{t.backupChange}</th>
+                <th>{t.backupSeated}</th>
+                <th>{t.backupSessions}</th>
+                <th>{t.backupConflicts}</th>
+                <th>{t.backupSkipped}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.tables.map((row) => (
+                <tr key={row.id}>
+                  <td>{row.name}</td>
+                  <td>{t.backupTableStatus[row.status]}</td>
+                  <td>{countCell([row.seatedBefore, row.seatedAfter])}</td>
+                  <td>{countCell([row.sessionsBefore, row.sessionsAfter])}</td>
+                  <td>{row.conflicts.length > 0 ? t.backupSeatList(row.conflicts) : '-'}</td>
+                  <td>{row.skipped.length > 0 ? t.backupSeatList(row.skipped) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <table className="data-table">
+            <tbody>
+              <tr>
+                <td>{t.navMembers}</td>
+                <td>{countCell(preview.members)}</td>
+              </tr>
+              <tr>
+                <td>{t.backupWaitlist}</td>
+                <td>{countCell(preview.waitlist)}</td>
+              </tr>
+              <tr>
+                <td>{t.navStaff}</td>
+                <td>{countCell(preview.staff)}</td>
+              </tr>
+              <tr>
+                <td>{t.backupShifts}</td>
+                <td>{countCell(preview.shifts)}</td>
+              </tr>
+              <tr>
+                <td>{t.navHistory}</td>
+                <td>{preview.archive ? countCell(preview.archive) : t.backupNotInFile}</td>
+              </tr>
+              <tr>
+                <td>{t.navLog}</td>
+                <td>{preview.audit ? countCell(preview.audit) : t.backupNotInFile}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="panel-footer-row">
+            <button type="button" className="seat-btn btn-outline-xs" onClick={() => setFile(null)}>
+              {t.sessionCancel}
+            </button>
+            <button
+              type="button"
+              className={mode === 'replace' ? 'btn-pill btn-red' : 'btn-pill btn-green'}
+              onClick={handleApply}
+            >
+              {t.backupApply}
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { BalanceMove } from './balance';
+import type { Texts } from './texts';
+import type { TableState } from './types';
+
+interface BalancePanelProps {
+  t: Texts;
+  tables: TableState[];
+  moves: BalanceMove[];
+  onMove: (move: BalanceMove) => void;
+  onMoveAll: () => void;
+}
+
+/** Suggested moves for short-handed cash tables; each one is carried out as a table move. */
+const BalancePanel: React.FC<BalancePanelProps> = ({ t, tables, moves, onMove, onMoveAll }) => {
+  const tableName = (id: number) => tables.find((tbl) => tbl.id === id)?.name ?? `#${id}`;
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.balanceTitle}</div>
+        {moves.length > 1 && (
+          <button type="button" className="btn-pill btn-green" onClick={onMoveAll}>
+            {t.balanceMoveAll}
+          </button>
+        )}
+      </div>
+      <div className="panel-hint">{t.balanceHint}</div>
+      {moves.length === 0 ? (
+        <div className="panel-hint">{t.balanceNone}</div>
+      ) : (
+        <ul className="change-list balance-list">
+          {moves.map((move) => (
+            <li key={`${move.fromTableId}-${move.fromSeatId}`}>
+              {t.balanceSuggestion(
+                move.memberId,
+                `${tableName(move.fromTableId)} #${move.fromSeatId}`,
+                `${tableName(move.toTableId)} #${move.toSeatId}`,
+              )}
+              <button type="button" className="seat-btn btn-xs-green" onClick={() => onMove(move)}>
+                {t.balanceMove}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default BalancePanel;
@@ -0,0 +1,93 @@
+import React from 'react';
+import type { Texts } from './texts';
+import { cellText, type XlsxCell } from './xlsx';
+
+interface ClosingReportProps {
+  t: Texts;
+  tableName: string;
+  summary: XlsxCell[][];
+  columns: string[];
+  rows: XlsxCell[][];
+  printedAt: string;
+  staffName: string;
+  onClose: () => void;
+}
+
+/** Columns of the session export that fit on a printed page. */
+const PRINT_COLUMNS = [2, 3, 4, 5, 8, 9, 10, 11, 14];
+
+/**
+ * A closing report laid out for paper, with lines for sign-off. Printing it through the
+ * browser's print dialog also saves it as a PDF without any extra software.
+ */
+const ClosingReport: React.FC<ClosingReportProps> = ({
+  t,
+  tableName,
+  summary,
+  columns,
+  rows,
+  printedAt,
+  staffName,
+  onClose,
+}) => (
+  <div className="print-sheet">
+    <div className="panel-footer-row no-print">
+      <button type="button" className="btn-pill btn-outline" onClick={onClose}>
+        {t.sessionCancel}
+      </button>
+      <button type="button" className="btn-pill btn-green" onClick={() => window.print()}>
+        {t.closingReportPrint}
+      </button>
+    </div>
+    <h1 className="print-sheet-title">{t.closingReportTitle(tableName)}</h1>
+    <div className="panel-hint">{t.closingReportPrinted(printedAt, staffName)}</div>
+
+    <table className="data-table">
+      <tbody>
+        {summary.map(([label, ...values], idx) => (
+          <tr key={idx}>
+            <th>{cellText(label)}</th>
+            <td>{values.map(cellText).join('  ')}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <table className="data-table">
+      <thead>
+        <tr>
+          {PRINT_COLUMNS.map((col) => (
+            <th key={col}>{columns[col]}</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rows.length === 0 && (
+          <tr>
+            <td colSpan={PRINT_COLUMNS.length}>{t.auditEmpty}</td>
+          </tr>
+        )}
+        {rows.map((row, idx) => (
+          <tr key={idx}>
+            {PRINT_COLUMNS.map((col) => (
+              <td key={col}>{cellText(row[col])}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <div className="print-signatures">
+      {t.closingReportSigners.map((role) => (
+        <div key={role} className="print-signature">
+          <span>{role}</span>
+          <span className="print-signature-line" />
+          <span>{t.closingReportSignDate}</span>
+          <span className="print-signature-line" />
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default ClosingReport;
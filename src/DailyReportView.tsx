@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { queryArchive, type ArchivedSession } from './archive';
+import { downloadCsv } from './csv';
+import { buildDailyReport, type TableDayTotals } from './dailyReport';
+import { formatHours } from './memberStats';
+import type { Texts } from './texts';
+import { formatBusinessDate, formatDateTime, parseDateTime } from './time';
+import type { SessionRow, TableState } from './types';
+
+type ReportScope = 'day' | 'shift';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DailyReportViewProps {
+  t: Texts;
+  tables: TableState[];
+  nowMs: number;
+  /** Current gaming day; the day report covers session rows dated to it. */
+  businessDate: string;
+  /** Login time of the current shift, used for the shift report. */
+  shiftStart: string;
+  /** Minutes after midnight when the gaming day rolls over. */
+  cutoffMinutes: number;
+  staffName: string;
+}
+
+const DailyReportView: React.FC<DailyReportViewProps> = ({
+  t,
+  tables,
+  nowMs,
+  businessDate,
+  shiftStart,
+  cutoffMinutes,
+  staffName,
+}) => {
+  const [scope, setScope] = useState<ReportScope>('day');
+  const [archived, setArchived] = useState<ArchivedSession[]>([]);
+  const [error, setError] = useState(false);
+
+  const shiftStartMs = parseDateTime(shiftStart)?.getTime() ?? 0;
+  // Sessions are booked under the day they began, so a shift reaches back one gaming day.
+  const fromDate =
+    scope === 'day'
+      ? businessDate
+      : formatBusinessDate(new Date(shiftStartMs - DAY_MS), cutoffMinutes);
+  const sessionCount = tables.reduce((sum, tbl) => sum + tbl.sessions.length, 0);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryArchive({ fromDate, toDate: businessDate })
+      .then((result) => {
+        if (cancelled) return;
+        setArchived(result);
+        setError(false);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fromDate, businessDate, sessionCount]);
+
+  const report = useMemo(() => {
+    // Rows still on the tables win: they may not have reached the archive yet.
+    const rows = new Map<string, SessionRow>(archived.map((row) => [row.id, row]));
+    for (const row of tables.flatMap((tbl) => tbl.sessions)) rows.set(row.id, row);
+    const inScope = (row: SessionRow) =>
+      scope === 'day'
+        ? row.date === businessDate
+        : (parseDateTime(row.endTime)?.getTime() ?? 0) >= shiftStartMs;
+    return buildDailyReport(tables, Array.from(rows.values()).filter(inScope), nowMs);
+  }, [archived, tables, scope, businessDate, shiftStartMs, nowMs]);
+
+  const period =
+    scope === 'day' ? businessDate : `${shiftStart} ~ ${formatDateTime(new Date(nowMs))}`;
+
+  const totalsCells = (row: Omit<TableDayTotals, 'tableId' | 'tableName'>) => [
+    formatHours(row.openSeconds),
+    row.sessions.toString(),
+    row.seatedNow.toString(),
+    row.members.toString(),
+    row.buyIn.toString(),
+  ];
+
+  const handleExport = () => {
+    const lines = [
+      [t.dailyScopes[scope], period],
+      [t.dailyPreparedBy, staffName],
+      [t.dailyPeak, report.peakSeated.toString(), report.peakAt ?? ''],
+      [],
+      [
+        t.csvHeaderTable,
+        t.dailyOpenHours,
+        t.reportSessions,
+        t.dailySeatedNow,
+        t.dailyMembers,
+        t.csvHeaderBuyIn,
+      ],
+      ...report.tables.map((row) => [row.tableName, ...totalsCells(row)]),
+      [t.dailyTotal, ...totalsCells(report.totals)],
+      [],
+      [t.dailyMultiTable],
+      [t.csvHeaderMember, t.reportTables],
+      ...report.multiTable.map((m) => [m.memberId, m.tables.join(' / ')]),
+    ];
+    const stamp = scope === 'day' ? businessDate : formatDateTime(new Date(nowMs));
+    downloadCsv(lines, `PokerDailyReport_${stamp.replace(/\D/g, '')}.csv`);
+  };
+
+  return (
+    <section className="setup-panel report-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.dailyTitle}</div>
+        <div className="panel-hint">
+          {t.dailyScopes[scope]}：{period}
+        </div>
+      </div>
+      <div className="panel-hint">
+        {t.dailyPreparedBy}：{staffName}
+      </div>
+      {error && <div className="panel-hint balance-mismatch">{t.historyUnavailable}</div>}
+
+      <div className="filter-row no-print">
+        {(['day', 'shift'] as ReportScope[]).map((value) => (
+          <label key={value} className="inline-field">
+            <input type="radio" checked={scope === value} onChange={() => setScope(value)} />
+            <span>{t.dailyScopes[value]}</span>
+          </label>
+        ))}
+        <button type="button" className="btn-pill btn-green" onClick={handleExport}>
+          {t.historyExport}
+        </button>
+        <button type="button" className="lang-toggle-btn" onClick={() => window.print()}>
+          {t.reportPrint}
+        </button>
+      </div>
+
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.csvHeaderTable}</th>
+            <th>{t.dailyOpenHours}</th>
+            <th>{t.reportSessions}</th>
+            <th>{t.dailySeatedNow}</th>
+            <th>{t.dailyMembers}</th>
+            <th>{t.csvHeaderBuyIn}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.tables.length === 0 && (
+            <tr>
+              <td colSpan={6}>{t.auditEmpty}</td>
+            </tr>
+          )}
+          {report.tables.map((row) => (
+            <tr key={row.tableId}>
+              <td>{row.tableName}</td>
+              {totalsCells(row).map((cell, idx) => (
+                <td key={idx}>{cell}</td>
+              ))}
+            </tr>
+          ))}
+          <tr className="row-total">
+            <td>{t.dailyTotal}</td>
+            {totalsCells(report.totals).map((cell, idx) => (
+              <td key={idx}>{cell}</td>
+            ))}
+          </tr>
+        </tbody>
+      </table>
+      <div className="panel-hint">
+        {t.dailyPeak}：{report.peakSeated}
+        {report.peakAt && ` (${report.peakAt})`}
+      </div>
+
+      <div className="panel-title-row">
+        <div className="panel-title">{t.dailyMultiTable}</div>
+      </div>
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.csvHeaderMember}</th>
+            <th>{t.reportTables}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.multiTable.length === 0 && (
+            <tr>
+              <td colSpan={2}>{t.auditEmpty}</td>
+            </tr>
+          )}
+          {report.multiTable.map((m) => (
+            <tr key={m.memberId}>
+              <td>{m.memberId}</td>
+              <td>{m.tables.join(', ')}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default DailyReportView;
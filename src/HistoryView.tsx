@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { queryArchive, type ArchivedSession } from './archive';
+import { downloadCsv } from './csv';
+import { formatCorrections } from './sessions';
+import { formatBlindsLevels } from './stakes';
+import type { Texts } from './texts';
+import { formatHMS } from './time';
+import type { TableState } from './types';
+
+interface HistoryViewProps {
+  t: Texts;
+  tables: TableState[];
+  /** Current gaming day, used as the default date range. */
+  today: string;
+}
+
+const MAX_ROWS = 500;
+
+const HistoryView: React.FC<HistoryViewProps> = ({ t, tables, today }) => {
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState(today);
+  const [tableName, setTableName] = useState('');
+  const [memberId, setMemberId] = useState('');
+  const [blinds, setBlinds] = useState('');
+  const [rows, setRows] = useState<ArchivedSession[]>([]);
+  const [error, setError] = useState(false);
+
+  // Re-query whenever a filter changes or a table gains new session rows.
+  const sessionCount = tables.reduce((sum, tbl) => sum + tbl.sessions.length, 0);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryArchive({ fromDate, toDate, tableName, memberId, blinds })
+      .then((result) => {
+        if (cancelled) return;
+        setRows(result);
+        setError(false);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fromDate, toDate, tableName, memberId, blinds, sessionCount]);
+
+  const tableNames = useMemo(
+    () => Array.from(new Set([...tables.map((tbl) => tbl.name), ...rows.map((r) => r.tableName)])),
+    [tables, rows],
+  );
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      activeSeconds: acc.activeSeconds + row.activeSeconds,
+      buyIn: acc.buyIn + (row.buyInAmount ?? 0),
+      cashOut: acc.cashOut + (row.cashOutAmount ?? 0),
+      members: acc.members.add(row.memberId),
+    }),
+    { activeSeconds: 0, buyIn: 0, cashOut: 0, members: new Set<string>() },
+  );
+
+  const waited = rows.filter((row) => row.waitSeconds != null);
+  const averageWait =
+    waited.length > 0
+      ? waited.reduce((sum, row) => sum + (row.waitSeconds ?? 0), 0) / waited.length
+      : 0;
+
+  const handleExport = () => {
+    const columns = [
+      t.historyBusinessDate,
+      t.csvHeaderTable,
+      t.historyBlinds,
+      t.csvHeaderSeat,
+      t.csvHeaderMember,
+      t.csvHeaderStart,
+      t.csvHeaderEnd,
+      t.csvHeaderActiveSec,
+      t.csvHeaderRestSec,
+      t.csvHeaderDuration,
+      t.csvHeaderBuyIn,
+      t.csvHeaderCashOut,
+      t.csvHeaderNet,
+      t.csvHeaderTransfer,
+      t.csvHeaderWait,
+      t.csvHeaderTimeCharge,
+      t.csvHeaderLevels,
+      t.csvHeaderClosedBy,
+      t.csvHeaderCorrected,
+      t.csvHeaderAutoLeave,
+    ];
+    const lines = rows.map((row) => [
+      row.businessDate,
+      row.tableName,
+      row.blinds,
+      row.seatId.toString(),
+      row.memberId,
+      row.startTime,
+      row.endTime,
+      row.activeSeconds.toString(),
+      row.restSeconds.toString(),
+      row.durationHMS,
+      row.buyInDisplay,
+      row.cashOutAmount?.toString() ?? '',
+      row.netAmount?.toString() ?? '',
+      row.transferNote ?? '',
+      row.waitSeconds?.toString() ?? '',
+      row.timeCharge?.toString() ?? '',
+      formatBlindsLevels(row.blindsLevels),
+      row.staff,
+      formatCorrections(row),
+      row.autoLeave?.at ?? '',
+    ]);
+    const range = `${fromDate || 'start'}_${toDate || 'end'}`.replace(/-/g, '');
+    downloadCsv([columns, ...lines], `PokerHistory_${range}.csv`);
+  };
+
+  const shown = rows.slice(-MAX_ROWS).reverse();
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.historyTitle}</div>
+        <div className="panel-hint">{t.auditShowing(shown.length, rows.length)}</div>
+      </div>
+      <div className="panel-hint">{t.historyHint}</div>
+
+      <div className="filter-row">
+        <label className="inline-field">
+          <span className="info-label">{t.historyFrom}</span>
+          <input
+            type="date"
+            className="info-input"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+          />
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.historyTo}</span>
+          <input
+            type="date"
+            className="info-input"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+          />
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.auditFilterTable}</span>
+          <select
+            className="setup-select"
+            value={tableName}
+            onChange={(e) => setTableName(e.target.value)}
+          >
+            <option value="">{t.auditAll}</option>
+            {tableNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.auditFilterMember}</span>
+          <input
+            className="info-input"
+            value={memberId}
+            onChange={(e) => setMemberId(e.target.value)}
+          />
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.historyBlinds}</span>
+          <input
+            className="info-input filter-input-short"
+            value={blinds}
+            onChange={(e) => setBlinds(e.target.value)}
+          />
+        </label>
+        <button
+          type="button"
+          className="btn-pill btn-green"
+          disabled={rows.length === 0}
+          onClick={handleExport}
+        >
+          {t.historyExport}
+        </button>
+      </div>
+
+      {error && <div className="panel-hint balance-mismatch">{t.historyUnavailable}</div>}
+
+      <div className="panel-hint">
+        {t.historyTotals(
+          rows.length,
+          totals.members.size,
+          Math.round(totals.activeSeconds / 36) / 100,
+          totals.buyIn,
+          totals.cashOut,
+        )}
+        {waited.length > 0 && ` · ${t.historyAvgWait(formatHMS(averageWait), waited.length)}`}
+      </div>
+
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.historyBusinessDate}</th>
+            <th>{t.csvHeaderTable}</th>
+            <th>{t.historyBlinds}</th>
+            <th>{t.csvHeaderSeat}</th>
+            <th>{t.csvHeaderMember}</th>
+            <th>{t.csvHeaderStart}</th>
+            <th>{t.csvHeaderEnd}</th>
+            <th>{t.csvHeaderDuration}</th>
+            <th>{t.csvHeaderBuyIn}</th>
+            <th>{t.csvHeaderCashOut}</th>
+            <th>{t.csvHeaderNet}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {shown.length === 0 && (
+            <tr>
+              <td colSpan={11}>{t.auditEmpty}</td>
+            </tr>
+          )}
+          {shown.map((row) => (
+            <tr key={row.id}>
+              <td>{row.businessDate}</td>
+              <td>{row.tableName}</td>
+              <td>{row.blinds || '-'}</td>
+              <td>{row.seatId}</td>
+              <td>{row.memberId}</td>
+              <td>{row.startTime}</td>
+              <td>{row.endTime}</td>
+              <td>{row.durationHMS}</td>
+              <td>{row.buyInDisplay}</td>
+              <td>{row.cashOutAmount ?? '-'}</td>
+              <td>{row.netAmount ?? '-'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default HistoryView;
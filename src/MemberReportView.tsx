@@ -0,0 +1,228 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { queryArchive, type ArchivedSession } from './archive';
+import { downloadCsv } from './csv';
+import { findMember } from './members';
+import { buildMemberStats, formatHours, getMemberKey } from './memberStats';
+import type { Texts } from './texts';
+import { formatHMS } from './time';
+import type { Member, TableState } from './types';
+
+interface MemberReportViewProps {
+  t: Texts;
+  tables: TableState[];
+  /** Current gaming day, used as the default date range. */
+  today: string;
+  members: Member[];
+}
+
+const MemberReportView: React.FC<MemberReportViewProps> = ({ t, tables, members, today }) => {
+  const [fromDate, setFromDate] = useState(`${today.slice(0, 8)}01`);
+  const [toDate, setToDate] = useState(today);
+  const [memberFilter, setMemberFilter] = useState('');
+  const [rows, setRows] = useState<ArchivedSession[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  const sessionCount = tables.reduce((sum, tbl) => sum + tbl.sessions.length, 0);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryArchive({ fromDate, toDate, memberId: memberFilter })
+      .then((result) => {
+        if (cancelled) return;
+        setRows(result);
+        setError(false);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fromDate, toDate, memberFilter, sessionCount]);
+
+  const stats = useMemo(() => buildMemberStats(rows, members), [rows, members]);
+  const selectedRows = selectedId
+    ? rows.filter((r) => getMemberKey(r.memberId) === getMemberKey(selectedId))
+    : [];
+
+  const handleExport = () => {
+    const lines = [
+      [t.reportPeriod, fromDate, toDate],
+      [],
+      [
+        t.memberId,
+        t.memberName,
+        t.memberTier,
+        t.reportHours,
+        t.reportSessions,
+        t.reportAverage,
+        t.csvHeaderBuyIn,
+        t.csvHeaderCashOut,
+        t.csvHeaderNet,
+        t.reportTables,
+        t.historyBlinds,
+        t.reportLastVisit,
+      ],
+      ...stats.map((s) => {
+        const member = findMember(members, s.memberId);
+        return [
+          s.memberId,
+          member?.name ?? '',
+          member?.tier ?? '',
+          formatHours(s.activeSeconds),
+          s.sessions.toString(),
+          formatHMS(s.averageSeconds),
+          s.buyIn.toString(),
+          s.cashOut.toString(),
+          s.net.toString(),
+          s.tables.join(' / '),
+          s.blinds.join(' / '),
+          s.lastVisit,
+        ];
+      }),
+    ];
+    const range = `${fromDate}_${toDate}`.replace(/-/g, '');
+    downloadCsv(lines, `PokerMemberReport_${range}.csv`);
+  };
+
+  return (
+    <section className="setup-panel report-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.reportTitle}</div>
+        <div className="panel-hint">
+          {t.reportPeriod}：{fromDate || '-'} ~ {toDate || '-'}
+        </div>
+      </div>
+      <div className="panel-hint no-print">{t.reportHint}</div>
+
+      <div className="filter-row no-print">
+        <label className="inline-field">
+          <span className="info-label">{t.historyFrom}</span>
+          <input
+            type="date"
+            className="info-input"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+          />
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.historyTo}</span>
+          <input
+            type="date"
+            className="info-input"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+          />
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.auditFilterMember}</span>
+          <input
+            className="info-input"
+            value={memberFilter}
+            onChange={(e) => setMemberFilter(e.target.value)}
+          />
+        </label>
+        <button
+          type="button"
+          className="btn-pill btn-green"
+          disabled={stats.length === 0}
+          onClick={handleExport}
+        >
+          {t.historyExport}
+        </button>
+        <button type="button" className="lang-toggle-btn" onClick={() => window.print()}>
+          {t.reportPrint}
+        </button>
+      </div>
+
+      {error && <div className="panel-hint balance-mismatch">{t.historyUnavailable}</div>}
+
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.memberId}</th>
+            <th>{t.memberName}</th>
+            <th>{t.reportHours}</th>
+            <th>{t.reportSessions}</th>
+            <th>{t.reportAverage}</th>
+            <th>{t.csvHeaderBuyIn}</th>
+            <th>{t.csvHeaderNet}</th>
+            <th>{t.reportTables}</th>
+            <th>{t.historyBlinds}</th>
+            <th>{t.reportLastVisit}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.length === 0 && (
+            <tr>
+              <td colSpan={10}>{t.auditEmpty}</td>
+            </tr>
+          )}
+          {stats.map((s) => {
+            const member = findMember(members, s.memberId);
+            return (
+              <tr
+                key={s.memberId}
+                className={'row-clickable ' + (selectedId === s.memberId ? 'row-selected' : '')}
+                onClick={() => setSelectedId((prev) => (prev === s.memberId ? null : s.memberId))}
+              >
+                <td>{s.memberId}</td>
+                <td>
+                  {member?.name || '-'}
+                  {member?.tier && <div className="cell-sub">{member.tier}</div>}
+                </td>
+                <td>{formatHours(s.activeSeconds)}</td>
+                <td>{s.sessions}</td>
+                <td>{formatHMS(s.averageSeconds)}</td>
+                <td>{s.buyIn}</td>
+                <td>{s.net}</td>
+                <td>{s.tables.join(', ')}</td>
+                <td>{s.blinds.join(', ') || '-'}</td>
+                <td>{s.lastVisit}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {selectedId && (
+        <>
+          <div className="panel-title-row">
+            <div className="panel-title">{t.reportSessionsOf(selectedId)}</div>
+          </div>
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>{t.historyBusinessDate}</th>
+                <th>{t.csvHeaderTable}</th>
+                <th>{t.historyBlinds}</th>
+                <th>{t.csvHeaderStart}</th>
+                <th>{t.csvHeaderEnd}</th>
+                <th>{t.csvHeaderDuration}</th>
+                <th>{t.csvHeaderBuyIn}</th>
+                <th>{t.csvHeaderNet}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selectedRows.map((row) => (
+                <tr key={row.id}>
+                  <td>{row.businessDate}</td>
+                  <td>{row.tableName}</td>
+                  <td>{row.blinds || '-'}</td>
+                  <td>{row.startTime}</td>
+                  <td>{row.endTime}</td>
+                  <td>{row.durationHMS}</td>
+                  <td>{row.buyInDisplay}</td>
+                  <td>{row.netAmount ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default MemberReportView;
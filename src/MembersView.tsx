@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { createEmptyMember } from './members';
+import type { Texts } from './texts';
+import type { Member } from './types';
+
+interface MembersViewProps {
+  t: Texts;
+  members: Member[];
+  onSave: (member: Member, originalId: string | null) => boolean;
+  onDelete: (memberId: string) => void;
+  onImport: (csvText: string) => void;
+}
+
+const MembersView: React.FC<MembersViewProps> = ({ t, members, onSave, onDelete, onImport }) => {
+  const [search, setSearch] = useState('');
+  const [draft, setDraft] = useState<Member>(createEmptyMember);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    if (!q) return members;
+    return members.filter((m) =>
+      [m.id, m.name, m.phone, m.tier].some((v) => v.toLowerCase().includes(q)),
+    );
+  }, [members, search]);
+
+  const resetDraft = () => {
+    setDraft(createEmptyMember());
+    setEditingId(null);
+  };
+
+  const handleSubmit = () => {
+    if (onSave(draft, editingId)) resetDraft();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    onImport(await file.text());
+  };
+
+  const field = (key: 'id' | 'name' | 'phone' | 'tier' | 'notes', label: string) => (
+    <label className="inline-field">
+      <span className="info-label">{label}</span>
+      <input
+        className="info-input"
+        value={draft[key]}
+        onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+      />
+    </label>
+  );
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.membersTitle}</div>
+        <div className="panel-hint">{t.membersCount(members.length)}</div>
+      </div>
+      <div className="panel-hint">{t.membersHint}</div>
+
+      <div className="filter-row">
+        {field('id', t.memberId)}
+        {field('name', t.memberName)}
+        {field('phone', t.memberPhone)}
+        {field('tier', t.memberTier)}
+        {field('notes', t.memberNotes)}
+        <label className="batch-checkbox">
+          <input
+            type="checkbox"
+            checked={draft.banned}
+            onChange={(e) => setDraft((prev) => ({ ...prev, banned: e.target.checked }))}
+          />
+          {t.memberBanned}
+        </label>
+        <button type="button" className="btn-pill btn-green" onClick={handleSubmit}>
+          {editingId ? t.membersUpdate : t.membersAdd}
+        </button>
+        {editingId && (
+          <button type="button" className="seat-btn btn-outline-xs" onClick={resetDraft}>
+            {t.membersCancelEdit}
+          </button>
+        )}
+      </div>
+
+      <div className="filter-row">
+        <label className="inline-field">
+          <span className="info-label">{t.membersSearch}</span>
+          <input
+            className="info-input"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.membersImport}</span>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="file-input"
+            onChange={(e) => {
+              void handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      <div className="panel-hint">{t.membersImportHint}</div>
+
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.memberId}</th>
+            <th>{t.memberName}</th>
+            <th>{t.memberPhone}</th>
+            <th>{t.memberTier}</th>
+            <th>{t.memberNotes}</th>
+            <th>{t.setupStatus}</th>
+            <th>{t.setupActions}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {filtered.length === 0 && (
+            <tr>
+              <td colSpan={7}>{t.membersEmpty}</td>
+            </tr>
+          )}
+          {filtered.map((m) => (
+            <tr key={m.id} className={m.banned ? 'row-banned' : ''}>
+              <td>{m.id}</td>
+              <td>{m.name || '-'}</td>
+              <td>{m.phone || '-'}</td>
+              <td>{m.tier || '-'}</td>
+              <td>{m.notes || '-'}</td>
+              <td>{m.banned ? t.memberBanned : t.setupActive}</td>
+              <td>
+                <div className="row-actions">
+                  <button
+                    type="button"
+                    className="seat-btn btn-outline-xs"
+                    onClick={() => {
+                      setDraft(m);
+                      setEditingId(m.id);
+                    }}
+                  >
+                    {t.membersEdit}
+                  </button>
+                  <button
+                    type="button"
+                    className="seat-btn btn-xs-red"
+                    onClick={() => onDelete(m.id)}
+                  >
+                    {t.setupDelete}
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+};
+
+export default MembersView;
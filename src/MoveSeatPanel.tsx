@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { getActiveTables, getOpenSeats } from './tables';
+import type { Texts } from './texts';
+import { getTournamentSeatIds } from './tournament';
+import type { TableState, TournamentState } from './types';
+
+interface MoveSeatPanelProps {
+  t: Texts;
+  tables: TableState[];
+  /** Seats its entries hold are not offered. */
+  tournament: TournamentState;
+  fromTableId: number;
+  onConfirm: (toTableId: number, toSeatId: number) => void;
+  onCancel: () => void;
+}
+
+/** Picks a free seat at another running table for a seat-to-seat transfer. */
+const MoveSeatPanel: React.FC<MoveSeatPanelProps> = ({
+  t,
+  tables,
+  tournament,
+  fromTableId,
+  onConfirm,
+  onCancel,
+}) => {
+  const targets = getActiveTables(tables)
+    .filter((tbl) => tbl.id !== fromTableId && tbl.isRunning)
+    .map((tbl) => ({
+      table: tbl,
+      freeSeats: getOpenSeats(tbl, getTournamentSeatIds(tournament, tbl.id)),
+    }))
+    .filter((x) => x.freeSeats.length > 0);
+
+  const [tableId, setTableId] = useState(targets[0]?.table.id ?? 0);
+  const target = targets.find((x) => x.table.id === tableId) ?? targets[0];
+  const [seatId, setSeatId] = useState(target?.freeSeats[0]?.id ?? 0);
+  const seatValid = target?.freeSeats.some((s) => s.id === seatId);
+
+  if (!target) {
+    return (
+      <div className="move-panel">
+        <span className="ledger-empty">{t.moveNoTarget}</span>
+        <button type="button" className="seat-btn btn-outline-xs" onClick={onCancel}>
+          {t.moveCancel}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="move-panel">
+      <select
+        className="setup-select"
+        value={target.table.id}
+        onChange={(e) => {
+          const nextId = Number(e.target.value);
+          setTableId(nextId);
+          setSeatId(targets.find((x) => x.table.id === nextId)?.freeSeats[0]?.id ?? 0);
+        }}
+      >
+        {targets.map((x) => (
+          <option key={x.table.id} value={x.table.id}>
+            {x.table.name}
+          </option>
+        ))}
+      </select>
+      <select
+        className="setup-select"
+        value={seatValid ? seatId : target.freeSeats[0].id}
+        onChange={(e) => setSeatId(Number(e.target.value))}
+      >
+        {target.freeSeats.map((s) => (
+          <option key={s.id} value={s.id}>
+            {t.seat} {s.id}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className="seat-btn btn-xs-green"
+        onClick={() => onConfirm(target.table.id, seatValid ? seatId : target.freeSeats[0].id)}
+      >
+        {t.moveConfirm}
+      </button>
+      <button type="button" className="seat-btn btn-outline-xs" onClick={onCancel}>
+        {t.moveCancel}
+      </button>
+    </div>
+  );
+};
+
+export default MoveSeatPanel;
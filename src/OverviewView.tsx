@@ -0,0 +1,91 @@
+import React from 'react';
+import { getBreakSeconds, getRestAlert, getRestLimitMinutes } from './rest';
+import type { AppSettings } from './settings';
+import { getTableElapsedSeconds } from './tables';
+import type { Texts } from './texts';
+import { formatHMS } from './time';
+import type { TableState } from './types';
+
+interface OverviewViewProps {
+  t: Texts;
+  tables: TableState[];
+  nowMs: number;
+  settings: AppSettings;
+  onSelect: (tableId: number) => void;
+}
+
+const OverviewView: React.FC<OverviewViewProps> = ({ t, tables, nowMs, settings, onSelect }) => {
+  const overRest = (tbl: TableState) => {
+    const limitMinutes = getRestLimitMinutes(tbl, settings);
+    return tbl.seats.filter((seat) => {
+      const alert = getRestAlert(seat, limitMinutes, settings, nowMs);
+      return alert === 'over' || alert === 'due';
+    });
+  };
+  const seatedTotal = tables.reduce(
+    (sum, tbl) => sum + tbl.seats.filter((seat) => seat.status !== 'idle').length,
+    0,
+  );
+  const seatTotal = tables.reduce((sum, tbl) => sum + tbl.seats.length, 0);
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.overviewTitle}</div>
+        <div className="panel-hint">{t.overviewSeatedTotal(seatedTotal, seatTotal)}</div>
+      </div>
+      <div className="overview-grid">
+        {tables.map((tbl) => {
+          const seated = tbl.seats.filter((seat) => seat.status === 'seated').length;
+          const resting = tbl.seats.filter((seat) => seat.status === 'rest').length;
+          const late = overRest(tbl);
+          return (
+            <button
+              key={tbl.id}
+              type="button"
+              className={'overview-card ' + (late.length > 0 ? 'overview-card-alert' : '')}
+              onClick={() => onSelect(tbl.id)}
+            >
+              <div className="clock-title-row">
+                <div className="clock-title">{tbl.name}</div>
+                <div className={'clock-status-text ' + (tbl.isRunning ? '' : 'stopped')}>
+                  {tbl.isRunning ? t.running : t.stopped}
+                </div>
+              </div>
+              <div className="overview-clock">{formatHMS(getTableElapsedSeconds(tbl, nowMs))}</div>
+              <div className="panel-hint">
+                {t.blinds}：{tbl.blinds || '-'}
+              </div>
+              <div className="overview-seats">
+                {tbl.seats.map((seat) => (
+                  <span
+                    key={seat.id}
+                    className={'overview-seat status-' + seat.status}
+                    title={seat.memberId || undefined}
+                  >
+                    {seat.id}
+                  </span>
+                ))}
+              </div>
+              <div className="panel-hint">
+                {t.overviewCounts(seated, resting, tbl.seats.length - seated - resting)}
+              </div>
+              {late.length > 0 && (
+                <div className="panel-hint balance-mismatch">
+                  {t.overviewOverRest(
+                    late.map(
+                      (seat) =>
+                        `${seat.id} ${seat.memberId} ${formatHMS(getBreakSeconds(seat, nowMs))}`,
+                    ),
+                  )}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default OverviewView;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import type { InterruptedSeat } from './recovery';
+import type { Texts } from './texts';
+import { formatDateTime } from './time';
+
+/** What the floor confirmed for one seat: the real end time, or null if still playing. */
+export interface RecoveryDecision {
+  tableId: number;
+  seatId: number;
+  endTime: string | null;
+}
+
+interface RecoveryPanelProps {
+  t: Texts;
+  seats: InterruptedSeat[];
+  lastAliveMs: number;
+  /** Returns false when a time was rejected, so the panel stays open. */
+  onConfirm: (decisions: RecoveryDecision[]) => boolean;
+}
+
+const RecoveryPanel: React.FC<RecoveryPanelProps> = ({ t, seats, lastAliveMs, onConfirm }) => {
+  const lastAlive = formatDateTime(new Date(lastAliveMs));
+  const [decisions, setDecisions] = useState<RecoveryDecision[]>(() =>
+    seats.map(({ tableId, seat }) => ({ tableId, seatId: seat.id, endTime: lastAlive })),
+  );
+
+  const update = (idx: number, endTime: string | null) =>
+    setDecisions((prev) => prev.map((d, i) => (i === idx ? { ...d, endTime } : d)));
+
+  return (
+    <section className="setup-panel recovery-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.recoveryTitle}</div>
+      </div>
+      <div className="panel-hint">{t.recoveryHint(lastAlive)}</div>
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.csvHeaderTable}</th>
+            <th>{t.csvHeaderSeat}</th>
+            <th>{t.csvHeaderMember}</th>
+            <th>{t.csvHeaderStart}</th>
+            <th>{t.recoveryStillPlaying}</th>
+            <th>{t.csvHeaderEnd}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {seats.map(({ tableName, seat }, idx) => (
+            <tr key={`${tableName}-${seat.id}`}>
+              <td>{tableName}</td>
+              <td>{seat.id}</td>
+              <td>{seat.memberId}</td>
+              <td>{seat.sessionStart ?? '-'}</td>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={decisions[idx].endTime == null}
+                  onChange={(e) => update(idx, e.target.checked ? null : lastAlive)}
+                />
+              </td>
+              <td>
+                {decisions[idx].endTime != null && (
+                  <input
+                    className="info-input"
+                    value={decisions[idx].endTime ?? ''}
+                    onChange={(e) => update(idx, e.target.value)}
+                  />
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="panel-footer-row">
+        <button type="button" className="btn-pill btn-green" onClick={() => onConfirm(decisions)}>
+          {t.recoveryConfirm}
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default RecoveryPanel;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import type { Dialogs } from './dialogs';
+import { isBuyInFromLedger } from './sessions';
+import type { Texts } from './texts';
+import { formatHMS, parseHMS } from './time';
+import type { SessionPatch, SessionRow, TableState } from './types';
+
+interface SessionsPanelProps {
+  t: Texts;
+  dialogs: Dialogs;
+  table: TableState;
+  canEdit: boolean;
+  /** Returns false when the correction was rejected, so the form stays open. */
+  onCorrect: (rowId: string, patch: SessionPatch, reason: string) => boolean;
+}
+
+interface Draft {
+  memberId: string;
+  startTime: string;
+  endTime: string;
+  active: string;
+  rest: string;
+  buyIn: string;
+  reason: string;
+}
+
+const toDraft = (row: SessionRow): Draft => ({
+  memberId: row.memberId,
+  startTime: row.startTime,
+  endTime: row.endTime,
+  active: formatHMS(row.activeSeconds),
+  rest: formatHMS(row.restSeconds),
+  buyIn: row.buyInAmount?.toString() ?? '',
+  reason: '',
+});
+
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ t, dialogs, table, canEdit, onCorrect }) => {
+  const [open, setOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+
+  const startEdit = (row: SessionRow) => {
+    setEditingId(row.id);
+    setDraft(toDraft(row));
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(null);
+  };
+
+  const handleSave = (row: SessionRow) => {
+    if (!draft) return;
+    const activeSeconds = parseHMS(draft.active);
+    const restSeconds = parseHMS(draft.rest);
+    if (activeSeconds == null || restSeconds == null) {
+      dialogs.alert(t.sessionBadDuration);
+      return;
+    }
+    const patch: SessionPatch = {
+      memberId: draft.memberId.trim(),
+      startTime: draft.startTime.trim(),
+      endTime: draft.endTime.trim(),
+      activeSeconds,
+      restSeconds,
+    };
+    // Ledger and transfer rows add up their buy-in, so only older rows take a typed amount.
+    if (!isBuyInFromLedger(row)) {
+      const buyIn = Number(draft.buyIn);
+      if (!Number.isFinite(buyIn) || buyIn < 0) {
+        dialogs.alert(t.invalidNumber);
+        return;
+      }
+      patch.buyInAmount = buyIn;
+    }
+    if (onCorrect(row.id, patch, draft.reason)) cancelEdit();
+  };
+
+  const field = (key: keyof Draft, className = 'info-input') =>
+    draft && (
+      <input
+        className={className}
+        value={draft[key]}
+        onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+      />
+    );
+
+  const rows = [...table.sessions].reverse();
+
+  return (
+    <div className="sessions-panel">
+      <button type="button" className="ledger-toggle" onClick={() => setOpen((prev) => !prev)}>
+        {open ? '▾' : '▸'} {t.sessionsTitle(table.sessions.length)}
+      </button>
+      {open && (
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>{t.csvHeaderSeat}</th>
+              <th>{t.csvHeaderMember}</th>
+              <th>{t.csvHeaderStart}</th>
+              <th>{t.csvHeaderEnd}</th>
+              <th>{t.sessionActive}</th>
+              <th>{t.sessionRest}</th>
+              <th>{t.csvHeaderBuyIn}</th>
+              <th>{t.setupActions}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.length === 0 && (
+              <tr>
+                <td colSpan={8}>{t.auditEmpty}</td>
+              </tr>
+            )}
+            {rows.map((row) =>
+              editingId === row.id && draft ? (
+                <tr key={row.id} className="row-selected">
+                  <td>{row.seatId}</td>
+                  <td>{field('memberId', 'info-input filter-input-short')}</td>
+                  <td>{field('startTime')}</td>
+                  <td>{field('endTime')}</td>
+                  <td>{field('active', 'info-input filter-input-short')}</td>
+                  <td>{field('rest', 'info-input filter-input-short')}</td>
+                  <td>
+                    {isBuyInFromLedger(row)
+                      ? row.buyInDisplay
+                      : field('buyIn', 'info-input filter-input-short')}
+                  </td>
+                  <td>
+                    <div className="row-actions">
+                      <input
+                        className="info-input"
+                        placeholder={t.sessionReason}
+                        value={draft.reason}
+                        onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+                      />
+                      <button
+                        type="button"
+                        className="seat-btn btn-xs-green"
+                        onClick={() => handleSave(row)}
+                      >
+                        {t.sessionSave}
+                      </button>
+                      <button
+                        type="button"
+                        className="seat-btn btn-outline-xs"
+                        onClick={cancelEdit}
+                      >
+                        {t.sessionCancel}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={row.id}>
+                  <td>{row.seatId}</td>
+                  <td>{row.memberId}</td>
+                  <td>{row.startTime}</td>
+                  <td>{row.endTime}</td>
+                  <td>{row.durationHMS}</td>
+                  <td>{formatHMS(row.restSeconds)}</td>
+                  <td>{row.buyInDisplay}</td>
+                  <td>
+                    <div className="row-actions">
+                      {row.corrections.length > 0 && (
+                        <span
+                          className="ledger-voided-tag"
+                          title={row.corrections
+                            .map((c) => `${c.time} ${c.staff}: ${c.reason}`)
+                            .join('\n')}
+                        >
+                          {t.sessionCorrectedTag(row.corrections.length)}
+                        </span>
+                      )}
+                      {canEdit && (
+                        <button
+                          type="button"
+                          className="seat-btn btn-outline-xs"
+                          onClick={() => startEdit(row)}
+                        >
+                          {t.sessionEdit}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ),
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -0,0 +1,245 @@
+import React from 'react';
+import type { AppSettings, FeeRule } from './settings';
+import { createStakeLevel } from './stakes';
+import type { Texts } from './texts';
+import type { StakeLevel } from './types';
+
+interface SettingsViewProps {
+  t: Texts;
+  settings: AppSettings;
+  businessDate: string;
+  onChange: (settings: AppSettings) => void;
+}
+
+const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+const SettingsView: React.FC<SettingsViewProps> = ({ t, settings, businessDate, onChange }) => {
+  const updateFeeRule = (idx: number, patch: Partial<FeeRule>) =>
+    onChange({
+      ...settings,
+      feeSchedule: settings.feeSchedule.map((rule, i) =>
+        i === idx ? { ...rule, ...patch } : rule,
+      ),
+    });
+
+  const removeFeeRule = (idx: number) =>
+    onChange({ ...settings, feeSchedule: settings.feeSchedule.filter((_, i) => i !== idx) });
+
+  const addFeeRule = () =>
+    onChange({
+      ...settings,
+      feeSchedule: [...settings.feeSchedule, { blinds: '', amount: 0, blockMinutes: 30 }],
+    });
+
+  const updateStake = (idx: number, patch: Partial<StakeLevel>) =>
+    onChange({
+      ...settings,
+      stakes: settings.stakes.map((level, i) => (i === idx ? { ...level, ...patch } : level)),
+    });
+
+  const removeStake = (idx: number) =>
+    onChange({ ...settings, stakes: settings.stakes.filter((_, i) => i !== idx) });
+
+  const addStake = () =>
+    onChange({ ...settings, stakes: [...settings.stakes, createStakeLevel()] });
+
+  const stakeFields: [keyof Omit<StakeLevel, 'id'>, string][] = [
+    ['smallBlind', t.stakeSmallBlind],
+    ['bigBlind', t.stakeBigBlind],
+    ['ante', t.stakeAnte],
+    ['minBuyIn', t.stakeMinBuyIn],
+    ['maxBuyIn', t.stakeMaxBuyIn],
+    ['restLimitMinutes', t.stakeRestLimit],
+  ];
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.settingsTitle}</div>
+      </div>
+
+      <div className="settings-group">
+        <label className="inline-field">
+          <span className="info-label">{t.settingsCutoff}</span>
+          <input
+            type="time"
+            className="info-input"
+            value={settings.gamingDayCutoff}
+            onChange={(e) => onChange({ ...settings, gamingDayCutoff: e.target.value || '00:00' })}
+          />
+        </label>
+        <div className="panel-hint">{t.settingsCutoffHint(businessDate)}</div>
+        <label className="inline-field">
+          <span className="info-label">{t.settingsRecovery}</span>
+          <input
+            className="info-input filter-input-short"
+            inputMode="numeric"
+            value={settings.recoveryThresholdMinutes}
+            onChange={(e) =>
+              onChange({ ...settings, recoveryThresholdMinutes: toNumber(e.target.value) })
+            }
+          />
+        </label>
+        <div className="panel-hint">{t.settingsRecoveryHint}</div>
+      </div>
+
+      <div className="settings-group">
+        <div className="panel-title">{t.settingsFees}</div>
+        <div className="panel-hint">{t.settingsFeesHint}</div>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>{t.settingsFeeBlinds}</th>
+              <th>{t.settingsFeeAmount}</th>
+              <th>{t.settingsFeeBlock}</th>
+              <th>{t.setupActions}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {settings.feeSchedule.map((rule, idx) => (
+              <tr key={idx}>
+                <td>
+                  <input
+                    className="info-input"
+                    placeholder={t.settingsFeeDefault}
+                    value={rule.blinds}
+                    onChange={(e) => updateFeeRule(idx, { blinds: e.target.value })}
+                  />
+                </td>
+                <td>
+                  <input
+                    className="info-input filter-input-short"
+                    inputMode="numeric"
+                    value={rule.amount}
+                    onChange={(e) => updateFeeRule(idx, { amount: toNumber(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <input
+                    className="info-input filter-input-short"
+                    inputMode="numeric"
+                    value={rule.blockMinutes}
+                    onChange={(e) => updateFeeRule(idx, { blockMinutes: toNumber(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className="seat-btn btn-xs-red"
+                    onClick={() => removeFeeRule(idx)}
+                  >
+                    {t.setupDelete}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="panel-footer-row">
+          <label className="inline-field">
+            <span className="info-label">{t.settingsFreeRest}</span>
+            <input
+              className="info-input filter-input-short"
+              inputMode="numeric"
+              value={settings.freeRestMinutes}
+              onChange={(e) => onChange({ ...settings, freeRestMinutes: toNumber(e.target.value) })}
+            />
+          </label>
+          <button type="button" className="btn-pill btn-green" onClick={addFeeRule}>
+            {t.settingsFeeAdd}
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-group">
+        <div className="panel-title">{t.settingsRest}</div>
+        <div className="panel-hint">{t.settingsRestHint}</div>
+        <label className="inline-field">
+          <span className="info-label">{t.settingsRestLimit}</span>
+          <input
+            className="info-input filter-input-short"
+            inputMode="numeric"
+            value={settings.restLimitMinutes}
+            onChange={(e) => onChange({ ...settings, restLimitMinutes: toNumber(e.target.value) })}
+          />
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.settingsRestWarning}</span>
+          <input
+            className="info-input filter-input-short"
+            inputMode="numeric"
+            value={settings.restWarningMinutes}
+            onChange={(e) =>
+              onChange({ ...settings, restWarningMinutes: toNumber(e.target.value) })
+            }
+          />
+        </label>
+        <label className="inline-field">
+          <input
+            type="checkbox"
+            checked={settings.restAutoLeave}
+            onChange={(e) => onChange({ ...settings, restAutoLeave: e.target.checked })}
+          />
+          <span className="info-label">{t.settingsRestAutoLeave}</span>
+        </label>
+        <label className="inline-field">
+          <span className="info-label">{t.settingsRestGrace}</span>
+          <input
+            className="info-input filter-input-short"
+            inputMode="numeric"
+            disabled={!settings.restAutoLeave}
+            value={settings.restGraceMinutes}
+            onChange={(e) => onChange({ ...settings, restGraceMinutes: toNumber(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className="settings-group">
+        <div className="panel-title">{t.stakesTitle}</div>
+        <div className="panel-hint">{t.stakesHint}</div>
+        <table className="data-table">
+          <thead>
+            <tr>
+              {stakeFields.map(([field, label]) => (
+                <th key={field}>{label}</th>
+              ))}
+              <th>{t.setupActions}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {settings.stakes.map((level, idx) => (
+              <tr key={level.id}>
+                {stakeFields.map(([field]) => (
+                  <td key={field}>
+                    <input
+                      className="info-input filter-input-short"
+                      inputMode="numeric"
+                      value={level[field]}
+                      onChange={(e) => updateStake(idx, { [field]: toNumber(e.target.value) })}
+                    />
+                  </td>
+                ))}
+                <td>
+                  <button
+                    type="button"
+                    className="seat-btn btn-xs-red"
+                    onClick={() => removeStake(idx)}
+                  >
+                    {t.setupDelete}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="panel-footer-row">
+          <button type="button" className="btn-pill btn-green" onClick={addStake}>
+            {t.stakesAdd}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default SettingsView;
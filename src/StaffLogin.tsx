@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { checkPin, isValidPin } from './staff';
+import type { Texts } from './texts';
+import type { StaffAccount } from './types';
+
+interface StaffLoginProps {
+  t: Texts;
+  accounts: StaffAccount[];
+  langToggleLabel: string;
+  onToggleLang: () => void;
+  onLogin: (account: StaffAccount) => void;
+  /** Creates the first manager account when none exist yet. */
+  onCreateFirst: (name: string, pin: string) => void;
+}
+
+const StaffLogin: React.FC<StaffLoginProps> = ({
+  t,
+  accounts,
+  langToggleLabel,
+  onToggleLang,
+  onLogin,
+  onCreateFirst,
+}) => {
+  const activeAccounts = accounts.filter((account) => account.active);
+  const [staffId, setStaffId] = useState('');
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [pinRepeat, setPinRepeat] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const selected = activeAccounts.find((account) => account.id === staffId) ?? activeAccounts[0];
+
+  const handleLogin = () => {
+    if (!selected) return;
+    if (!checkPin(selected, pin)) {
+      setError(t.staffWrongPin);
+      setPin('');
+      return;
+    }
+    setError(null);
+    setPin('');
+    onLogin(selected);
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) {
+      setError(t.staffNeedName);
+      return;
+    }
+    if (!isValidPin(pin)) {
+      setError(t.staffPinRule);
+      return;
+    }
+    if (pin !== pinRepeat) {
+      setError(t.staffPinMismatch);
+      return;
+    }
+    setError(null);
+    onCreateFirst(name, pin);
+  };
+
+  return (
+    <section className="setup-panel staff-login">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.staffLoginTitle}</div>
+        <button type="button" className="lang-toggle-btn" onClick={onToggleLang}>
+          {langToggleLabel}
+        </button>
+      </div>
+
+      {activeAccounts.length === 0 ? (
+        <>
+          <div className="panel-hint">{t.staffFirstManagerHint}</div>
+          <label className="inline-field">
+            <span className="info-label">{t.staffName}</span>
+            <input className="info-input" value={name} onChange={(e) => setName(e.target.value)} />
+          </label>
+          <label className="inline-field">
+            <span className="info-label">{t.staffPin}</span>
+            <input
+              type="password"
+              inputMode="numeric"
+              className="info-input"
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+            />
+          </label>
+          <label className="inline-field">
+            <span className="info-label">{t.staffPinRepeat}</span>
+            <input
+              type="password"
+              inputMode="numeric"
+              className="info-input"
+              value={pinRepeat}
+              onChange={(e) => setPinRepeat(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreate();
+              }}
+            />
+          </label>
+          <div className="panel-footer-row">
+            <button type="button" className="btn-pill btn-green" onClick={handleCreate}>
+              {t.staffCreateManager}
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <label className="inline-field">
+            <span className="info-label">{t.staffName}</span>
+            <select
+              className="setup-select"
+              value={selected?.id ?? ''}
+              onChange={(e) => setStaffId(e.target.value)}
+            >
+              {activeAccounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name} · {t.staffRoleLabels[account.role]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="inline-field">
+            <span className="info-label">{t.staffPin}</span>
+            <input
+              type="password"
+              inputMode="numeric"
+              className="info-input"
+              autoFocus
+              value={pin}
+              onChange={(e) => setPin(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleLogin();
+              }}
+            />
+          </label>
+          <div className="panel-footer-row">
+            <button type="button" className="btn-pill btn-green" onClick={handleLogin}>
+              {t.staffLogin}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error && <div className="panel-hint balance-mismatch">{error}</div>}
+    </section>
+  );
+};
+
+export default StaffLogin;
@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import type { Dialogs } from './dialogs';
+import { STAFF_ROLES, createStaffAccount, hashPin, isValidPin } from './staff';
+import type { Texts } from './texts';
+import { formatBusinessDate, formatHMS, parseDateTime } from './time';
+import type { ShiftRecord, StaffAccount, StaffRole } from './types';
+
+interface StaffViewProps {
+  t: Texts;
+  dialogs: Dialogs;
+  accounts: StaffAccount[];
+  shifts: ShiftRecord[];
+  currentStaffId: string;
+  businessDate: string;
+  cutoffMinutes: number;
+  nowMs: number;
+  onChange: (accounts: StaffAccount[]) => void;
+}
+
+const StaffView: React.FC<StaffViewProps> = ({
+  t,
+  dialogs,
+  accounts,
+  shifts,
+  currentStaffId,
+  businessDate,
+  cutoffMinutes,
+  nowMs,
+  onChange,
+}) => {
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<StaffRole>('dealer');
+  const [pin, setPin] = useState('');
+  const [date, setDate] = useState(businessDate);
+
+  const shiftRows = useMemo(
+    () =>
+      shifts
+        .map((shift) => {
+          const login = parseDateTime(shift.loginAt);
+          const logout = shift.logoutAt ? parseDateTime(shift.logoutAt) : null;
+          return {
+            ...shift,
+            businessDate: login ? formatBusinessDate(login, cutoffMinutes) : '',
+            seconds: login ? ((logout?.getTime() ?? nowMs) - login.getTime()) / 1000 : 0,
+          };
+        })
+        .filter((shift) => !date || shift.businessDate === date)
+        .reverse(),
+    [shifts, cutoffMinutes, nowMs, date],
+  );
+
+  const updateAccount = (id: string, patch: Partial<StaffAccount>) => {
+    const next = accounts.map((account) =>
+      account.id === id ? { ...account, ...patch } : account,
+    );
+    // Someone must always be able to manage staff, or the accounts could never be fixed.
+    if (!next.some((account) => account.active && account.role === 'manager')) {
+      dialogs.alert(t.staffNeedManager);
+      return;
+    }
+    onChange(next);
+  };
+
+  const handleResetPin = async (account: StaffAccount) => {
+    const value = await dialogs.promptText(t.staffNewPinPrompt(account.name), {
+      secret: true,
+      keypad: true,
+      validate: (pin) => (isValidPin(pin) ? null : t.staffPinRule),
+    });
+    if (value == null) return;
+    updateAccount(account.id, { pinHash: hashPin(value) });
+  };
+
+  const handleAdd = () => {
+    if (!name.trim()) {
+      dialogs.alert(t.staffNeedName);
+      return;
+    }
+    if (!isValidPin(pin)) {
+      dialogs.alert(t.staffPinRule);
+      return;
+    }
+    onChange([...accounts, createStaffAccount(name, role, pin)]);
+    setName('');
+    setPin('');
+  };
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.staffTitle}</div>
+      </div>
+      <div className="panel-hint">{t.staffHint}</div>
+
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.staffName}</th>
+            <th>{t.staffRole}</th>
+            <th>{t.staffActive}</th>
+            <th>{t.setupActions}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {accounts.map((account) => (
+            <tr key={account.id} className={account.active ? '' : 'row-muted'}>
+              <td>
+                {account.name}
+                {account.id === currentStaffId && <span className="cell-sub"> · {t.staffYou}</span>}
+              </td>
+              <td>
+                <select
+                  className="setup-select"
+                  value={account.role}
+                  onChange={(e) => updateAccount(account.id, { role: e.target.value as StaffRole })}
+                >
+                  {STAFF_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {t.staffRoleLabels[r]}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={account.active}
+                  disabled={account.id === currentStaffId}
+                  onChange={(e) => updateAccount(account.id, { active: e.target.checked })}
+                />
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className="seat-btn btn-outline-xs"
+                  onClick={() => handleResetPin(account)}
+                >
+                  {t.staffResetPin}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="filter-row">
+        <input
+          className="info-input"
+          placeholder={t.staffName}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <select
+          className="setup-select"
+          value={role}
+          onChange={(e) => setRole(e.target.value as StaffRole)}
+        >
+          {STAFF_ROLES.map((r) => (
+            <option key={r} value={r}>
+              {t.staffRoleLabels[r]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="password"
+          inputMode="numeric"
+          className="info-input filter-input-short"
+          placeholder={t.staffPin}
+          value={pin}
+          onChange={(e) => setPin(e.target.value)}
+        />
+        <button type="button" className="btn-pill btn-green" onClick={handleAdd}>
+          {t.staffAdd}
+        </button>
+      </div>
+
+      <div className="settings-group">
+        <div className="panel-title-row">
+          <div className="panel-title">{t.staffShiftsTitle}</div>
+          <label className="inline-field">
+            <span className="info-label">{t.historyBusinessDate}</span>
+            <input
+              type="date"
+              className="info-input"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </label>
+        </div>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>{t.historyBusinessDate}</th>
+              <th>{t.staffName}</th>
+              <th>{t.staffRole}</th>
+              <th>{t.staffLoginAt}</th>
+              <th>{t.staffLogoutAt}</th>
+              <th>{t.csvHeaderDuration}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shiftRows.length === 0 && (
+              <tr>
+                <td colSpan={6}>{t.auditEmpty}</td>
+              </tr>
+            )}
+            {shiftRows.map((shift) => (
+              <tr key={shift.id}>
+                <td>{shift.businessDate}</td>
+                <td>{shift.staffName}</td>
+                <td>{t.staffRoleLabels[shift.role]}</td>
+                <td>{shift.loginAt}</td>
+                <td>{shift.logoutAt ?? t.staffOnShift}</td>
+                <td>{formatHMS(shift.seconds)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
+
+export default StaffView;
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { isSeatOccupied } from './tables';
+import type { Texts } from './texts';
+import type { TableState } from './types';
+
+interface SwapSeatPanelProps {
+  t: Texts;
+  table: TableState;
+  seatId: number;
+  onConfirm: (otherSeatId: number) => void;
+  onCancel: () => void;
+}
+
+/** Picks another occupied seat at the same table to trade places with. */
+const SwapSeatPanel: React.FC<SwapSeatPanelProps> = ({ t, table, seatId, onConfirm, onCancel }) => {
+  const targets = table.seats.filter((s) => s.id !== seatId && isSeatOccupied(s));
+  const [otherId, setOtherId] = useState(targets[0]?.id ?? 0);
+  const otherValid = targets.some((s) => s.id === otherId);
+
+  if (targets.length === 0) {
+    return (
+      <div className="move-panel">
+        <span className="ledger-empty">{t.swapNoTarget}</span>
+        <button type="button" className="seat-btn btn-outline-xs" onClick={onCancel}>
+          {t.moveCancel}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="move-panel">
+      <select
+        className="setup-select"
+        value={otherValid ? otherId : targets[0].id}
+        onChange={(e) => setOtherId(Number(e.target.value))}
+      >
+        {targets.map((s) => (
+          <option key={s.id} value={s.id}>
+            {t.seat} {s.id} · {s.memberId}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className="seat-btn btn-xs-green"
+        onClick={() => onConfirm(otherValid ? otherId : targets[0].id)}
+      >
+        {t.swapConfirm}
+      </button>
+      <button type="button" className="seat-btn btn-outline-xs" onClick={onCancel}>
+        {t.moveCancel}
+      </button>
+    </div>
+  );
+};
+
+export default SwapSeatPanel;
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import type { SyncStatus } from './sync';
+import type { Texts } from './texts';
+import type { TableState } from './types';
+import { DEFAULT_SEATS_PER_TABLE, MAX_SEATS_PER_TABLE, MIN_SEATS_PER_TABLE } from './tables';
+
+interface TableSetupProps {
+  t: Texts;
+  tables: TableState[];
+  onAdd: (seatCount: number) => void;
+  onRename: (tableId: number, name: string) => void;
+  onResize: (tableId: number, seatCount: number) => void;
+  onSetRetired: (tableId: number, retired: boolean) => void;
+  onSetRestLimit: (tableId: number, minutes: number | null) => void;
+  onDelete: (tableId: number) => void;
+  onMove: (tableId: number, offset: number) => void;
+  syncUrl: string;
+  syncStatus: SyncStatus;
+  onSyncUrlChange: (url: string) => void;
+}
+
+const seatCountOptions = Array.from(
+  { length: MAX_SEATS_PER_TABLE - MIN_SEATS_PER_TABLE + 1 },
+  (_, i) => MIN_SEATS_PER_TABLE + i,
+);
+
+const TableSetup: React.FC<TableSetupProps> = ({
+  t,
+  tables,
+  onAdd,
+  onRename,
+  onResize,
+  onSetRetired,
+  onSetRestLimit,
+  onDelete,
+  onMove,
+  syncUrl,
+  syncStatus,
+  onSyncUrlChange,
+}) => {
+  const [newSeatCount, setNewSeatCount] = useState(DEFAULT_SEATS_PER_TABLE);
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{t.setupTitle}</div>
+      </div>
+      <div className="panel-hint">{t.setupHint}</div>
+
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>{t.setupOrder}</th>
+            <th>{t.setupName}</th>
+            <th>{t.setupSeats}</th>
+            <th>{t.setupRestLimit}</th>
+            <th>{t.setupSessions}</th>
+            <th>{t.setupStatus}</th>
+            <th>{t.setupActions}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tables.map((tbl, idx) => (
+            <tr key={tbl.id} className={tbl.retired ? 'row-muted' : ''}>
+              <td>
+                <div className="row-actions">
+                  <button
+                    type="button"
+                    className="seat-btn btn-outline-xs"
+                    disabled={idx === 0}
+                    onClick={() => onMove(tbl.id, -1)}
+                  >
+                    {t.setupMoveUp}
+                  </button>
+                  <button
+                    type="button"
+                    className="seat-btn btn-outline-xs"
+                    disabled={idx === tables.length - 1}
+                    onClick={() => onMove(tbl.id, 1)}
+                  >
+                    {t.setupMoveDown}
+                  </button>
+                </div>
+              </td>
+              <td>
+                <input
+                  // Re-mount when the stored name changes so a rejected edit snaps back.
+                  key={tbl.name}
+                  className="info-input"
+                  defaultValue={tbl.name}
+                  onBlur={(e) => {
+                    if (e.target.value !== tbl.name) onRename(tbl.id, e.target.value);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                />
+              </td>
+              <td>
+                <select
+                  className="setup-select"
+                  value={tbl.seats.length}
+                  onChange={(e) => onResize(tbl.id, Number(e.target.value))}
+                >
+                  {seatCountOptions.map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <input
+                  key={tbl.restLimitMinutes ?? ''}
+                  className="info-input filter-input-short"
+                  inputMode="numeric"
+                  placeholder={t.setupRestLimitDefault}
+                  defaultValue={tbl.restLimitMinutes ?? ''}
+                  onBlur={(e) => {
+                    const value = e.target.value.trim();
+                    const minutes = value === '' ? null : Math.max(0, Number(value) || 0);
+                    if (minutes !== tbl.restLimitMinutes) onSetRestLimit(tbl.id, minutes);
+                  }}
+                />
+              </td>
+              <td>{tbl.sessions.length}</td>
+              <td>{tbl.retired ? t.setupRetired : t.setupActive}</td>
+              <td>
+                <div className="row-actions">
+                  <button
+                    type="button"
+                    className="seat-btn btn-outline-xs"
+                    onClick={() => onSetRetired(tbl.id, !tbl.retired)}
+                  >
+                    {tbl.retired ? t.setupRestore : t.setupRetire}
+                  </button>
+                  {tbl.retired && tbl.sessions.length === 0 && (
+                    <button
+                      type="button"
+                      className="seat-btn btn-xs-red"
+                      onClick={() => onDelete(tbl.id)}
+                    >
+                      {t.setupDelete}
+                    </button>
+                  )}
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="panel-footer-row">
+        <label className="inline-field">
+          <span className="info-label">{t.setupNewSeatCount}</span>
+          <select
+            className="setup-select"
+            value={newSeatCount}
+            onChange={(e) => setNewSeatCount(Number(e.target.value))}
+          >
+            {seatCountOptions.map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button type="button" className="btn-pill btn-green" onClick={() => onAdd(newSeatCount)}>
+          {t.setupAddTable}
+        </button>
+      </div>
+
+      <div className="panel-title-row sync-settings">
+        <div className="panel-title">{t.syncTitle}</div>
+        <div className="panel-hint">{t.syncStatusLabels[syncStatus]}</div>
+      </div>
+      <div className="panel-hint">{t.syncHint}</div>
+      <div className="panel-footer-row">
+        <label className="inline-field">
+          <span className="info-label">{t.syncUrl}</span>
+          <input
+            // Re-mount when the stored URL changes so the field follows it.
+            key={syncUrl}
+            className="info-input sync-url-input"
+            placeholder="http://192.168.1.10:8787"
+            defaultValue={syncUrl}
+            onBlur={(e) => {
+              if (e.target.value.trim() !== syncUrl) onSyncUrlChange(e.target.value.trim());
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+          />
+        </label>
+      </div>
+    </section>
+  );
+};
+
+export default TableSetup;
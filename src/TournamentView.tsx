@@ -0,0 +1,551 @@
+import React, { useState } from 'react';
+import { downloadCsv } from './csv';
+import type { Dialogs } from './dialogs';
+import { formatStakeLabel } from './stakes';
+import { getTableElapsedSeconds } from './tables';
+import type { Texts } from './texts';
+import { formatHMS } from './time';
+import {
+  addOnEntry,
+  applyTournamentMoves,
+  clearTournamentRun,
+  computePayouts,
+  createTournamentBreak,
+  createTournamentLevel,
+  eliminateEntry,
+  getChipsInPlay,
+  getCountedChips,
+  getEntryProblem,
+  getLevelClock,
+  getLevelNumber,
+  getPrizePool,
+  getRemainingEntries,
+  jumpToLevel,
+  pauseTournamentClock,
+  planTableBalance,
+  registerEntry,
+  setEntryChips,
+  startTournamentClock,
+} from './tournament';
+import type { TableState, TournamentLevel, TournamentState } from './types';
+
+interface TournamentViewProps {
+  t: Texts;
+  dialogs: Dialogs;
+  tables: TableState[];
+  tournament: TournamentState;
+  nowMs: number;
+  onChange: React.Dispatch<React.SetStateAction<TournamentState>>;
+  /** Banned / unknown member checks shared with cash-game seating. */
+  onConfirmMembers: (memberIds: string[]) => Promise<boolean>;
+}
+
+const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+const TournamentView: React.FC<TournamentViewProps> = ({
+  t,
+  dialogs,
+  tables,
+  tournament,
+  nowMs,
+  onChange,
+  onConfirmMembers,
+}) => {
+  const [memberId, setMemberId] = useState('');
+
+  const elapsed = getTableElapsedSeconds(tournament, nowMs);
+  const clock = getLevelClock(tournament.levels, elapsed);
+  const remaining = getRemainingEntries(tournament);
+  const prizePool = getPrizePool(tournament);
+  const payouts = computePayouts(prizePool, tournament.payouts);
+  const chipsInPlay = getChipsInPlay(tournament);
+  const countedChips = getCountedChips(tournament);
+  const moves = planTableBalance(tournament, tables);
+  const activeTables = tables.filter((tbl) => !tbl.retired);
+  const tableName = (tableId: number | null) =>
+    tables.find((tbl) => tbl.id === tableId)?.name ?? '-';
+
+  const levelLabel = (level: TournamentLevel | undefined, index: number) => {
+    if (!level) return '-';
+    if (level.isBreak) return t.tournamentBreak;
+    const number = getLevelNumber(tournament.levels, index);
+    return `${t.tournamentLevel(number)} · ${formatStakeLabel(level)}`;
+  };
+
+  const update = (patch: Partial<TournamentState>) => onChange((prev) => ({ ...prev, ...patch }));
+
+  const updateLevel = (idx: number, patch: Partial<TournamentLevel>) =>
+    onChange((prev) => ({
+      ...prev,
+      levels: prev.levels.map((level, i) => (i === idx ? { ...level, ...patch } : level)),
+    }));
+
+  const addLevel = () =>
+    onChange((prev) => {
+      const lastPlayed = [...prev.levels].reverse().find((level) => !level.isBreak);
+      return { ...prev, levels: [...prev.levels, createTournamentLevel(lastPlayed)] };
+    });
+
+  const addBreak = () =>
+    onChange((prev) => ({ ...prev, levels: [...prev.levels, createTournamentBreak()] }));
+
+  const removeLevel = (idx: number) =>
+    onChange((prev) => ({ ...prev, levels: prev.levels.filter((_, i) => i !== idx) }));
+
+  const toggleTable = (tableId: number) =>
+    onChange((prev) => ({
+      ...prev,
+      tableIds: prev.tableIds.includes(tableId)
+        ? prev.tableIds.filter((id) => id !== tableId)
+        : [...prev.tableIds, tableId],
+    }));
+
+  const handleRegister = async () => {
+    const id = memberId.trim();
+    if (!id) return;
+    const problem = getEntryProblem(tournament, id, tables, nowMs);
+    if (problem) {
+      dialogs.alert(
+        problem === 'alreadyIn'
+          ? t.tournamentAlreadyIn(id)
+          : problem === 'reEntryClosed'
+          ? t.tournamentReEntryClosed
+          : t.tournamentNoSeat,
+      );
+      return;
+    }
+    if (!(await onConfirmMembers([id]))) return;
+    onChange((prev) => registerEntry(prev, id, tables));
+    setMemberId('');
+  };
+
+  const handleEliminate = async (entryId: string, member: string) => {
+    if (!(await dialogs.confirm(t.tournamentConfirmEliminate(member, remaining.length)))) return;
+    onChange((prev) => eliminateEntry(prev, entryId, Date.now()));
+  };
+
+  const handleNewTournament = async () => {
+    if (tournament.entries.length > 0 && !(await dialogs.confirm(t.tournamentConfirmReset))) {
+      return;
+    }
+    onChange((prev) => clearTournamentRun(prev));
+  };
+
+  const handleExport = () => {
+    const columns = [
+      t.tournamentPlace,
+      t.csvHeaderMember,
+      t.tournamentEntries,
+      t.tournamentAddOns,
+      t.tournamentChips,
+      t.tournamentEliminatedAt,
+      t.tournamentPrize,
+    ];
+    const lines = [...tournament.entries]
+      .sort((a, b) => (a.place ?? 0) - (b.place ?? 0))
+      .map((entry) => [
+        entry.place?.toString() ?? '',
+        entry.memberId,
+        entry.entries.toString(),
+        entry.addOns.toString(),
+        entry.chips.toString(),
+        entry.eliminatedAt ?? '',
+        entry.place ? payouts[entry.place - 1]?.toString() ?? '' : '',
+      ]);
+    const summary = [
+      [t.tournamentName, tournament.name],
+      [t.openedAt, tournament.openedAt ?? ''],
+      [t.tournamentPrizePool, prizePool.toString()],
+      [],
+    ];
+    const name = (tournament.name || 'Tournament').replace(/[\\/:*?"<>|\s]+/g, '_');
+    downloadCsv(
+      [...summary, columns, ...lines],
+      `${name}_${tournament.openedAt?.slice(0, 10) ?? ''}.csv`,
+    );
+  };
+
+  const sortedEntries = [
+    ...remaining.sort(
+      (a, b) =>
+        tableName(a.tableId).localeCompare(tableName(b.tableId)) ||
+        (a.seatId ?? 0) - (b.seatId ?? 0),
+    ),
+    ...tournament.entries
+      .filter((entry) => entry.eliminatedAt)
+      .sort((a, b) => (a.place ?? 0) - (b.place ?? 0)),
+  ];
+
+  return (
+    <section className="setup-panel">
+      <div className="panel-title-row">
+        <div className="panel-title">{tournament.name || t.tournamentTitle}</div>
+        <div className="row-actions">
+          <button type="button" className="btn-pill btn-outline" onClick={handleExport}>
+            {t.exportCsv}
+          </button>
+          <button type="button" className="btn-pill btn-red" onClick={handleNewTournament}>
+            {t.tournamentNew}
+          </button>
+        </div>
+      </div>
+
+      <div className="table-clock-wrapper tournament-clock">
+        <div className="clock-title-row">
+          <div className="clock-title">{levelLabel(clock?.level, clock?.index ?? 0)}</div>
+          <div className={'clock-status-text ' + (tournament.isRunning ? '' : 'stopped')}>
+            {tournament.isRunning ? t.running : t.stopped}
+          </div>
+        </div>
+        <div className="clock-display">{formatHMS(clock?.remainingSeconds ?? 0)}</div>
+        <div className="clock-meta-row">
+          <span>
+            {t.tournamentNext}：{clock ? levelLabel(clock.next, clock.index + 1) : '-'}
+          </span>
+          <span>
+            {t.tournamentElapsed}：{formatHMS(elapsed)}
+          </span>
+          <span>
+            {t.tournamentPlayers(remaining.length, tournament.entries.length)} ·{' '}
+            {t.tournamentAverageStack(
+              remaining.length > 0 ? Math.round(chipsInPlay / remaining.length) : 0,
+            )}{' '}
+            · {t.tournamentPrizePool}：{prizePool}
+          </span>
+        </div>
+        <div className="clock-actions">
+          <button
+            type="button"
+            className="btn-pill btn-green"
+            onClick={() => onChange((prev) => startTournamentClock(prev, Date.now()))}
+          >
+            {t.startOrResume}
+          </button>
+          <button
+            type="button"
+            className="btn-pill btn-yellow"
+            onClick={() => onChange((prev) => pauseTournamentClock(prev, Date.now()))}
+          >
+            {t.pause}
+          </button>
+          <button
+            type="button"
+            className="btn-pill btn-outline"
+            disabled={!clock || clock.index === 0}
+            onClick={() =>
+              onChange((prev) => jumpToLevel(prev, (clock?.index ?? 0) - 1, Date.now()))
+            }
+          >
+            {t.tournamentPrevLevel}
+          </button>
+          <button
+            type="button"
+            className="btn-pill btn-outline"
+            disabled={!clock?.next}
+            onClick={() =>
+              onChange((prev) => jumpToLevel(prev, (clock?.index ?? 0) + 1, Date.now()))
+            }
+          >
+            {t.tournamentNextLevel}
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-group">
+        <div className="panel-title">{t.tournamentEntriesTitle}</div>
+        <div className="filter-row">
+          <input
+            className="member-input"
+            list="member-options"
+            placeholder={t.memberId}
+            value={memberId}
+            onChange={(e) => setMemberId(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRegister();
+            }}
+          />
+          <button type="button" className="btn-pill btn-green" onClick={handleRegister}>
+            {t.tournamentRegister}
+          </button>
+        </div>
+        <div
+          className={
+            'panel-hint ' + (countedChips === chipsInPlay ? 'balance-ok' : 'balance-mismatch')
+          }
+        >
+          {t.tournamentChipCount(countedChips, chipsInPlay)}
+        </div>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>{t.tournamentPlace}</th>
+              <th>{t.csvHeaderMember}</th>
+              <th>{t.csvHeaderTable}</th>
+              <th>{t.csvHeaderSeat}</th>
+              <th>{t.tournamentEntries}</th>
+              <th>{t.tournamentAddOns}</th>
+              <th>{t.tournamentChips}</th>
+              <th>{t.setupActions}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedEntries.length === 0 && (
+              <tr>
+                <td colSpan={8}>{t.tournamentNoEntries}</td>
+              </tr>
+            )}
+            {sortedEntries.map((entry) => (
+              <tr key={entry.id} className={entry.eliminatedAt ? 'row-muted' : ''}>
+                <td>{entry.place ?? '-'}</td>
+                <td>{entry.memberId}</td>
+                <td>{tableName(entry.tableId)}</td>
+                <td>{entry.seatId ?? '-'}</td>
+                <td>{entry.entries}</td>
+                <td>{entry.addOns}</td>
+                <td>
+                  {entry.eliminatedAt ? (
+                    entry.eliminatedAt.slice(11)
+                  ) : (
+                    <input
+                      className="info-input filter-input-short"
+                      inputMode="numeric"
+                      value={entry.chips}
+                      onChange={(e) =>
+                        onChange((prev) => setEntryChips(prev, entry.id, toNumber(e.target.value)))
+                      }
+                    />
+                  )}
+                </td>
+                <td>
+                  {!entry.eliminatedAt && (
+                    <div className="row-actions">
+                      {tournament.addOnChips > 0 && (
+                        <button
+                          type="button"
+                          className="seat-btn btn-xs-yellow"
+                          onClick={() => onChange((prev) => addOnEntry(prev, entry.id))}
+                        >
+                          {t.tournamentAddOn}
+                        </button>
+                      )}
+                      {entry.place !== 1 && (
+                        <button
+                          type="button"
+                          className="seat-btn btn-xs-red"
+                          onClick={() => handleEliminate(entry.id, entry.memberId)}
+                        >
+                          {t.tournamentEliminate}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="settings-group">
+        <div className="panel-title">{t.tournamentBalanceTitle}</div>
+        {moves.length === 0 ? (
+          <div className="panel-hint">{t.tournamentBalanced}</div>
+        ) : (
+          <>
+            <ul className="change-list">
+              {moves.map((move) => (
+                <li key={move.entryId}>
+                  {t.tournamentMove(
+                    move.memberId,
+                    move.fromTableId == null
+                      ? '-'
+                      : `${tableName(move.fromTableId)} #${move.fromSeatId}`,
+                    `${tableName(move.toTableId)} #${move.toSeatId}`,
+                  )}
+                </li>
+              ))}
+            </ul>
+            <div className="panel-footer-row">
+              <button
+                type="button"
+                className="btn-pill btn-green"
+                onClick={() => onChange((prev) => applyTournamentMoves(prev, moves))}
+              >
+                {t.tournamentApplyMoves}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="settings-group">
+        <div className="panel-title">{t.tournamentPayoutsTitle}</div>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>{t.tournamentPlace}</th>
+              <th>{t.tournamentPercent}</th>
+              <th>{t.tournamentPrize}</th>
+              <th>{t.setupActions}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tournament.payouts.map((percent, idx) => (
+              <tr key={idx}>
+                <td>{idx + 1}</td>
+                <td>
+                  <input
+                    className="info-input filter-input-short"
+                    inputMode="decimal"
+                    value={percent}
+                    onChange={(e) =>
+                      update({
+                        payouts: tournament.payouts.map((p, i) =>
+                          i === idx ? toNumber(e.target.value) : p,
+                        ),
+                      })
+                    }
+                  />
+                </td>
+                <td>{payouts[idx]}</td>
+                <td>
+                  <button
+                    type="button"
+                    className="seat-btn btn-xs-red"
+                    onClick={() =>
+                      update({ payouts: tournament.payouts.filter((_, i) => i !== idx) })
+                    }
+                  >
+                    {t.setupDelete}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="panel-footer-row">
+          {tournament.payouts.reduce((sum, p) => sum + p, 0) !== 100 && (
+            <span className="panel-hint balance-mismatch">{t.tournamentPayoutsNot100}</span>
+          )}
+          <button
+            type="button"
+            className="btn-pill btn-green"
+            onClick={() => update({ payouts: [...tournament.payouts, 0] })}
+          >
+            {t.tournamentAddPlace}
+          </button>
+        </div>
+      </div>
+
+      <div className="settings-group">
+        <div className="panel-title">{t.tournamentSetupTitle}</div>
+        <div className="filter-row">
+          <label className="inline-field">
+            <span className="info-label">{t.tournamentName}</span>
+            <input
+              className="info-input"
+              value={tournament.name}
+              onChange={(e) => update({ name: e.target.value })}
+            />
+          </label>
+          {(
+            [
+              ['buyIn', t.tournamentBuyIn],
+              ['startingChips', t.tournamentStartingChips],
+              ['addOnCost', t.tournamentAddOnCost],
+              ['addOnChips', t.tournamentAddOnChips],
+              ['reEntryUntilLevel', t.tournamentReEntryUntil],
+            ] as [keyof TournamentState, string][]
+          ).map(([field, label]) => (
+            <label key={field} className="inline-field">
+              <span className="info-label">{label}</span>
+              <input
+                className="info-input filter-input-short"
+                inputMode="numeric"
+                value={tournament[field] as number}
+                onChange={(e) => update({ [field]: toNumber(e.target.value) })}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="filter-row">
+          <span className="info-label">{t.tournamentTables}</span>
+          {activeTables.map((tbl) => (
+            <label key={tbl.id} className="inline-field">
+              <input
+                type="checkbox"
+                checked={tournament.tableIds.includes(tbl.id)}
+                onChange={() => toggleTable(tbl.id)}
+              />
+              <span>
+                {tbl.name} ({tbl.seats.length})
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="panel-hint">{t.tournamentStructureHint}</div>
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>{t.tournamentLevelColumn}</th>
+              <th>{t.stakeSmallBlind}</th>
+              <th>{t.stakeBigBlind}</th>
+              <th>{t.stakeAnte}</th>
+              <th>{t.tournamentMinutes}</th>
+              <th>{t.setupActions}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tournament.levels.map((level, idx) => (
+              <tr key={level.id} className={idx === clock?.index ? 'row-selected' : ''}>
+                <td>
+                  {level.isBreak ? t.tournamentBreak : getLevelNumber(tournament.levels, idx)}
+                </td>
+                {(['smallBlind', 'bigBlind', 'ante'] as const).map((field) => (
+                  <td key={field}>
+                    {!level.isBreak && (
+                      <input
+                        className="info-input filter-input-short"
+                        inputMode="numeric"
+                        value={level[field]}
+                        onChange={(e) => updateLevel(idx, { [field]: toNumber(e.target.value) })}
+                      />
+                    )}
+                  </td>
+                ))}
+                <td>
+                  <input
+                    className="info-input filter-input-short"
+                    inputMode="numeric"
+                    value={level.minutes}
+                    onChange={(e) => updateLevel(idx, { minutes: toNumber(e.target.value) })}
+                  />
+                </td>
+                <td>
+                  <button
+                    type="button"
+                    className="seat-btn btn-xs-red"
+                    onClick={() => removeLevel(idx)}
+                  >
+                    {t.setupDelete}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="panel-footer-row">
+          <button type="button" className="btn-pill btn-outline" onClick={addBreak}>
+            {t.tournamentAddBreak}
+          </button>
+          <button type="button" className="btn-pill btn-green" onClick={addLevel}>
+            {t.tournamentAddLevel}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default TournamentView;
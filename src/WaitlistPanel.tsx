@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import type { Texts } from './texts';
+import { formatHMS } from './time';
+import type { TableState, WaitlistEntry } from './types';
+import { getWaitSeconds } from './waitlist';
+
+interface WaitlistPanelProps {
+  t: Texts;
+  table: TableState;
+  entries: WaitlistEntry[];
+  nowMs: number;
+  onAdd: (memberId: string, byBlinds: boolean) => boolean;
+  onMove: (entryId: string, offset: number) => void;
+  onRemove: (entryId: string) => void;
+  onSeat: (entryId: string) => void;
+}
+
+const WaitlistPanel: React.FC<WaitlistPanelProps> = ({
+  t,
+  table,
+  entries,
+  nowMs,
+  onAdd,
+  onMove,
+  onRemove,
+  onSeat,
+}) => {
+  const [memberId, setMemberId] = useState('');
+  const [byBlinds, setByBlinds] = useState(false);
+  const blinds = table.blinds.trim();
+
+  const handleAdd = () => {
+    if (onAdd(memberId, byBlinds && !!blinds)) setMemberId('');
+  };
+
+  return (
+    <div className="waitlist-card">
+      <div className="info-row">
+        <span className="info-label">{t.waitlistTitle}</span>
+        <span className="cell-sub">{t.waitlistCount(entries.length)}</span>
+      </div>
+
+      {entries.length === 0 && <div className="ledger-empty">{t.waitlistEmpty}</div>}
+      {entries.map((entry, idx) => (
+        <div key={entry.id} className="waitlist-row">
+          <span className="waitlist-pos">{idx + 1}</span>
+          <span className="waitlist-member">
+            {entry.memberId}
+            <span className="cell-sub">
+              {' '}
+              {entry.blinds ? entry.blinds : t.waitlistThisTable} ·{' '}
+              {formatHMS(getWaitSeconds(entry, nowMs))}
+            </span>
+          </span>
+          <button
+            type="button"
+            className="seat-btn btn-outline-xs"
+            onClick={() => onMove(entry.id, -1)}
+          >
+            ↑
+          </button>
+          <button
+            type="button"
+            className="seat-btn btn-outline-xs"
+            onClick={() => onMove(entry.id, 1)}
+          >
+            ↓
+          </button>
+          <button type="button" className="seat-btn btn-xs-green" onClick={() => onSeat(entry.id)}>
+            {t.waitlistSeat}
+          </button>
+          <button type="button" className="seat-btn btn-xs-red" onClick={() => onRemove(entry.id)}>
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div className="waitlist-add">
+        <input
+          className="member-input"
+          list="member-options"
+          placeholder={t.memberId}
+          value={memberId}
+          onChange={(e) => setMemberId(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+        />
+        <select
+          className="setup-select"
+          value={byBlinds && blinds ? 'blinds' : 'table'}
+          onChange={(e) => setByBlinds(e.target.value === 'blinds')}
+        >
+          <option value="table">{t.waitlistThisTable}</option>
+          {blinds && <option value="blinds">{t.waitlistAnyTable(blinds)}</option>}
+        </select>
+        <button type="button" className="seat-btn btn-xs-yellow" onClick={handleAdd}>
+          {t.waitlistAdd}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WaitlistPanel;
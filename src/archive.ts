@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { normalizeSessionRow } from './tables';
+import type { SessionRow, TableState } from './types';
+
+// Closed sessions are copied into IndexedDB as soon as they appear on a table, so they
+// outlive table resets and the localStorage quota. Rows are keyed by their id, so writing
+// the same row twice just replaces it. Undoing the change that wrote a row takes it back out,
+// so a session left, undone and left again is only counted once.
+
+const DB_NAME = 'everwin_poker_archive';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+export interface ArchivedSession extends SessionRow {
+  /** Business (gaming) day the session is booked under, YYYY-MM-DD. */
+  businessDate: string;
+  archivedAt: number;
+}
+
+export interface ArchiveFilter {
+  fromDate?: string;
+  toDate?: string;
+  tableName?: string;
+  memberId?: string;
+  blinds?: string;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openArchive(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = window.indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('businessDate', 'businessDate');
+        store.createIndex('memberId', 'memberId');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function toArchivedSession(row: SessionRow): ArchivedSession {
+  return { ...row, businessDate: row.date, archivedAt: Date.now() };
+}
+
+export async function archiveSessions(rows: SessionRow[]): Promise<void> {
+  if (rows.length === 0) return;
+  const db = await openArchive();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  for (const row of rows) store.put(toArchivedSession(row));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function removeArchivedSessions(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openArchive();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  for (const id of ids) store.delete(id);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function getArchivedIds(): Promise<Set<string>> {
+  const db = await openArchive();
+  const keys = await promisify(db.transaction(STORE).objectStore(STORE).getAllKeys());
+  return new Set(keys.map(String));
+}
+
+/** Rows matching every given filter, oldest first. Text filters match case-insensitively. */
+export async function queryArchive(filter: ArchiveFilter): Promise<ArchivedSession[]> {
+  const db = await openArchive();
+  const index = db.transaction(STORE).objectStore(STORE).index('businessDate');
+  const range =
+    filter.fromDate && filter.toDate
+      ? IDBKeyRange.bound(filter.fromDate, filter.toDate)
+      : filter.fromDate
+      ? IDBKeyRange.lowerBound(filter.fromDate)
+      : filter.toDate
+      ? IDBKeyRange.upperBound(filter.toDate)
+      : undefined;
+  const rows = ((await promisify(index.getAll(range))) as ArchivedSession[]).map((row) => ({
+    ...row,
+    ...normalizeSessionRow(row, ''),
+  }));
+  const member = filter.memberId?.trim().toLowerCase();
+  const blinds = filter.blinds?.trim().toLowerCase();
+  return rows
+    .filter((row) => !filter.tableName || row.tableName === filter.tableName)
+    .filter((row) => !member || row.memberId.toLowerCase().includes(member))
+    .filter((row) => !blinds || row.blinds.toLowerCase().includes(blinds))
+    .sort((a, b) => a.endTime.localeCompare(b.endTime));
+}
+
+export interface ArchiveUndoPlan {
+  /** Rows the step created; undoing it takes them off the tables, so they leave the archive. */
+  remove: string[];
+  /** Rows the step edited, in the version the undo or redo puts back. */
+  rewrite: SessionRow[];
+}
+
+/** What undoing or redoing the change from `before` to `after` means for the archive. */
+export function planArchiveUndo(
+  before: TableState[],
+  after: TableState[],
+  direction: 'undo' | 'redo',
+): ArchiveUndoPlan {
+  const rowsById = (tables: TableState[]) =>
+    new Map(tables.flatMap((tbl) => tbl.sessions).map((row) => [row.id, row]));
+  const beforeRows = rowsById(before);
+  const afterRows = rowsById(after);
+  const [from, to] = direction === 'undo' ? [afterRows, beforeRows] : [beforeRows, afterRows];
+  return {
+    // A redo brings created rows back onto the tables, where the archive picks them up again.
+    remove: direction === 'undo' ? [...afterRows.keys()].filter((id) => !beforeRows.has(id)) : [],
+    rewrite: [...to.values()].filter((row) => from.has(row.id) && from.get(row.id) !== row),
+  };
+}
+
+/**
+ * Copies every session row that is not in the archive yet. Returns a function that brings
+ * the archive in line with an undo or redo.
+ */
+export function useSessionArchive(
+  tables: TableState[],
+): (plan: ArchiveUndoPlan) => Promise<void> {
+  const archivedRef = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    const pending = () =>
+      tables.flatMap((tbl) => tbl.sessions).filter((row) => !archivedRef.current?.has(row.id));
+    const run = async () => {
+      if (!archivedRef.current) archivedRef.current = await getArchivedIds();
+      const rows = pending();
+      if (rows.length === 0) return;
+      await archiveSessions(rows);
+      rows.forEach((row) => archivedRef.current?.add(row.id));
+    };
+    run().catch((err) => console.error('Session archive failed', err));
+  }, [tables]);
+
+  return useCallback(async (plan: ArchiveUndoPlan) => {
+    plan.remove.forEach((id) => archivedRef.current?.delete(id));
+    await removeArchivedSessions(plan.remove);
+    await archiveSessions(plan.rewrite);
+  }, []);
+}
@@ -0,0 +1,276 @@
+import { useCallback } from 'react';
+import { createId } from './ids';
+import { usePersistentState } from './storage';
+import { formatDateTime } from './time';
+import type { SeatState, SessionRow, TableState } from './types';
+
+export const AUDIT_STORAGE_KEY = 'everwin_poker_audit_v1';
+export const UNDO_LIMIT = 50;
+/** Entries kept in the log; older ones are dropped so the log cannot fill localStorage. */
+export const AUDIT_LIMIT = 2000;
+
+export type AuditAction =
+  | 'start'
+  | 'pause'
+  | 'stop'
+  | 'reset'
+  | 'blinds'
+  | 'seat'
+  | 'rest'
+  | 'leave'
+  | 'move'
+  | 'swap'
+  | 'buyIn'
+  | 'voidBuyIn'
+  | 'batchSeat'
+  | 'batchLeave'
+  | 'tableSetup'
+  | 'correctSession'
+  | 'recover'
+  | 'autoLeave'
+  | 'restore'
+  | 'undo'
+  | 'redo';
+
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditEntry {
+  id: string;
+  at: number;
+  time: string;
+  action: AuditAction;
+  tableIds: number[];
+  seatIds: number[];
+  memberIds: string[];
+  staff: string;
+  /** Only the fields that changed, keyed like "Table 1 · S3 · status". */
+  before: Record<string, AuditValue>;
+  after: Record<string, AuditValue>;
+  note: string | null;
+}
+
+export interface AuditMeta {
+  action: AuditAction;
+  /** Tables the change is limited to; omit for changes to the table list itself. */
+  tableIds?: number[];
+  seatIds?: number[];
+  memberIds?: string[];
+  note?: string;
+}
+
+export interface UndoStep {
+  entryId: string;
+  action: AuditAction;
+  tableIds: number[] | null;
+  before: TableState[];
+  after: TableState[];
+}
+
+function flattenTables(tables: TableState[]): Record<string, AuditValue> {
+  const values: Record<string, AuditValue> = {};
+  for (const tbl of tables) {
+    const prefix = `${tbl.name} (#${tbl.id})`;
+    values[`${prefix} · exists`] = true;
+    values[`${prefix} · blinds`] = tbl.blinds;
+    values[`${prefix} · running`] = tbl.isRunning;
+    values[`${prefix} · elapsedSeconds`] = tbl.elapsedSeconds;
+    values[`${prefix} · openedAt`] = tbl.openedAt;
+    values[`${prefix} · closedAt`] = tbl.closedAt;
+    values[`${prefix} · retired`] = tbl.retired;
+    values[`${prefix} · seats`] = tbl.seats.length;
+    values[`${prefix} · sessions`] = tbl.sessions.length;
+    values[`${prefix} · corrections`] = tbl.sessions.reduce(
+      (sum, row) => sum + row.corrections.length,
+      0,
+    );
+    for (const seat of tbl.seats) {
+      const seatPrefix = `${prefix} · S${seat.id}`;
+      values[`${seatPrefix} · status`] = seat.status;
+      values[`${seatPrefix} · member`] = seat.memberId;
+      values[`${seatPrefix} · activeSeconds`] = seat.activeSeconds;
+      values[`${seatPrefix} · restSeconds`] = seat.restSeconds;
+      values[`${seatPrefix} · buyIn`] = seat.buyInAmount;
+    }
+  }
+  return values;
+}
+
+/** Builds a log entry holding only the values that differ between the two states. */
+export function buildAuditEntry(
+  meta: AuditMeta,
+  before: TableState[],
+  after: TableState[],
+  staff: string,
+): AuditEntry {
+  const scope = (list: TableState[]) =>
+    meta.tableIds ? list.filter((tbl) => meta.tableIds?.includes(tbl.id)) : list;
+  const beforeValues = flattenTables(scope(before));
+  const afterValues = flattenTables(scope(after));
+  const changedBefore: Record<string, AuditValue> = {};
+  const changedAfter: Record<string, AuditValue> = {};
+  for (const key of new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)])) {
+    const b = key in beforeValues ? beforeValues[key] : null;
+    const a = key in afterValues ? afterValues[key] : null;
+    if (b !== a) {
+      changedBefore[key] = b;
+      changedAfter[key] = a;
+    }
+  }
+  const now = new Date();
+  return {
+    id: createId(),
+    at: now.getTime(),
+    time: formatDateTime(now),
+    action: meta.action,
+    tableIds: meta.tableIds ?? [],
+    seatIds: meta.seatIds ?? [],
+    memberIds: (meta.memberIds ?? []).filter((id) => id !== ''),
+    staff,
+    before: changedBefore,
+    after: changedAfter,
+    note: meta.note ?? null,
+  };
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/** Batch ticks are screen state, not part of what a step changed. */
+const seatValue = (seat: SeatState | undefined) => seat && { ...seat, selectedForBatch: false };
+
+/** Inserts `item` where it sat in `order`, after the items that came before it there. */
+function insertAt<T extends { id: number | string }>(list: T[], item: T, order: T[]): T[] {
+  const index = order.findIndex((x) => x.id === item.id);
+  const previous = new Set(order.slice(0, index).map((x) => x.id));
+  let at = 0;
+  list.forEach((x, i) => {
+    if (previous.has(x.id)) at = i + 1;
+  });
+  return [...list.slice(0, at), item, ...list.slice(at)];
+}
+
+/** Moves one table from `from` to `to`; null if anything the step touched changed since. */
+function replayTable(current: TableState, from: TableState, to: TableState): TableState | null {
+  const next: TableState = { ...current };
+  const fields = Object.keys({ ...from, ...to }) as (keyof TableState)[];
+  for (const key of fields) {
+    if (key === 'seats' || key === 'sessions' || sameJson(from[key], to[key])) continue;
+    if (!sameJson(current[key], from[key])) return null;
+    (next as unknown as Record<string, unknown>)[key] = to[key];
+  }
+
+  const seatIds = (seats: SeatState[]) => seats.map((seat) => seat.id);
+  if (!sameJson(seatIds(from.seats), seatIds(to.seats))) {
+    // Seats were added or removed, so the whole row of seats has to be as the step left it.
+    if (!sameJson(from.seats.map(seatValue), current.seats.map(seatValue))) return null;
+    next.seats = to.seats;
+  } else {
+    const seats: SeatState[] = [];
+    for (const seat of current.seats) {
+      const a = from.seats.find((s) => s.id === seat.id);
+      const b = to.seats.find((s) => s.id === seat.id);
+      if (!a || !b || sameJson(seatValue(a), seatValue(b))) {
+        seats.push(seat);
+        continue;
+      }
+      if (!sameJson(seatValue(seat), seatValue(a))) return null;
+      seats.push({ ...b, selectedForBatch: seat.selectedForBatch });
+    }
+    next.seats = seats;
+  }
+
+  const fromRows = new Map(from.sessions.map((row) => [row.id, row]));
+  const toRows = new Map(to.sessions.map((row) => [row.id, row]));
+  let sessions: SessionRow[] = [];
+  for (const row of current.sessions) {
+    const a = fromRows.get(row.id);
+    const b = toRows.get(row.id);
+    if (a && !sameJson(row, a) && !sameJson(a, b)) return null;
+    if (a && !b) continue;
+    sessions.push(a && b ? b : row);
+  }
+  for (const [id, a] of fromRows) {
+    // A row the step edited that has left the table since cannot be put back.
+    if (toRows.has(id) && !sameJson(a, toRows.get(id)) && !sessions.some((r) => r.id === id)) {
+      return null;
+    }
+  }
+  for (const row of to.sessions) {
+    if (fromRows.has(row.id)) continue;
+    if (current.sessions.some((r) => r.id === row.id)) return null;
+    sessions = insertAt(sessions, row, to.sessions);
+  }
+  next.sessions = sessions;
+  return next;
+}
+
+/**
+ * Takes the tables in scope from `from` to `to` (a step's after and before for an undo, the
+ * other way round for a redo), changing only the fields, seats and session rows the step
+ * changed. Returns null when any of those was changed again since, so the undo cannot wipe
+ * out later work.
+ */
+export function replayTables(
+  current: TableState[],
+  from: TableState[],
+  to: TableState[],
+  tableIds: number[] | null,
+): TableState[] | null {
+  const inScope = (id: number) => !tableIds || tableIds.includes(id);
+  let next: TableState[] = [];
+  for (const tbl of current) {
+    const a = from.find((x) => x.id === tbl.id);
+    const b = to.find((x) => x.id === tbl.id);
+    if (!inScope(tbl.id) || !a) {
+      if (inScope(tbl.id) && b) return null;
+      next.push(tbl);
+    } else if (!b) {
+      // The step created this table; it goes only if nothing happened on it since.
+      if (!sameJson(tbl, a)) return null;
+    } else {
+      const replayed = replayTable(tbl, a, b);
+      if (!replayed) return null;
+      next.push(replayed);
+    }
+  }
+  for (const tbl of to) {
+    if (!inScope(tbl.id) || from.some((x) => x.id === tbl.id)) continue;
+    next = insertAt(next, tbl, to);
+  }
+  // A table the step changed that has been removed since cannot be put back.
+  const removed = from.filter((tbl) => inScope(tbl.id) && !current.some((x) => x.id === tbl.id));
+  if (removed.some((tbl) => to.some((x) => x.id === tbl.id))) return null;
+  const ids = (list: TableState[]) => list.map((tbl) => tbl.id);
+  const shared = (list: TableState[], other: TableState[]) =>
+    ids(list).filter((id) => ids(other).includes(id));
+  if (!tableIds && !sameJson(shared(from, to), shared(to, from))) {
+    // The step reordered the tables; that only goes back while nobody has reordered since.
+    if (!sameJson(ids(current), ids(from))) return null;
+    next = ids(to).flatMap((id) => next.filter((tbl) => tbl.id === id));
+  }
+  return next;
+}
+
+/**
+ * Action log holding the newest AUDIT_LIMIT entries, persisted so it survives reloads and
+ * table resets.
+ */
+export function useAuditLog(): [
+  AuditEntry[],
+  (entry: AuditEntry) => void,
+  (entries: AuditEntry[]) => void,
+] {
+  const [log, setLog] = usePersistentState<AuditEntry[]>(AUDIT_STORAGE_KEY, []);
+
+  const append = useCallback(
+    (entry: AuditEntry) => setLog((prev) => [...prev, entry].slice(-AUDIT_LIMIT)),
+    [setLog],
+  );
+
+  /** Swaps in a whole log, as when a backup is imported. */
+  const replace = useCallback(
+    (entries: AuditEntry[]) => setLog(entries.slice(-AUDIT_LIMIT)),
+    [setLog],
+  );
+
+  return [log, append, replace];
+}
@@ -0,0 +1,309 @@
+import type { ArchivedSession } from './archive';
+import { AUDIT_LIMIT, type AuditEntry } from './audit';
+import { findMember, upsertMembers } from './members';
+import { DEFAULT_SETTINGS, type AppSettings } from './settings';
+import {
+  TABLES_STORAGE_VERSION,
+  createInitialSeat,
+  findMemberSeatings,
+  isSeatOccupied,
+  isTableInUse,
+  normalizeSessionRow,
+  normalizeTables,
+} from './tables';
+import { createTournament } from './tournament';
+import type {
+  Member,
+  SeatState,
+  ShiftRecord,
+  StaffAccount,
+  TableState,
+  TournamentState,
+  WaitlistEntry,
+} from './types';
+
+export const BACKUP_FORMAT = 'everwin-poker-backup';
+export const BACKUP_VERSION = 2;
+
+/** Everything a device holds. */
+export interface BackupData {
+  tables: TableState[];
+  settings: AppSettings;
+  members: Member[];
+  waitlist: WaitlistEntry[];
+  tournament: TournamentState;
+  staff: StaffAccount[];
+  shifts: ShiftRecord[];
+  /** Session archive; missing from version 1 files, whose import leaves the archive alone. */
+  archive?: ArchivedSession[];
+  /** Action log; missing from version 1 files, whose import leaves the log alone. */
+  audit?: AuditEntry[];
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  tablesVersion: number;
+  exportedAt: string;
+  data: BackupData;
+}
+
+export type BackupMode = 'merge' | 'replace';
+
+export function buildBackup(data: BackupData, exportedAt: string): BackupFile {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    tablesVersion: TABLES_STORAGE_VERSION,
+    exportedAt,
+    data,
+  };
+}
+
+export type BackupProblem = 'notJson' | 'notBackup' | 'newerVersion' | 'invalid';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isListOf = (value: unknown, check: (item: Record<string, unknown>) => boolean) =>
+  Array.isArray(value) && value.every((item) => isObject(item) && check(item));
+
+function isValidData(data: Record<string, unknown>): boolean {
+  return (
+    isListOf(
+      data.tables,
+      (tbl) =>
+        typeof tbl.id === 'number' &&
+        typeof tbl.name === 'string' &&
+        isListOf(tbl.seats, (seat) => typeof seat.id === 'number') &&
+        isListOf(tbl.sessions, (row) => typeof row.memberId === 'string'),
+    ) &&
+    isObject(data.settings) &&
+    isListOf(data.members, (m) => typeof m.id === 'string') &&
+    isListOf(data.waitlist, (e) => typeof e.id === 'string' && typeof e.memberId === 'string') &&
+    isObject(data.tournament) &&
+    isListOf(data.staff, (s) => typeof s.id === 'string' && typeof s.pinHash === 'string') &&
+    isListOf(data.shifts, (s) => typeof s.id === 'string') &&
+    (data.archive === undefined ||
+      isListOf(
+        data.archive,
+        (row) =>
+          typeof row.id === 'string' &&
+          typeof row.memberId === 'string' &&
+          typeof row.businessDate === 'string',
+      )) &&
+    (data.audit === undefined ||
+      isListOf(
+        data.audit,
+        (e) => typeof e.id === 'string' && typeof e.at === 'number' && typeof e.action === 'string',
+      ))
+  );
+}
+
+/** Reads a backup file, bringing older table shapes up to date. */
+export function parseBackup(text: string): BackupFile | BackupProblem {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return 'notJson';
+  }
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) return 'notBackup';
+  if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) return 'newerVersion';
+  if (typeof parsed.exportedAt !== 'string' || !isObject(parsed.data)) return 'invalid';
+  if (!isValidData(parsed.data)) return 'invalid';
+  const data = parsed.data as unknown as BackupData;
+  return {
+    ...(parsed as unknown as BackupFile),
+    data: {
+      ...data,
+      tables: normalizeTables(data.tables),
+      settings: { ...DEFAULT_SETTINGS, ...data.settings },
+      tournament: { ...createTournament(), ...data.tournament },
+      archive: data.archive?.map((row) => ({ ...row, ...normalizeSessionRow(row, '') })),
+    },
+  };
+}
+
+function unionById<T extends { id: string }>(current: T[], incoming: T[]): T[] {
+  const ids = new Set(current.map((item) => item.id));
+  return [...current, ...incoming.filter((item) => !ids.has(item.id))];
+}
+
+/**
+ * True for an occupied seat from the file that must not come back: its player is seated in
+ * `tables` already, or the session it holds has since been closed there.
+ */
+function isStaleSeat(seat: SeatState, tables: TableState[]): boolean {
+  if (findMemberSeatings(tables, seat.memberId).length > 0) return true;
+  const memberId = seat.memberId.trim().toLowerCase();
+  return tables.some((tbl) =>
+    tbl.sessions.some(
+      (row) =>
+        row.memberId.trim().toLowerCase() === memberId && row.startTime === seat.sessionStart,
+    ),
+  );
+}
+
+/**
+ * Merges one table. Session rows are combined; a seat is taken from the file only where
+ * this device has it empty and `isStale` lets it through, so players seated here are never
+ * overwritten or seated twice. The clock and blinds come from the file only when the table
+ * is not in use here.
+ */
+function mergeTable(
+  current: TableState,
+  incoming: TableState,
+  isStale: (seat: SeatState) => boolean,
+): TableState {
+  const base = isTableInUse(current) || !isTableInUse(incoming) ? current : incoming;
+  const seats = current.seats.map((seat) => {
+    const other = incoming.seats.find((s) => s.id === seat.id);
+    return !isSeatOccupied(seat) && other && isSeatOccupied(other) && !isStale(other)
+      ? other
+      : seat;
+  });
+  return {
+    ...base,
+    name: current.name,
+    retired: current.retired,
+    seats,
+    sessions: unionById(current.sessions, incoming.sessions),
+  };
+}
+
+export function mergeBackup(current: BackupData, incoming: BackupData): BackupData {
+  // Tables are merged one at a time so each one is checked against the seats taken so far.
+  const tables = [...current.tables];
+  const isStale = (seat: SeatState) => isStaleSeat(seat, tables);
+  for (const other of incoming.tables) {
+    const idx = tables.findIndex((tbl) => tbl.id === other.id);
+    if (idx >= 0) {
+      tables[idx] = mergeTable(tables[idx], other, isStale);
+    } else {
+      tables.push({
+        ...other,
+        seats: other.seats.map((seat) =>
+          isSeatOccupied(seat) && isStale(seat) ? createInitialSeat(seat.id) : seat,
+        ),
+      });
+    }
+  }
+  return {
+    tables,
+    settings: current.settings,
+    members: upsertMembers(
+      current.members,
+      incoming.members.filter((m) => !findMember(current.members, m.id)),
+    ),
+    waitlist: unionById(current.waitlist, incoming.waitlist),
+    tournament: current.tournament.entries.length > 0 ? current.tournament : incoming.tournament,
+    staff: unionById(current.staff, incoming.staff),
+    shifts: unionById(current.shifts, incoming.shifts),
+    archive: incoming.archive && unionById(current.archive ?? [], incoming.archive),
+    audit:
+      incoming.audit &&
+      unionById(current.audit ?? [], incoming.audit)
+        .sort((a, b) => a.at - b.at)
+        .slice(-AUDIT_LIMIT),
+  };
+}
+
+export interface TablePreview {
+  id: number;
+  name: string;
+  status: 'added' | 'changed' | 'same' | 'removed';
+  seatedBefore: number;
+  seatedAfter: number;
+  sessionsBefore: number;
+  sessionsAfter: number;
+  /** Seats occupied on both sides by different players; this device keeps its own. */
+  conflicts: number[];
+  /** Seats from the file left out because the player is seated here or already left. */
+  skipped: number[];
+}
+
+export interface BackupPreview {
+  tables: TablePreview[];
+  members: [number, number];
+  waitlist: [number, number];
+  staff: [number, number];
+  shifts: [number, number];
+  /** Null when the file has no archive or log, so the import leaves this device's as it is. */
+  archive: [number, number] | null;
+  audit: [number, number] | null;
+}
+
+const countSeated = (tbl: TableState | undefined) =>
+  tbl ? tbl.seats.filter(isSeatOccupied).length : 0;
+
+/** What the import would change, as before / after counts per table and per list. */
+export function previewBackup(
+  current: BackupData,
+  incoming: BackupData,
+  mode: BackupMode,
+): BackupPreview {
+  const result = mode === 'merge' ? mergeBackup(current, incoming) : incoming;
+  const ids = Array.from(new Set([...current.tables, ...result.tables].map((tbl) => tbl.id)));
+  const tables = ids.map((id): TablePreview => {
+    const before = current.tables.find((tbl) => tbl.id === id);
+    const after = result.tables.find((tbl) => tbl.id === id);
+    const other = incoming.tables.find((tbl) => tbl.id === id);
+    const conflicts =
+      mode === 'merge' && before && other
+        ? before.seats
+            .filter((seat) => {
+              const theirs = other.seats.find((s) => s.id === seat.id);
+              return (
+                isSeatOccupied(seat) &&
+                !!theirs &&
+                isSeatOccupied(theirs) &&
+                theirs.memberId !== seat.memberId
+              );
+            })
+            .map((seat) => seat.id)
+        : [];
+    const skipped =
+      mode === 'merge' && other
+        ? other.seats
+            .filter((theirs) => {
+              const mine = before?.seats.find((s) => s.id === theirs.id);
+              const kept = after?.seats.find((s) => s.id === theirs.id);
+              return (
+                isSeatOccupied(theirs) &&
+                !(mine && isSeatOccupied(mine)) &&
+                kept?.sessionStart !== theirs.sessionStart
+              );
+            })
+            .map((seat) => seat.id)
+        : [];
+    return {
+      id,
+      name: (after ?? before)?.name ?? '',
+      status: !before
+        ? 'added'
+        : !after
+        ? 'removed'
+        : JSON.stringify(before) === JSON.stringify(after)
+        ? 'same'
+        : 'changed',
+      seatedBefore: countSeated(before),
+      seatedAfter: countSeated(after),
+      sessionsBefore: before?.sessions.length ?? 0,
+      sessionsAfter: after?.sessions.length ?? 0,
+      conflicts,
+      skipped,
+    };
+  });
+  return {
+    tables,
+    members: [current.members.length, result.members.length],
+    waitlist: [current.waitlist.length, result.waitlist.length],
+    staff: [current.staff.length, result.staff.length],
+    shifts: [current.shifts.length, result.shifts.length],
+    archive: result.archive
+      ? [current.archive?.length ?? 0, result.archive.length]
+      : null,
+    audit: result.audit ? [current.audit?.length ?? 0, result.audit.length] : null,
+  };
+}
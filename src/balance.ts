@@ -0,0 +1,66 @@
+import { getActiveTables, getOpenSeats, isSeatOccupied } from './tables';
+import { parseDateTime } from './time';
+import type { SeatState, TableState } from './types';
+
+export interface BalanceMove {
+  memberId: string;
+  fromTableId: number;
+  fromSeatId: number;
+  toTableId: number;
+  toSeatId: number;
+}
+
+/** Tables only trade players with tables running the same game. */
+const gameKey = (tbl: TableState) =>
+  tbl.stakeId != null ? `stake:${tbl.stakeId}` : `blinds:${tbl.blinds.trim()}`;
+
+const seatedAt = (seat: SeatState) =>
+  (seat.sessionStart ? parseDateTime(seat.sessionStart)?.getTime() : undefined) ?? 0;
+
+/**
+ * Suggested moves that keep running cash tables of the same game within one player of each
+ * other. Each move takes the most recently seated player from the fullest table to the first
+ * open seat at the shortest one. Tables in `excludeTableIds` (e.g. the tournament's) are left
+ * alone.
+ */
+export function planCashBalance(tables: TableState[], excludeTableIds: number[]): BalanceMove[] {
+  const groups = new Map<string, TableState[]>();
+  getActiveTables(tables)
+    .filter((tbl) => tbl.isRunning && !excludeTableIds.includes(tbl.id))
+    .forEach((tbl) => groups.set(gameKey(tbl), [...(groups.get(gameKey(tbl)) ?? []), tbl]));
+
+  const moves: BalanceMove[] = [];
+  groups.forEach((group) => {
+    if (group.length < 2) return;
+    const players = new Map(
+      group.map((tbl) => [
+        tbl.id,
+        tbl.seats.filter(isSeatOccupied).sort((a, b) => seatedAt(a) - seatedAt(b)),
+      ]),
+    );
+    const openSeats = new Map(group.map((tbl) => [tbl.id, getOpenSeats(tbl).map((s) => s.id)]));
+    const counts = new Map(group.map((tbl) => [tbl.id, players.get(tbl.id)?.length ?? 0]));
+    const count = (tbl: TableState) => counts.get(tbl.id) ?? 0;
+
+    for (;;) {
+      const bySize = [...group].sort((a, b) => count(a) - count(b));
+      const shortest = bySize[0];
+      const fullest = bySize[bySize.length - 1];
+      const toSeatId = openSeats.get(shortest.id)?.[0];
+      if (count(fullest) - count(shortest) < 2 || toSeatId == null) break;
+      const seat = players.get(fullest.id)?.pop();
+      if (!seat) break;
+      openSeats.get(shortest.id)?.shift();
+      counts.set(fullest.id, count(fullest) - 1);
+      counts.set(shortest.id, count(shortest) + 1);
+      moves.push({
+        memberId: seat.memberId,
+        fromTableId: fullest.id,
+        fromSeatId: seat.id,
+        toTableId: shortest.id,
+        toSeatId,
+      });
+    }
+  });
+  return moves;
+}
@@ -0,0 +1,19 @@
+export function toCsv(lines: string[][]): string {
+  return lines
+    .map((line) => line.map((v) => `"${(v ?? '').replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+}
+
+/** The byte order mark lets Excel tell the file is UTF-8, so Chinese text is not garbled. */
+export function downloadCsv(lines: string[][], fileName: string): void {
+  downloadBlob(new Blob(['\uFEFF' + toCsv(lines)], { type: 'text/csv;charset=utf-8;' }), fileName);
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
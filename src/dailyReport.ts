@@ -0,0 +1,150 @@
+import { getTableElapsedSeconds, isSeatOccupied } from './tables';
+import { formatDateTime, parseDateTime } from './time';
+import type { SessionRow, TableState } from './types';
+
+/** One stretch of play: a closed session row, or a player still seated now. */
+interface ReportStint {
+  tableId: number;
+  tableName: string;
+  memberId: string;
+  startMs: number;
+  endMs: number;
+  buyIn: number;
+  closed: boolean;
+}
+
+export interface TableDayTotals {
+  tableId: number;
+  tableName: string;
+  openSeconds: number;
+  sessions: number;
+  seatedNow: number;
+  members: number;
+  buyIn: number;
+}
+
+export interface MultiTableMember {
+  memberId: string;
+  tables: string[];
+}
+
+export interface DailyReport {
+  tables: TableDayTotals[];
+  totals: Omit<TableDayTotals, 'tableId' | 'tableName'>;
+  multiTable: MultiTableMember[];
+  peakSeated: number;
+  /** When the peak was first reached, or null if nobody played. */
+  peakAt: string | null;
+}
+
+function toStint(row: SessionRow): ReportStint | null {
+  const start = parseDateTime(row.startTime);
+  const end = parseDateTime(row.endTime);
+  if (!start || !end) return null;
+  return {
+    tableId: row.tableId,
+    tableName: row.tableName,
+    memberId: row.memberId,
+    startMs: start.getTime(),
+    endMs: end.getTime(),
+    buyIn: row.buyInAmount ?? 0,
+    closed: true,
+  };
+}
+
+function liveStints(tbl: TableState, nowMs: number): ReportStint[] {
+  return tbl.seats.filter(isSeatOccupied).map((seat) => ({
+    tableId: tbl.id,
+    tableName: tbl.name,
+    memberId: seat.memberId,
+    startMs: (seat.sessionStart && parseDateTime(seat.sessionStart)?.getTime()) || nowMs,
+    endMs: nowMs,
+    buyIn: seat.buyInAmount + (seat.carriedIn ?? 0),
+    closed: false,
+  }));
+}
+
+function countMembers(stints: ReportStint[]): number {
+  return new Set(stints.map((s) => s.memberId.toLowerCase()).filter(Boolean)).size;
+}
+
+/** Largest number of players seated at once, counting a leave before a seat at the same instant. */
+function findPeak(stints: ReportStint[]): { peakSeated: number; peakAt: string | null } {
+  const events = stints
+    .flatMap((s) => [
+      { at: s.startMs, delta: 1 },
+      { at: s.endMs, delta: -1 },
+    ])
+    .sort((a, b) => a.at - b.at || a.delta - b.delta);
+  let seated = 0;
+  let peakSeated = 0;
+  let peakAt: number | null = null;
+  for (const event of events) {
+    seated += event.delta;
+    if (seated > peakSeated) {
+      peakSeated = seated;
+      peakAt = event.at;
+    }
+  }
+  return { peakSeated, peakAt: peakAt == null ? null : formatDateTime(new Date(peakAt)) };
+}
+
+/**
+ * Totals for the closed session rows given, plus the players seated right now. Rows from
+ * tables removed since still count under the name they were played at; open hours come from
+ * each current table's own clock.
+ */
+export function buildDailyReport(
+  tables: TableState[],
+  rows: SessionRow[],
+  nowMs: number,
+): DailyReport {
+  const stints = [
+    ...rows.map(toStint).filter((s): s is ReportStint => s != null),
+    ...tables.flatMap((tbl) => liveStints(tbl, nowMs)),
+  ];
+
+  const tableIds = Array.from(
+    new Set([...tables.map((tbl) => tbl.id), ...stints.map((s) => s.tableId)]),
+  );
+  const perTable = tableIds
+    .map((tableId): TableDayTotals => {
+      const tbl = tables.find((x) => x.id === tableId);
+      const own = stints.filter((s) => s.tableId === tableId);
+      return {
+        tableId,
+        tableName: tbl?.name ?? own[0]?.tableName ?? '',
+        openSeconds: tbl ? getTableElapsedSeconds(tbl, nowMs) : 0,
+        sessions: own.filter((s) => s.closed).length,
+        seatedNow: own.filter((s) => !s.closed).length,
+        members: countMembers(own),
+        buyIn: own.reduce((sum, s) => sum + s.buyIn, 0),
+      };
+    })
+    .filter((row) => row.openSeconds > 0 || row.sessions > 0 || row.seatedNow > 0);
+
+  const byMember = new Map<string, { memberId: string; tables: Set<string> }>();
+  for (const stint of stints) {
+    if (!stint.memberId) continue;
+    const key = stint.memberId.toLowerCase();
+    const entry = byMember.get(key) ?? { memberId: stint.memberId, tables: new Set<string>() };
+    entry.tables.add(stint.tableName);
+    byMember.set(key, entry);
+  }
+  const multiTable = Array.from(byMember.values())
+    .filter((entry) => entry.tables.size > 1)
+    .map((entry) => ({ memberId: entry.memberId, tables: Array.from(entry.tables) }));
+
+  return {
+    tables: perTable,
+    totals: {
+      openSeconds: perTable.reduce((sum, row) => sum + row.openSeconds, 0),
+      sessions: perTable.reduce((sum, row) => sum + row.sessions, 0),
+      seatedNow: perTable.reduce((sum, row) => sum + row.seatedNow, 0),
+      members: countMembers(stints),
+      buyIn: perTable.reduce((sum, row) => sum + row.buyIn, 0),
+    },
+    multiTable,
+    ...findPeak(stints),
+  };
+}
@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from 'react';
+import type { Texts } from './texts';
+
+export interface NumberOptions {
+  /** Value each field starts with; empty when left out. */
+  initial?: number;
+  /** Smallest accepted value. */
+  min?: number;
+}
+
+export interface TextOptions {
+  /** Hides what is typed, for PINs. */
+  secret?: boolean;
+  /** Shows the digit keypad under the field. */
+  keypad?: boolean;
+  /** Returns the message to show when the value cannot be accepted. */
+  validate?: (value: string) => string | null;
+}
+
+/** One labelled amount field in a multi-amount dialog, e.g. one per seat. */
+export interface AmountRow {
+  key: number;
+  label: string;
+}
+
+/** In-app stand-ins for window.alert/confirm/prompt. Nothing blocks while they are open. */
+export interface Dialogs {
+  alert: (message: string) => Promise<void>;
+  confirm: (message: string) => Promise<boolean>;
+  /** Resolves with the number entered, or null when cancelled. */
+  promptNumber: (message: string, options?: NumberOptions) => Promise<number | null>;
+  promptText: (message: string, options?: TextOptions) => Promise<string | null>;
+  /** Resolves with one number per row, by row key, or null when cancelled. */
+  promptAmounts: (
+    message: string,
+    rows: AmountRow[],
+    options?: NumberOptions,
+  ) => Promise<Map<number, number> | null>;
+}
+
+type DialogRequest = { id: number; message: string } & (
+  | { kind: 'alert'; resolve: () => void }
+  | { kind: 'confirm'; resolve: (ok: boolean) => void }
+  | { kind: 'text'; options: TextOptions; resolve: (value: string | null) => void }
+  | {
+      kind: 'amounts';
+      rows: AmountRow[];
+      options: NumberOptions;
+      resolve: (values: Map<number, number> | null) => void;
+    }
+);
+
+const AMOUNT_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '.', '0', '⌫'];
+const PIN_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'C', '0', '⌫'];
+
+let nextDialogId = 1;
+
+function parseAmount(raw: string, min = 0): number | null {
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value) || value < min) return null;
+  return value;
+}
+
+const pressKey = (value: string, key: string) => {
+  if (key === '⌫') return value.slice(0, -1);
+  if (key === 'C') return '';
+  if (key === '.' && value.includes('.')) return value;
+  return value + key;
+};
+
+interface KeypadProps {
+  keys: string[];
+  onKey: (key: string) => void;
+}
+
+const Keypad: React.FC<KeypadProps> = ({ keys, onKey }) => (
+  <div className="dialog-keypad">
+    {keys.map((key) => (
+      <button key={key} type="button" className="dialog-key" onClick={() => onKey(key)}>
+        {key}
+      </button>
+    ))}
+  </div>
+);
+
+interface DialogBoxProps {
+  t: Texts;
+  request: DialogRequest;
+  onClose: () => void;
+}
+
+const DialogBox: React.FC<DialogBoxProps> = ({ t, request, onClose }) => {
+  const rows = request.kind === 'amounts' ? request.rows : [{ key: 0, label: '' }];
+  const [values, setValues] = useState(() =>
+    rows.map(() =>
+      request.kind === 'amounts' && request.options.initial != null
+        ? String(request.options.initial)
+        : '',
+    ),
+  );
+  const [activeRow, setActiveRow] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const setValue = (index: number, value: string) => {
+    setValues((prev) => prev.map((v, i) => (i === index ? value : v)));
+    setError(null);
+  };
+
+  const submit = () => {
+    switch (request.kind) {
+      case 'alert':
+        request.resolve();
+        break;
+      case 'confirm':
+        request.resolve(true);
+        break;
+      case 'text': {
+        const problem = request.options.validate?.(values[0]) ?? null;
+        if (problem) {
+          setError(problem);
+          return;
+        }
+        request.resolve(values[0]);
+        break;
+      }
+      case 'amounts': {
+        const result = new Map<number, number>();
+        for (let i = 0; i < rows.length; i++) {
+          const amount = parseAmount(values[i], request.options.min);
+          if (amount == null) {
+            setActiveRow(i);
+            setError(t.invalidNumber);
+            return;
+          }
+          result.set(rows[i].key, amount);
+        }
+        request.resolve(result);
+        break;
+      }
+    }
+    onClose();
+  };
+
+  const cancel = () => {
+    if (request.kind === 'alert') request.resolve();
+    else if (request.kind === 'confirm') request.resolve(false);
+    else request.resolve(null);
+    onClose();
+  };
+
+  const input = (index: number) => {
+    const secret = request.kind === 'text' && request.options.secret;
+    return (
+      <input
+        className={'info-input ' + (index === activeRow && error ? 'dialog-input-error' : '')}
+        type={secret ? 'password' : 'text'}
+        inputMode={request.kind === 'amounts' ? 'decimal' : secret ? 'numeric' : undefined}
+        autoFocus={index === 0}
+        value={values[index]}
+        onFocus={() => setActiveRow(index)}
+        onChange={(e) => setValue(index, e.target.value)}
+      />
+    );
+  };
+
+  const keypad =
+    request.kind === 'amounts'
+      ? AMOUNT_KEYS
+      : request.kind === 'text' && request.options.keypad
+      ? PIN_KEYS
+      : null;
+
+  return (
+    <div className="dialog-backdrop">
+      <div
+        className="setup-panel dialog-box"
+        role="dialog"
+        aria-modal="true"
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            submit();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            cancel();
+          }
+        }}
+      >
+        <div className="dialog-message">{request.message}</div>
+        {request.kind === 'text' && input(0)}
+        {request.kind === 'amounts' &&
+          (rows.length === 1 && !rows[0].label ? (
+            input(0)
+          ) : (
+            <div className="dialog-rows">
+              {rows.map((row, index) => (
+                <label key={row.key} className="inline-field">
+                  <span className="info-label">{row.label}</span>
+                  {input(index)}
+                </label>
+              ))}
+            </div>
+          ))}
+        {error && <div className="panel-hint balance-mismatch">{error}</div>}
+        {keypad && (
+          <Keypad
+            keys={keypad}
+            onKey={(key) => setValue(activeRow, pressKey(values[activeRow], key))}
+          />
+        )}
+        <div className="panel-footer-row">
+          {request.kind !== 'alert' && (
+            <button type="button" className="btn-pill btn-outline" onClick={cancel}>
+              {t.dialogCancel}
+            </button>
+          )}
+          <button
+            type="button"
+            className="btn-pill btn-green"
+            autoFocus={request.kind === 'alert' || request.kind === 'confirm'}
+            onClick={submit}
+          >
+            {t.dialogOk}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Queues dialogs and shows them one at a time. Render the returned element once near the
+ * top of the app; it is null while no dialog is open.
+ */
+export function useDialogs(t: Texts): [Dialogs, React.ReactNode] {
+  const [queue, setQueue] = useState<DialogRequest[]>([]);
+
+  const dialogs = useMemo<Dialogs>(() => {
+    const open = (request: DialogRequest) => setQueue((prev) => [...prev, request]);
+    const promptAmounts: Dialogs['promptAmounts'] = (message, rows, options = {}) =>
+      new Promise((resolve) =>
+        open({ id: nextDialogId++, kind: 'amounts', message, rows, options, resolve }),
+      );
+    return {
+      alert: (message) =>
+        new Promise((resolve) => open({ id: nextDialogId++, kind: 'alert', message, resolve })),
+      confirm: (message) =>
+        new Promise((resolve) => open({ id: nextDialogId++, kind: 'confirm', message, resolve })),
+      promptNumber: async (message, options) => {
+        const values = await promptAmounts(message, [{ key: 0, label: '' }], options);
+        return values?.get(0) ?? null;
+      },
+      promptText: (message, options = {}) =>
+        new Promise((resolve) =>
+          open({ id: nextDialogId++, kind: 'text', message, options, resolve }),
+        ),
+      promptAmounts,
+    };
+  }, []);
+
+  const current = queue[0];
+  const element = current ? (
+    <DialogBox
+      key={current.id}
+      t={t}
+      request={current}
+      onClose={() => setQueue((prev) => prev.slice(1))}
+    />
+  ) : null;
+  return [dialogs, element];
+}
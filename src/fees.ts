@@ -0,0 +1,57 @@
+import type { AppSettings, FeeRule } from './settings';
+import type { BlindsLevelTime } from './types';
+
+export type FeeSettings = Pick<AppSettings, 'feeSchedule' | 'freeRestMinutes'>;
+
+/** The rule for a blinds level, falling back to the default rule (empty blinds). */
+export function findFeeRule(schedule: FeeRule[], blinds: string): FeeRule | undefined {
+  const key = blinds.trim();
+  return (
+    schedule.find((rule) => rule.blinds.trim() !== '' && rule.blinds.trim() === key) ??
+    schedule.find((rule) => rule.blinds.trim() === '')
+  );
+}
+
+/**
+ * Seat-time charge: every started block of billable time costs the amount of the rule for the
+ * level it started at. Rest up to the free allowance is not billed; rest beyond it is.
+ * `levels` is the session's time per blinds level, in the order first played; billable time is
+ * spread over them in proportion. Without levels the whole session is billed at `blinds`.
+ */
+export function computeTimeCharge(
+  activeSeconds: number,
+  restSeconds: number,
+  blinds: string,
+  settings: FeeSettings,
+  levels: BlindsLevelTime[] = [],
+): number {
+  const billableRest = Math.max(0, restSeconds - settings.freeRestMinutes * 60);
+  const billable = activeSeconds + billableRest;
+  if (billable <= 0) return 0;
+  const levelSeconds = levels.reduce((sum, level) => sum + level.seconds, 0);
+  // Where each level's share of the billable time ends; the last one ends at `billable`.
+  let played = 0;
+  const parts =
+    levelSeconds > 0
+      ? levels.map((level) => {
+          played += level.seconds;
+          return { blinds: level.blinds, end: Math.round((played * billable) / levelSeconds) };
+        })
+      : [{ blinds, end: billable }];
+
+  // Blocks run on across level changes, so a change never starts an extra block.
+  let charge = 0;
+  let pos = 0;
+  for (const { blinds: partBlinds, end: partEnd } of parts) {
+    const rule = findFeeRule(settings.feeSchedule, partBlinds);
+    if (!rule || rule.amount <= 0 || rule.blockMinutes <= 0) {
+      pos = Math.max(pos, partEnd);
+      continue;
+    }
+    while (pos < partEnd) {
+      charge += rule.amount;
+      pos += rule.blockMinutes * 60;
+    }
+  }
+  return charge;
+}
@@ -0,0 +1,4 @@
+/** Short unique id for records created on this device. */
+export function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
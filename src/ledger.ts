@@ -0,0 +1,53 @@
+import { createId } from './ids';
+import { formatDateTime } from './time';
+import type { BuyInEntry, PaymentMethod, SeatState } from './types';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'credit', 'marker'];
+
+export function createBuyInEntry(amount: number, method: PaymentMethod, staff: string): BuyInEntry {
+  return {
+    id: createId(),
+    time: formatDateTime(new Date()),
+    amount,
+    method,
+    staff,
+    voided: false,
+    voidedAt: null,
+    voidedBy: null,
+  };
+}
+
+export function sumBuyIns(entries: BuyInEntry[]): number {
+  return entries.reduce((sum, e) => (e.voided ? sum : sum + e.amount), 0);
+}
+
+/**
+ * Buy-in column text. On a seat the player moved to, the chips brought along are shown with
+ * the transfer note, followed by any rebuys made on this seat.
+ */
+export function formatBuyInDisplay(
+  transferNote: string | null,
+  buyInAmount: number | null,
+  carriedIn: number | null,
+): string {
+  const amount = buyInAmount ?? 0;
+  if (!transferNote) return amount.toString();
+  const carried = carriedIn != null ? `${transferNote} ${carriedIn}` : transferNote;
+  const rebuys = amount - (carriedIn ?? 0);
+  return rebuys > 0 ? `${carried} + ${rebuys}` : carried;
+}
+
+/** Appends a ledger entry and keeps `buyInAmount` equal to the non-voided total. */
+export function addBuyInToSeat(seat: SeatState, entry: BuyInEntry): SeatState {
+  const buyIns = [...seat.buyIns, entry];
+  return { ...seat, buyIns, buyInAmount: sumBuyIns(buyIns) };
+}
+
+export function voidBuyInOnSeat(seat: SeatState, entryId: string, staff: string): SeatState {
+  const buyIns = seat.buyIns.map((e) =>
+    e.id === entryId && !e.voided
+      ? { ...e, voided: true, voidedAt: formatDateTime(new Date()), voidedBy: staff }
+      : e,
+  );
+  return { ...seat, buyIns, buyInAmount: sumBuyIns(buyIns) };
+}
@@ -0,0 +1,61 @@
+import { findMember } from './members';
+import type { Member, SessionRow } from './types';
+
+export interface MemberStats {
+  memberId: string;
+  sessions: number;
+  activeSeconds: number;
+  restSeconds: number;
+  averageSeconds: number;
+  buyIn: number;
+  cashOut: number;
+  net: number;
+  tables: string[];
+  blinds: string[];
+  /** End time of the member's most recent session. */
+  lastVisit: string;
+}
+
+/** Key rows are grouped by; member IDs match ignoring case, as in the registry. */
+export function getMemberKey(memberId: string): string {
+  return memberId.trim().toLowerCase();
+}
+
+/**
+ * Totals per member over the given rows, most hours first. Each member is shown under the
+ * registry's spelling of the ID, or as first seen when it is not registered.
+ */
+export function buildMemberStats(rows: SessionRow[], members: Member[]): MemberStats[] {
+  const byMember = new Map<string, SessionRow[]>();
+  for (const row of rows) {
+    const key = getMemberKey(row.memberId);
+    if (!key) continue;
+    const list = byMember.get(key) ?? [];
+    list.push(row);
+    byMember.set(key, list);
+  }
+
+  return Array.from(byMember.values(), (list) => {
+    const memberId = findMember(members, list[0].memberId)?.id ?? list[0].memberId.trim();
+    const activeSeconds = list.reduce((sum, r) => sum + r.activeSeconds, 0);
+    const buyIn = list.reduce((sum, r) => sum + (r.buyInAmount ?? 0), 0);
+    const cashOut = list.reduce((sum, r) => sum + (r.cashOutAmount ?? 0), 0);
+    return {
+      memberId,
+      sessions: list.length,
+      activeSeconds,
+      restSeconds: list.reduce((sum, r) => sum + r.restSeconds, 0),
+      averageSeconds: Math.round(activeSeconds / list.length),
+      buyIn,
+      cashOut,
+      net: list.reduce((sum, r) => sum + (r.netAmount ?? 0), 0),
+      tables: Array.from(new Set(list.map((r) => r.tableName))),
+      blinds: Array.from(new Set(list.map((r) => r.blinds).filter(Boolean))),
+      lastVisit: list.reduce((last, r) => (r.endTime > last ? r.endTime : last), ''),
+    };
+  }).sort((a, b) => b.activeSeconds - a.activeSeconds);
+}
+
+export function formatHours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
@@ -0,0 +1,115 @@
+import React from 'react';
+import { usePersistentState } from './storage';
+import type { Member } from './types';
+
+export const MEMBERS_STORAGE_KEY = 'everwin_poker_members_v1';
+
+/** Accepted CSV header names (lower-cased) for each member field. */
+const COLUMN_ALIASES: Record<keyof Member, string[]> = {
+  id: ['id', 'member id', 'memberid', 'member_id', '會員id', '會員 id', '會員編號'],
+  name: ['name', '姓名', '名稱'],
+  phone: ['phone', 'tel', 'mobile', '電話', '手機'],
+  tier: ['tier', 'level', '等級'],
+  notes: ['notes', 'note', '備註'],
+  banned: ['banned', 'ban', '禁止', '黑名單'],
+};
+
+const TRUE_VALUES = ['1', 'true', 'yes', 'y', 'x', 'banned', '是'];
+
+export function createEmptyMember(): Member {
+  return { id: '', name: '', phone: '', tier: '', notes: '', banned: false };
+}
+
+/** Member IDs are matched case-insensitively so "a123" and "A123" are the same player. */
+export function findMember(members: Member[], memberId: string): Member | undefined {
+  const key = memberId.trim().toLowerCase();
+  if (!key) return undefined;
+  return members.find((m) => m.id.toLowerCase() === key);
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i += 1) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+/**
+ * Reads members from a CSV whose first row names the columns. Returns null when no ID
+ * column can be found; rows without an ID are skipped.
+ */
+export function parseMembersCsv(text: string): Member[] | null {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return null;
+  const names = header.map((h) => h.trim().toLowerCase());
+  const columnOf = (field: keyof Member) =>
+    names.findIndex((n) => COLUMN_ALIASES[field].includes(n));
+  const idCol = columnOf('id');
+  if (idCol < 0) return null;
+  const cols = {
+    name: columnOf('name'),
+    phone: columnOf('phone'),
+    tier: columnOf('tier'),
+    notes: columnOf('notes'),
+    banned: columnOf('banned'),
+  };
+  const cellAt = (row: string[], col: number) => (col >= 0 ? (row[col] ?? '').trim() : '');
+
+  return rows
+    .filter((row) => cellAt(row, idCol) !== '')
+    .map((row) => ({
+      id: cellAt(row, idCol),
+      name: cellAt(row, cols.name),
+      phone: cellAt(row, cols.phone),
+      tier: cellAt(row, cols.tier),
+      notes: cellAt(row, cols.notes),
+      banned: TRUE_VALUES.includes(cellAt(row, cols.banned).toLowerCase()),
+    }));
+}
+
+/** Adds or replaces members by ID; later entries win over earlier ones. */
+export function upsertMembers(members: Member[], incoming: Member[]): Member[] {
+  const next = [...members];
+  for (const member of incoming) {
+    const idx = next.findIndex((m) => m.id.toLowerCase() === member.id.toLowerCase());
+    if (idx >= 0) next[idx] = member;
+    else next.push(member);
+  }
+  return next;
+}
+
+export function useMembers(): [Member[], React.Dispatch<React.SetStateAction<Member[]>>] {
+  return usePersistentState<Member[]>(MEMBERS_STORAGE_KEY, []);
+}
@@ -0,0 +1,72 @@
+/** A value saved together with the storage format version it was written in. */
+export interface StoredSnapshot<T> {
+  version: number;
+  savedAt: number;
+  data: T;
+}
+
+const BACKUP_LIMIT = 5;
+const BACKUP_INTERVAL_MS = 15 * 60 * 1000;
+
+function isSnapshot(value: unknown): value is StoredSnapshot<unknown> {
+  return typeof value === 'object' && value !== null && 'version' in value && 'data' in value;
+}
+
+/**
+ * Reads a snapshot from `key`. Bare values saved before snapshots existed come back as
+ * version 0. Returns null when nothing is stored; throws when the stored text is unreadable.
+ */
+export function readSnapshot<T>(key: string): StoredSnapshot<T> | null {
+  const raw = window.localStorage.getItem(key);
+  if (!raw) return null;
+  const parsed: unknown = JSON.parse(raw);
+  return isSnapshot(parsed)
+    ? (parsed as StoredSnapshot<T>)
+    : { version: 0, savedAt: 0, data: parsed as T };
+}
+
+export function writeSnapshot<T>(key: string, version: number, data: T): StoredSnapshot<T> {
+  const snapshot: StoredSnapshot<T> = { version, savedAt: Date.now(), data };
+  window.localStorage.setItem(key, JSON.stringify(snapshot));
+  return snapshot;
+}
+
+/** Rolling backups under `key`, newest first. */
+export function readBackups<T>(key: string): StoredSnapshot<T>[] {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter(isSnapshot).map((s) => s as StoredSnapshot<T>)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Adds `snapshot` to the backups when the newest one is older than the backup interval.
+ * When storage is full the oldest backups are dropped until the list fits.
+ */
+export function pushBackup<T>(key: string, snapshot: StoredSnapshot<T>): void {
+  const backups = readBackups<T>(key);
+  if (backups.length > 0 && snapshot.savedAt - backups[0].savedAt < BACKUP_INTERVAL_MS) return;
+  let next = [snapshot, ...backups].slice(0, BACKUP_LIMIT);
+  while (next.length > 0) {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(next));
+      return;
+    } catch {
+      next = next.slice(0, -1);
+    }
+  }
+  window.localStorage.removeItem(key);
+}
+
+/** Keeps unreadable data aside so the next save does not overwrite it. */
+export function quarantine(key: string, raw: string): void {
+  try {
+    window.localStorage.setItem(`${key}_corrupt_${Date.now()}`, raw);
+  } catch (err) {
+    console.error('Could not keep unreadable data aside', err);
+  }
+}
@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { isSeatOccupied } from './tables';
+import type { SeatState, TableState } from './types';
+
+export const HEARTBEAT_KEY = 'everwin_poker_heartbeat_v1';
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/** Last time this device had the app open, or null on first use. */
+export function readHeartbeat(): number | null {
+  if (typeof window === 'undefined') return null;
+  const value = Number(window.localStorage.getItem(HEARTBEAT_KEY));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function writeHeartbeat(): void {
+  window.localStorage.setItem(HEARTBEAT_KEY, String(Date.now()));
+}
+
+/** Records that the app is alive, so the next start can tell how long it was closed. */
+export function useHeartbeat(): void {
+  useEffect(() => {
+    writeHeartbeat();
+    const id = window.setInterval(writeHeartbeat, HEARTBEAT_INTERVAL_MS);
+    window.addEventListener('pagehide', writeHeartbeat);
+    return () => {
+      window.clearInterval(id);
+      window.removeEventListener('pagehide', writeHeartbeat);
+    };
+  }, []);
+}
+
+export interface InterruptedSeat {
+  tableId: number;
+  tableName: string;
+  seat: SeatState;
+}
+
+/**
+ * Seats still open from before the app went away, when it was gone for longer than the
+ * threshold. Their timers kept running through the outage and need the floor to confirm.
+ */
+export function findInterruptedSeats(
+  tables: TableState[],
+  lastAliveMs: number | null,
+  nowMs: number,
+  thresholdMinutes: number,
+): InterruptedSeat[] {
+  if (lastAliveMs == null || nowMs - lastAliveMs < thresholdMinutes * 60 * 1000) return [];
+  return tables.flatMap((tbl) =>
+    tbl.seats
+      .filter(isSeatOccupied)
+      .map((seat) => ({ tableId: tbl.id, tableName: tbl.name, seat })),
+  );
+}
@@ -0,0 +1,75 @@
+import type { AppSettings } from './settings';
+import { findStake } from './stakes';
+import type { SeatState, TableState } from './types';
+
+/** 'near' once the warning window before the limit starts; 'due' once the grace period is over too. */
+export type RestAlert = 'near' | 'over' | 'due';
+
+/** Minutes a single break may last at this table: its own limit, then its stake's, then the default. 0 means no limit. */
+export function getRestLimitMinutes(tbl: TableState, settings: AppSettings): number {
+  if (tbl.restLimitMinutes != null) return tbl.restLimitMinutes;
+  return findStake(settings.stakes, tbl.stakeId)?.restLimitMinutes || settings.restLimitMinutes;
+}
+
+/** Length of the break the seat is on right now. */
+export function getBreakSeconds(seat: SeatState, nowMs: number): number {
+  if (seat.status !== 'rest' || seat.lastRestStart == null) return 0;
+  return Math.max(0, Math.floor((nowMs - seat.lastRestStart) / 1000));
+}
+
+export function getRestAlert(
+  seat: SeatState,
+  limitMinutes: number,
+  settings: AppSettings,
+  nowMs: number,
+): RestAlert | null {
+  if (limitMinutes <= 0 || seat.status !== 'rest') return null;
+  const seconds = getBreakSeconds(seat, nowMs);
+  const limit = limitMinutes * 60;
+  if (settings.restAutoLeave && seconds >= limit + settings.restGraceMinutes * 60) return 'due';
+  if (seconds >= limit) return 'over';
+  if (seconds >= limit - settings.restWarningMinutes * 60) return 'near';
+  return null;
+}
+
+export interface DueSeat {
+  tableId: number;
+  seatId: number;
+  memberId: string;
+  /** When the grace period ran out; the session is closed as of then. */
+  dueAtMs: number;
+  /** Length of the break at `dueAtMs`. */
+  breakSeconds: number;
+  limitMinutes: number;
+}
+
+/**
+ * Id for the session row an auto-leave writes. Every device showing the table enforces the
+ * policy, so they must all write the same row for the sync merge to keep just one.
+ */
+export function getAutoLeaveRowId(tableId: number, seat: SeatState): string {
+  return `auto-${tableId}-${seat.id}-${seat.sessionStart ?? ''}`;
+}
+
+/** Resting seats past their limit and grace period, when the auto-leave policy is on. */
+export function findDueSeats(
+  tables: TableState[],
+  settings: AppSettings,
+  nowMs: number,
+): DueSeat[] {
+  if (!settings.restAutoLeave) return [];
+  return tables.flatMap((tbl) => {
+    const limitMinutes = getRestLimitMinutes(tbl, settings);
+    const breakSeconds = (limitMinutes + settings.restGraceMinutes) * 60;
+    return tbl.seats
+      .filter((seat) => getRestAlert(seat, limitMinutes, settings, nowMs) === 'due')
+      .map((seat) => ({
+        tableId: tbl.id,
+        seatId: seat.id,
+        memberId: seat.memberId,
+        dueAtMs: (seat.lastRestStart ?? nowMs) + breakSeconds * 1000,
+        breakSeconds,
+        limitMinutes,
+      }));
+  });
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef } from 'react';
+
+/** Card scanners type faster than this between keys; people do not. */
+const SCAN_KEY_GAP_MS = 50;
+const MIN_SCAN_LENGTH = 3;
+
+export interface ScannerHandlers {
+  /** A card was scanned: a fast burst of keys ending in Enter. */
+  onScan: (code: string) => void;
+  /** A single key pressed on its own, outside any text field. */
+  onKey: (key: string) => void;
+}
+
+const isTextField = (el: Element | null) =>
+  el instanceof HTMLInputElement ||
+  el instanceof HTMLTextAreaElement ||
+  el instanceof HTMLSelectElement ||
+  (el instanceof HTMLElement && el.isContentEditable);
+
+/**
+ * Tells scanner bursts from keyboard shortcuts. A shortcut key only fires once no further
+ * key has followed within the scanner's key gap, so the first letter of a scanned ID never
+ * triggers an action. Scans typed into a field marked `data-scan-target` count too, so the
+ * member box of a seat can take a scan directly; other fields keep their input to themselves.
+ */
+export function useScannerInput(enabled: boolean, handlers: ScannerHandlers): void {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    let buffer = '';
+    let lastKeyAt = 0;
+    let pendingKey: number | null = null;
+
+    const cancelPendingKey = () => {
+      if (pendingKey != null) window.clearTimeout(pendingKey);
+      pendingKey = null;
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = document.activeElement;
+      const inField = isTextField(target);
+      if (inField && !(target instanceof HTMLElement && target.dataset.scanTarget)) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > SCAN_KEY_GAP_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        cancelPendingKey();
+        if (buffer.length >= MIN_SCAN_LENGTH) {
+          e.preventDefault();
+          const code = buffer;
+          buffer = '';
+          handlersRef.current.onScan(code);
+        }
+        return;
+      }
+      if (e.key.length !== 1) {
+        if (!inField) {
+          cancelPendingKey();
+          handlersRef.current.onKey(e.key);
+        }
+        return;
+      }
+
+      buffer += e.key;
+      cancelPendingKey();
+      if (!inField && buffer.length === 1) {
+        const key = e.key;
+        pendingKey = window.setTimeout(() => {
+          pendingKey = null;
+          if (buffer === key) handlersRef.current.onKey(key);
+        }, SCAN_KEY_GAP_MS);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      cancelPendingKey();
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [enabled]);
+}
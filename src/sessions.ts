@@ -0,0 +1,169 @@
+import { computeTimeCharge, type FeeSettings } from './fees';
+import { createId } from './ids';
+import { formatBuyInDisplay } from './ledger';
+import { getBlindsLevelsForSession } from './stakes';
+import { formatBusinessDate, formatDateTime, formatHMS, parseDateTime } from './time';
+import type {
+  BlindsLevelTime,
+  SessionEditableField,
+  SessionPatch,
+  SessionRow,
+  TableState,
+} from './types';
+
+export const SESSION_EDITABLE_FIELDS: SessionEditableField[] = [
+  'memberId',
+  'startTime',
+  'endTime',
+  'activeSeconds',
+  'restSeconds',
+  'buyInAmount',
+];
+
+export type CorrectionProblem =
+  | 'noReason'
+  | 'noChange'
+  | 'badTime'
+  | 'endBeforeStart'
+  | 'buyInLedger';
+
+/**
+ * True when the row's buy-in is the sum of its ledger and any chips carried in, so it is
+ * changed through the ledger rather than typed over.
+ */
+export function isBuyInFromLedger(row: SessionRow): boolean {
+  return row.buyIns.length > 0 || !!row.transferNote;
+}
+
+function changedFields(row: SessionRow, patch: SessionPatch): SessionEditableField[] {
+  return SESSION_EDITABLE_FIELDS.filter((field) => field in patch && patch[field] !== row[field]);
+}
+
+export function checkCorrection(
+  row: SessionRow,
+  patch: SessionPatch,
+  reason: string,
+): CorrectionProblem | null {
+  if (!reason.trim()) return 'noReason';
+  const changed = changedFields(row, patch);
+  if (changed.length === 0) return 'noChange';
+  if (changed.includes('buyInAmount') && isBuyInFromLedger(row)) return 'buyInLedger';
+  const start = parseDateTime(patch.startTime ?? row.startTime);
+  const end = parseDateTime(patch.endTime ?? row.endTime);
+  if (!start || !end) return 'badTime';
+  if (end.getTime() < start.getTime()) return 'endBeforeStart';
+  return null;
+}
+
+const spanSeconds = (startTime: string, endTime: string) => {
+  const start = parseDateTime(startTime);
+  const end = parseDateTime(endTime);
+  return start && end ? Math.round((end.getTime() - start.getTime()) / 1000) : 0;
+};
+
+/**
+ * Blinds levels for a session whose start or end moved. The table's blinds history is used
+ * while it still reaches back to the start; otherwise the old split is stretched to fit.
+ */
+function correctBlindsLevels(row: SessionRow, next: SessionRow, table: TableState) {
+  const start = parseDateTime(next.startTime);
+  const end = parseDateTime(next.endTime);
+  if (!start || !end) return row.blindsLevels;
+  const history = table.blindsHistory;
+  if (history.length > 0 && history[0].at <= start.getTime()) {
+    return getBlindsLevelsForSession(table, start.getTime(), end.getTime());
+  }
+  const oldSpan = row.blindsLevels.reduce((sum, level) => sum + level.seconds, 0);
+  const newSpan = spanSeconds(next.startTime, next.endTime);
+  if (oldSpan <= 0) return row.blindsLevels;
+  return row.blindsLevels.map(
+    (level): BlindsLevelTime => ({
+      ...level,
+      seconds: Math.round((level.seconds * newSpan) / oldSpan),
+    }),
+  );
+}
+
+/**
+ * Applies a correction and recomputes the values derived from the edited fields. Moving the
+ * start or end moves the played time by as much, unless that was corrected too, and splits
+ * the blinds levels again. The previous values go into the row's correction list, so nothing
+ * is lost. Check the correction with checkCorrection first.
+ */
+export function correctSessionRow(
+  row: SessionRow,
+  patch: SessionPatch,
+  reason: string,
+  staff: string,
+  settings: FeeSettings,
+  cutoffMinutes: number,
+  table: TableState,
+): SessionRow {
+  const fields = changedFields(row, patch);
+  const spanChanged = fields.includes('startTime') || fields.includes('endTime');
+  const corrected: SessionPatch = { ...patch };
+  if (spanChanged && !fields.includes('activeSeconds')) {
+    const delta =
+      spanSeconds(patch.startTime ?? row.startTime, patch.endTime ?? row.endTime) -
+      spanSeconds(row.startTime, row.endTime);
+    corrected.activeSeconds = Math.max(0, row.activeSeconds + delta);
+  }
+  const before: SessionPatch = {};
+  const after: SessionPatch = {};
+  changedFields(row, corrected).forEach((field) => {
+    Object.assign(before, { [field]: row[field] });
+    Object.assign(after, { [field]: corrected[field] });
+  });
+  const next: SessionRow = { ...row, ...after };
+  const start = parseDateTime(next.startTime);
+  const blindsLevels = spanChanged ? correctBlindsLevels(row, next, table) : row.blindsLevels;
+  const timeChanged = spanChanged || 'activeSeconds' in after || 'restSeconds' in after;
+  return {
+    ...next,
+    blindsLevels,
+    date: start ? formatBusinessDate(start, cutoffMinutes) : row.date,
+    durationHMS: formatHMS(next.activeSeconds),
+    buyInDisplay: formatBuyInDisplay(next.transferNote, next.buyInAmount, next.carriedIn),
+    netAmount:
+      next.cashOutAmount != null &&
+      next.buyInAmount != null &&
+      (!next.transferNote || next.carriedIn != null)
+        ? next.cashOutAmount - next.buyInAmount
+        : null,
+    timeCharge: timeChanged
+      ? computeTimeCharge(
+          next.activeSeconds,
+          next.restSeconds,
+          next.blinds,
+          settings,
+          blindsLevels,
+        )
+      : row.timeCharge,
+    corrections: [
+      ...row.corrections,
+      {
+        id: createId(),
+        time: formatDateTime(new Date()),
+        staff,
+        reason: reason.trim(),
+        before,
+        after,
+      },
+    ],
+  };
+}
+
+/** The row's corrections as one CSV cell: time, staff, reason and each changed value. */
+export function formatCorrections(row: SessionRow): string {
+  return row.corrections
+    .map((correction) => {
+      const changes = (Object.keys(correction.after) as SessionEditableField[])
+        .map(
+          (field) =>
+            `${field}: ${correction.before[field] ?? ''} → ${correction.after[field] ?? ''}`,
+        )
+        .join(', ');
+      return `${correction.time} ${correction.staff}: ${correction.reason} (${changes})`;
+    })
+    .join(' | ');
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { usePersistentState } from './storage';
+import type { StakeLevel } from './types';
+
+export const SETTINGS_STORAGE_KEY = 'everwin_poker_settings_v1';
+
+/** Seat-time fee for one blinds level; an empty `blinds` is the default for all others. */
+export interface FeeRule {
+  blinds: string;
+  amount: number;
+  blockMinutes: number;
+}
+
+export interface AppSettings {
+  /** 'HH:MM' at which a new gaming day starts. */
+  gamingDayCutoff: string;
+  feeSchedule: FeeRule[];
+  /** Rest time per session that is not charged. */
+  freeRestMinutes: number;
+  /** How long the app must have been closed before open seats need confirming on start. */
+  recoveryThresholdMinutes: number;
+  /** Stakes the floor picks table blinds from; free-text blinds while empty. */
+  stakes: StakeLevel[];
+  /** Longest single break before a seat is flagged; 0 means no limit. */
+  restLimitMinutes: number;
+  /** How long before the limit the seat starts showing a warning. */
+  restWarningMinutes: number;
+  /** Whether seats still resting after the grace period are made to leave. */
+  restAutoLeave: boolean;
+  restGraceMinutes: number;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  gamingDayCutoff: '06:00',
+  feeSchedule: [{ blinds: '', amount: 0, blockMinutes: 30 }],
+  freeRestMinutes: 15,
+  recoveryThresholdMinutes: 15,
+  stakes: [],
+  restLimitMinutes: 0,
+  restWarningMinutes: 5,
+  restAutoLeave: false,
+  restGraceMinutes: 10,
+};
+
+export function cutoffToMinutes(value: string): number {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return 0;
+  return Math.min(23, Number(match[1])) * 60 + Math.min(59, Number(match[2]));
+}
+
+export function useSettings(): [AppSettings, React.Dispatch<React.SetStateAction<AppSettings>>] {
+  const [stored, setSettings] = usePersistentState<AppSettings>(
+    SETTINGS_STORAGE_KEY,
+    DEFAULT_SETTINGS,
+  );
+  // Fill in fields added after the settings were first saved.
+  const settings = { ...DEFAULT_SETTINGS, ...stored };
+  return [
+    {
+      ...settings,
+      stakes: settings.stakes.map((level) => ({
+        ...level,
+        restLimitMinutes: level.restLimitMinutes ?? 0,
+      })),
+    },
+    setSettings,
+  ];
+}
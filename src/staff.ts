@@ -0,0 +1,105 @@
+import React from 'react';
+import type { AuditAction } from './audit';
+import { createId } from './ids';
+import { usePersistentState } from './storage';
+import { formatDateTime } from './time';
+import type { ShiftRecord, StaffAccount, StaffRole } from './types';
+
+export const STAFF_STORAGE_KEY = 'everwin_poker_staff_v1';
+export const SHIFTS_STORAGE_KEY = 'everwin_poker_shifts_v1';
+export const CURRENT_SHIFT_KEY = 'everwin_poker_current_shift_v1';
+
+export const STAFF_ROLES: StaffRole[] = ['dealer', 'floor', 'manager'];
+
+export type Permission =
+  | 'stop'
+  | 'reset'
+  | 'voidBuyIn'
+  | 'editSessions'
+  | 'setup'
+  | 'manageStaff'
+  | 'importBackup';
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  dealer: [],
+  floor: ['stop', 'voidBuyIn', 'setup'],
+  manager: ['stop', 'reset', 'voidBuyIn', 'editSessions', 'setup', 'manageStaff', 'importBackup'],
+};
+
+/** Permission needed to undo or redo each logged action; the rest are open to every role. */
+const UNDO_PERMISSIONS: Partial<Record<AuditAction, Permission>> = {
+  stop: 'stop',
+  reset: 'reset',
+  voidBuyIn: 'voidBuyIn',
+  correctSession: 'editSessions',
+  tableSetup: 'setup',
+  restore: 'importBackup',
+};
+
+export function getUndoPermission(action: AuditAction): Permission | null {
+  return UNDO_PERMISSIONS[action] ?? null;
+}
+
+export function hasPermission(account: StaffAccount | null, permission: Permission): boolean {
+  return !!account && ROLE_PERMISSIONS[account.role].includes(permission);
+}
+
+/**
+ * FNV-1a digest of the PIN. This only keeps PINs out of plain sight in localStorage; the
+ * login is a convenience lock for a shared tablet, not a security boundary.
+ */
+export function hashPin(pin: string): string {
+  let hash = 0x811c9dc5;
+  for (const ch of `everwin:${pin}`) {
+    hash ^= ch.codePointAt(0) ?? 0;
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+export function isValidPin(pin: string): boolean {
+  return /^\d{4,8}$/.test(pin);
+}
+
+export function createStaffAccount(name: string, role: StaffRole, pin: string): StaffAccount {
+  return { id: createId(), name: name.trim(), role, pinHash: hashPin(pin), active: true };
+}
+
+export function checkPin(account: StaffAccount, pin: string): boolean {
+  return account.active && account.pinHash === hashPin(pin);
+}
+
+export function startShift(account: StaffAccount): ShiftRecord {
+  return {
+    id: createId(),
+    staffId: account.id,
+    staffName: account.name,
+    role: account.role,
+    loginAt: formatDateTime(new Date()),
+    logoutAt: null,
+  };
+}
+
+export function endShift(shifts: ShiftRecord[], shiftId: string): ShiftRecord[] {
+  const logoutAt = formatDateTime(new Date());
+  return shifts.map((shift) => (shift.id === shiftId ? { ...shift, logoutAt } : shift));
+}
+
+export function useStaffAccounts(): [
+  StaffAccount[],
+  React.Dispatch<React.SetStateAction<StaffAccount[]>>,
+] {
+  return usePersistentState<StaffAccount[]>(STAFF_STORAGE_KEY, []);
+}
+
+export function useShifts(): [ShiftRecord[], React.Dispatch<React.SetStateAction<ShiftRecord[]>>] {
+  return usePersistentState<ShiftRecord[]>(SHIFTS_STORAGE_KEY, []);
+}
+
+/** The shift open on this device; it survives a reload so a refresh does not log staff out. */
+export function useCurrentShiftId(): [
+  string | null,
+  React.Dispatch<React.SetStateAction<string | null>>,
+] {
+  return usePersistentState<string | null>(CURRENT_SHIFT_KEY, null);
+}
@@ -0,0 +1,87 @@
+import { createId } from './ids';
+import { formatDateTime, formatHMS } from './time';
+import type { BlindsLevelTime, StakeLevel, TableState } from './types';
+
+export function createStakeLevel(): StakeLevel {
+  return {
+    id: createId(),
+    smallBlind: 0,
+    bigBlind: 0,
+    ante: 0,
+    minBuyIn: 0,
+    maxBuyIn: 0,
+    restLimitMinutes: 0,
+  };
+}
+
+/** The blinds string stored on tables and sessions, e.g. "100/200" or "100/200 (25)". */
+export function formatStakeLabel(
+  level: Pick<StakeLevel, 'smallBlind' | 'bigBlind' | 'ante'>,
+): string {
+  const blinds = `${level.smallBlind}/${level.bigBlind}`;
+  return level.ante > 0 ? `${blinds} (${level.ante})` : blinds;
+}
+
+export function findStake(stakes: StakeLevel[], stakeId: string | null): StakeLevel | undefined {
+  return stakeId ? stakes.find((level) => level.id === stakeId) : undefined;
+}
+
+/** Sets the table's blinds and appends the change to its history. */
+export function applyBlindsChange(
+  tbl: TableState,
+  blinds: string,
+  stakeId: string | null,
+  nowMs: number,
+): TableState {
+  return {
+    ...tbl,
+    blinds,
+    stakeId,
+    blindsHistory: [
+      ...tbl.blindsHistory,
+      { at: nowMs, time: formatDateTime(new Date(nowMs)), blinds, stakeId },
+    ],
+  };
+}
+
+/**
+ * Splits a session's wall-clock time between the blinds levels the table ran while it was
+ * open. Time before the first recorded change counts towards that first level.
+ */
+export function getBlindsLevelsForSession(
+  tbl: TableState,
+  startMs: number,
+  endMs: number,
+): BlindsLevelTime[] {
+  const history = tbl.blindsHistory;
+  if (history.length === 0) {
+    return tbl.blinds
+      ? [{ blinds: tbl.blinds, seconds: Math.round((endMs - startMs) / 1000) }]
+      : [];
+  }
+  const levels: BlindsLevelTime[] = [];
+  history.forEach((change, idx) => {
+    const from = idx === 0 ? startMs : Math.max(startMs, change.at);
+    const to = Math.min(endMs, history[idx + 1]?.at ?? endMs);
+    const seconds = Math.round((to - from) / 1000);
+    if (seconds <= 0 || !change.blinds) return;
+    const existing = levels.find((level) => level.blinds === change.blinds);
+    if (existing) existing.seconds += seconds;
+    else levels.push({ blinds: change.blinds, seconds });
+  });
+  return levels;
+}
+
+export function formatBlindsLevels(levels: BlindsLevelTime[]): string {
+  return levels.map((level) => `${level.blinds} ${formatHMS(level.seconds)}`).join('; ');
+}
+
+export type BuyInProblem = 'belowMin' | 'aboveMax' | null;
+
+/** Checks a single buy-in against the stake's limits; a limit of 0 means no limit. */
+export function checkBuyIn(stake: StakeLevel | undefined, amount: number): BuyInProblem {
+  if (!stake) return null;
+  if (stake.minBuyIn > 0 && amount < stake.minBuyIn) return 'belowMin';
+  if (stake.maxBuyIn > 0 && amount > stake.maxBuyIn) return 'aboveMax';
+  return null;
+}
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+
+export function readStoredJson<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const writeFailureListeners = new Set<(key: string) => void>();
+
+/** Calls `listener` whenever a save is refused, usually because storage is full. */
+export function subscribeWriteFailures(listener: (key: string) => void): () => void {
+  writeFailureListeners.add(listener);
+  return () => {
+    writeFailureListeners.delete(listener);
+  };
+}
+
+export function reportWriteFailure(key: string, err: unknown): void {
+  console.error(`Saving ${key} failed`, err);
+  writeFailureListeners.forEach((listener) => listener(key));
+}
+
+/** Saves `value` under `key`; a refused write is reported rather than thrown. */
+export function writeStoredJson(key: string, value: unknown): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (err) {
+    reportWriteFailure(key, err);
+    return false;
+  }
+}
+
+/** useState that mirrors its value into localStorage under `key`. */
+export function usePersistentState<T>(
+  key: string,
+  initial: T,
+): [T, React.Dispatch<React.SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => readStoredJson(key, initial));
+
+  useEffect(() => {
+    writeStoredJson(key, value);
+  }, [key, value]);
+
+  return [value, setValue];
+}
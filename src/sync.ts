@@ -0,0 +1,324 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { readStoredJson, writeStoredJson } from './storage';
+import type {
+  ConflictResponse,
+  RevisionResponse,
+  SyncEvent,
+  SyncSnapshot,
+  SyncedTable,
+} from './syncProtocol';
+import type { SessionRow, TableState } from './types';
+
+export const SYNC_URL_KEY = 'everwin_poker_sync_url_v1';
+const SYNC_BASE_KEY = 'everwin_poker_sync_base_v1';
+const PUSH_DELAY_MS = 300;
+const RETRY_MS = 5000;
+
+export type SyncStatus = 'disabled' | 'connecting' | 'online' | 'offline';
+
+export interface SyncConflict {
+  tableId: number;
+  seatIds: number[];
+  at: number;
+}
+
+/** What this device last agreed with the server; the common ancestor for merges. */
+interface SyncBase {
+  order: number[];
+  tables: Record<string, SyncedTable>;
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+function mergeSessions(
+  base: SessionRow[] | null,
+  local: SessionRow[],
+  remote: SessionRow[],
+): SessionRow[] {
+  const baseIds = new Set((base ?? []).map((r) => r.id));
+  const localById = new Map(local.map((r) => [r.id, r]));
+  const remoteIds = new Set(remote.map((r) => r.id));
+  const baseById = new Map((base ?? []).map((r) => [r.id, r]));
+  const merged: SessionRow[] = [];
+  for (const row of remote) {
+    const mine = localById.get(row.id);
+    if (mine) {
+      // Both still have it; keep whichever side edited it since the last sync.
+      merged.push(sameJson(mine, baseById.get(row.id)) ? row : mine);
+    } else if (!baseIds.has(row.id)) {
+      merged.push(row);
+    }
+  }
+  for (const row of local) {
+    if (!remoteIds.has(row.id) && !baseIds.has(row.id)) merged.push(row);
+  }
+  return merged;
+}
+
+/**
+ * Three-way merge of one table. Table fields and each seat are taken from whichever side
+ * changed them; when both sides changed the same seat the server copy wins and the seat is
+ * reported back as a conflict. Session rows are merged by id.
+ */
+export function mergeTable(
+  base: TableState | null,
+  local: TableState,
+  remote: TableState,
+): { table: TableState; conflictSeatIds: number[] } {
+  const fieldsOf = (tbl: TableState) => ({ ...tbl, seats: [], sessions: [] });
+  const fields =
+    base && sameJson(fieldsOf(base), fieldsOf(remote)) ? fieldsOf(local) : fieldsOf(remote);
+  // A resize on this device only wins if the server kept the old seat count.
+  const seatCount =
+    base && base.seats.length === remote.seats.length ? local.seats.length : remote.seats.length;
+
+  const conflictSeatIds: number[] = [];
+  const seats = Array.from({ length: seatCount }, (_, idx) => {
+    const b = base?.seats[idx];
+    const l = local.seats[idx];
+    const r = remote.seats[idx];
+    if (!l) return r;
+    if (!r) return l;
+    const localChanged = !b || !sameJson(b, l);
+    const remoteChanged = !b || !sameJson(b, r);
+    if (localChanged && remoteChanged && !sameJson(l, r)) {
+      if (b) conflictSeatIds.push(r.id);
+      return r;
+    }
+    return localChanged ? l : r;
+  });
+
+  return {
+    table: {
+      ...fields,
+      seats,
+      sessions: mergeSessions(base?.sessions ?? null, local.sessions, remote.sessions),
+    },
+    conflictSeatIds,
+  };
+}
+
+function applyOrder(tables: TableState[], order: number[]): TableState[] {
+  const byId = new Map(tables.map((tbl) => [tbl.id, tbl]));
+  const ordered = order.flatMap((id) => {
+    const tbl = byId.get(id);
+    return tbl ? [tbl] : [];
+  });
+  return [...ordered, ...tables.filter((tbl) => !order.includes(tbl.id))];
+}
+
+/**
+ * Keeps `tables` in step with the sync server at `url`. localStorage stays the source the
+ * app boots from, so the floor keeps working while the server is unreachable; pending edits
+ * are pushed again once it comes back.
+ */
+export function useTableSync(
+  tables: TableState[],
+  setTables: React.Dispatch<React.SetStateAction<TableState[]>>,
+  url: string,
+): { status: SyncStatus; conflicts: SyncConflict[]; clearConflicts: () => void } {
+  const [status, setStatus] = useState<SyncStatus>(url ? 'connecting' : 'disabled');
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const baseRef = useRef<SyncBase>(
+    readStoredJson<SyncBase>(SYNC_BASE_KEY, { order: [], tables: {} }),
+  );
+  const tablesRef = useRef(tables);
+  const readyRef = useRef(false);
+  const pushingRef = useRef(false);
+  tablesRef.current = tables;
+
+  const saveBase = () => writeStoredJson(SYNC_BASE_KEY, baseRef.current);
+
+  const noteConflict = (tableId: number, seatIds: number[]) => {
+    if (seatIds.length === 0) return;
+    setConflicts((prev) => [...prev, { tableId, seatIds, at: Date.now() }]);
+  };
+
+  /** Folds a server copy of one table into local state. */
+  const receiveTable = useCallback(
+    (id: number, rev: number, remote: TableState) => {
+      const base = baseRef.current.tables[id];
+      if (base && rev <= base.rev) return;
+      const local = tablesRef.current.find((tbl) => tbl.id === id);
+      let next = remote;
+      if (local && !(base && sameJson(local, base.table))) {
+        const merged = mergeTable(base?.table ?? null, local, remote);
+        next = merged.table;
+        noteConflict(id, merged.conflictSeatIds);
+      }
+      baseRef.current.tables[id] = { rev, table: remote };
+      saveBase();
+      setTables((prev) =>
+        prev.some((tbl) => tbl.id === id)
+          ? prev.map((tbl) => (tbl.id === id ? next : tbl))
+          : [...prev, next],
+      );
+    },
+    [setTables],
+  );
+
+  const push = useCallback(async () => {
+    if (!url || !readyRef.current || pushingRef.current) return;
+    pushingRef.current = true;
+    try {
+      const current = tablesRef.current;
+      const base = baseRef.current;
+      for (const tbl of current) {
+        const known = base.tables[tbl.id];
+        if (known && sameJson(known.table, tbl)) continue;
+        const res = await fetch(`${url}/api/tables/${tbl.id}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ baseRev: known?.rev ?? 0, table: tbl }),
+        });
+        if (res.status === 409) {
+          const conflict = (await res.json()) as ConflictResponse;
+          if (conflict.table) receiveTable(tbl.id, conflict.rev, conflict.table);
+          continue;
+        }
+        if (!res.ok) throw new Error(`PUT table ${tbl.id}: ${res.status}`);
+        const { rev } = (await res.json()) as RevisionResponse;
+        base.tables[tbl.id] = { rev, table: tbl };
+      }
+      for (const id of Object.keys(base.tables).map(Number)) {
+        if (current.some((tbl) => tbl.id === id)) continue;
+        const res = await fetch(`${url}/api/tables/${id}`, {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ baseRev: base.tables[id].rev }),
+        });
+        if (res.status === 409) {
+          const conflict = (await res.json()) as ConflictResponse;
+          if (conflict.table) receiveTable(id, conflict.rev, conflict.table);
+          continue;
+        }
+        if (!res.ok) throw new Error(`DELETE table ${id}: ${res.status}`);
+        delete base.tables[id];
+      }
+      const order = current.map((tbl) => tbl.id);
+      if (!sameJson(order, base.order)) {
+        const res = await fetch(`${url}/api/order`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ order }),
+        });
+        if (!res.ok) throw new Error(`PUT order: ${res.status}`);
+        base.order = order;
+      }
+      saveBase();
+      setStatus('online');
+    } catch {
+      setStatus('offline');
+    } finally {
+      pushingRef.current = false;
+    }
+  }, [url, receiveTable]);
+
+  // Connect, pull the server snapshot, then follow the event stream.
+  useEffect(() => {
+    if (!url) {
+      setStatus('disabled');
+      return undefined;
+    }
+    let closed = false;
+    let source: EventSource | null = null;
+    let retryTimer: number | undefined;
+
+    /** Folds the server's full state in; returns false if the hook was torn down meanwhile. */
+    const pull = async (): Promise<boolean> => {
+      const res = await fetch(`${url}/api/state`);
+      if (!res.ok) throw new Error(`GET state: ${res.status}`);
+      const snapshot = (await res.json()) as SyncSnapshot;
+      if (closed) return false;
+      for (const [id, synced] of Object.entries(snapshot.tables)) {
+        receiveTable(Number(id), synced.rev, synced.table);
+      }
+      if (snapshot.order.length > 0) {
+        baseRef.current.order = snapshot.order;
+        setTables((prev) => applyOrder(prev, snapshot.order));
+      }
+      return true;
+    };
+
+    const connect = async () => {
+      setStatus('connecting');
+      try {
+        if (!(await pull())) return;
+        readyRef.current = true;
+        // EventSource reconnects by itself, but events sent while it was down are not replayed.
+        let missedEvents = false;
+        source = new EventSource(`${url}/api/events`);
+        source.onmessage = (msg) => {
+          const event = JSON.parse(msg.data) as SyncEvent;
+          if (event.type === 'table') {
+            receiveTable(event.id, event.rev, event.table);
+          } else if (event.type === 'removed') {
+            delete baseRef.current.tables[event.id];
+            saveBase();
+            setTables((prev) => prev.filter((tbl) => tbl.id !== event.id));
+          } else if (event.type === 'order') {
+            baseRef.current.order = event.order;
+            saveBase();
+            setTables((prev) => applyOrder(prev, event.order));
+          }
+        };
+        source.onerror = () => {
+          missedEvents = true;
+          setStatus('offline');
+        };
+        source.onopen = () => {
+          if (!missedEvents) {
+            setStatus('online');
+            void push();
+            return;
+          }
+          missedEvents = false;
+          // Catch up on what changed while the stream was down before pushing local edits.
+          pull().then(
+            (open) => {
+              if (!open) return;
+              setStatus('online');
+              void push();
+            },
+            () => {
+              if (closed) return;
+              // Start over so the snapshot is fetched again before trusting the stream.
+              source?.close();
+              setStatus('offline');
+              retryTimer = window.setTimeout(connect, RETRY_MS);
+            },
+          );
+        };
+      } catch {
+        if (closed) return;
+        setStatus('offline');
+        retryTimer = window.setTimeout(connect, RETRY_MS);
+      }
+    };
+
+    void connect();
+    return () => {
+      closed = true;
+      readyRef.current = false;
+      source?.close();
+      window.clearTimeout(retryTimer);
+    };
+  }, [url, receiveTable, push, setTables]);
+
+  // Push local edits shortly after they happen, and keep retrying while offline.
+  useEffect(() => {
+    if (!url) return undefined;
+    const timer = window.setTimeout(() => void push(), PUSH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [url, tables, push]);
+
+  useEffect(() => {
+    if (!url || status !== 'offline') return undefined;
+    const timer = window.setInterval(() => void push(), RETRY_MS);
+    return () => window.clearInterval(timer);
+  }, [url, status, push]);
+
+  const clearConflicts = useCallback(() => setConflicts([]), []);
+
+  return { status, conflicts, clearConflicts };
+}
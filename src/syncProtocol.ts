@@ -0,0 +1,42 @@
+import type { TableState } from './types';
+
+// Wire format shared by the sync server (server/syncServer.ts) and the client hook in sync.ts.
+
+export interface SyncedTable {
+  rev: number;
+  table: TableState;
+}
+
+export interface SyncSnapshot {
+  order: number[];
+  tables: Record<string, SyncedTable>;
+}
+
+export interface PutTableRequest {
+  /** Revision the client last saw for this table, 0 when it has never been synced. */
+  baseRev: number;
+  table: TableState;
+}
+
+export interface DeleteTableRequest {
+  baseRev: number;
+}
+
+export interface PutOrderRequest {
+  order: number[];
+}
+
+export interface RevisionResponse {
+  rev: number;
+}
+
+/** Body of a 409 reply: the server's current copy, which the client merges with its own. */
+export interface ConflictResponse {
+  rev: number;
+  table: TableState | null;
+}
+
+export type SyncEvent =
+  | { type: 'table'; id: number; rev: number; table: TableState }
+  | { type: 'removed'; id: number; rev: number }
+  | { type: 'order'; order: number[] };
@@ -0,0 +1,381 @@
+import React, { useEffect, useState } from 'react';
+import {
+  pushBackup,
+  quarantine,
+  readBackups,
+  readSnapshot,
+  writeSnapshot,
+  type StoredSnapshot,
+} from './persistence';
+import { reportWriteFailure } from './storage';
+import type { SeatState, SessionRow, TableState } from './types';
+
+export const DEFAULT_TABLE_COUNT = 4;
+export const DEFAULT_SEATS_PER_TABLE = 9;
+export const MIN_SEATS_PER_TABLE = 2;
+export const MAX_SEATS_PER_TABLE = 12;
+export const TABLES_STORAGE_VERSION = 6;
+export const STORAGE_KEY = 'everwin_poker_tables_v6';
+/** Keys earlier versions saved tables under, newest first. They are read once and left in place. */
+export const LEGACY_STORAGE_KEYS = ['everwin_poker_tables_v5'];
+export const BACKUPS_KEY = 'everwin_poker_tables_backups_v1';
+
+export function createInitialSeat(id: number): SeatState {
+  return {
+    id,
+    memberId: '',
+    status: 'idle',
+    activeSeconds: 0,
+    restSeconds: 0,
+    lastActiveStart: null,
+    lastRestStart: null,
+    buyInAmount: 0,
+    buyIns: [],
+    transferNote: null,
+    carriedIn: null,
+    sessionStart: null,
+    selectedForBatch: false,
+    waitSeconds: null,
+  };
+}
+
+export function createInitialTable(id: number, seatCount = DEFAULT_SEATS_PER_TABLE): TableState {
+  return {
+    id,
+    name: `Table ${id}`,
+    blinds: '',
+    stakeId: null,
+    blindsHistory: [],
+    openedAt: null,
+    closedAt: null,
+    elapsedSeconds: 0,
+    lastStartTime: null,
+    isRunning: false,
+    retired: false,
+    restLimitMinutes: null,
+    seats: Array.from({ length: seatCount }, (_, i) => createInitialSeat(i + 1)),
+    sessions: [],
+  };
+}
+
+/** Fills in fields that session rows saved by older versions do not have. */
+export function normalizeSessionRow(row: SessionRow, tableBlinds: string): SessionRow {
+  return {
+    ...row,
+    id: row.id ?? `${row.tableId}-${row.seatId}-${row.startTime}-${row.endTime}`,
+    // Rows written before blinds were recorded per session take the table's current level.
+    blinds: row.blinds ?? tableBlinds,
+    buyIns: Array.isArray(row.buyIns) ? row.buyIns : [],
+    carriedIn: row.carriedIn ?? null,
+    cashOutAmount: row.cashOutAmount ?? null,
+    netAmount: row.netAmount ?? null,
+    waitSeconds: row.waitSeconds ?? null,
+    timeCharge: row.timeCharge ?? null,
+    blindsLevels: Array.isArray(row.blindsLevels) ? row.blindsLevels : [],
+    staff: row.staff ?? '',
+    corrections: Array.isArray(row.corrections) ? row.corrections : [],
+    autoLeave: row.autoLeave ?? null,
+  };
+}
+
+function normalizeSeat(seat: SeatState, id: number): SeatState {
+  const merged: SeatState = { ...createInitialSeat(id), ...seat, id };
+  if (!Array.isArray(seat.buyIns)) {
+    // Seats saved before the ledger existed only carry a running total; keep it as one entry.
+    merged.buyIns =
+      merged.buyInAmount > 0
+        ? [
+            {
+              id: `legacy-${id}`,
+              time: merged.sessionStart ?? '',
+              amount: merged.buyInAmount,
+              method: 'cash',
+              staff: '',
+              voided: false,
+              voidedAt: null,
+              voidedBy: null,
+            },
+          ]
+        : [];
+  }
+  return merged;
+}
+
+function createDefaultTables(): TableState[] {
+  return Array.from({ length: DEFAULT_TABLE_COUNT }, (_, i) => createInitialTable(i + 1));
+}
+
+/** Brings tables saved by any earlier version up to the current shape. */
+export function normalizeTables(parsed: TableState[]): TableState[] {
+  const usedIds = new Set<number>();
+  let nextId = parsed.reduce((max, t) => (Number.isInteger(t.id) ? Math.max(max, t.id) : max), 0);
+  return parsed.map((t) => {
+    // Older saves forced ids to their position; keep whatever was stored unless it collides.
+    const id = Number.isInteger(t.id) && t.id > 0 && !usedIds.has(t.id) ? t.id : ++nextId;
+    usedIds.add(id);
+    return {
+      ...createInitialTable(id),
+      ...t,
+      id,
+      retired: Boolean(t.retired),
+      stakeId: t.stakeId ?? null,
+      blindsHistory: Array.isArray(t.blindsHistory) ? t.blindsHistory : [],
+      seats:
+        Array.isArray(t.seats) && t.seats.length > 0
+          ? t.seats.map((s, seatIdx) => normalizeSeat(s, seatIdx + 1))
+          : Array.from({ length: DEFAULT_SEATS_PER_TABLE }, (_, i) => createInitialSeat(i + 1)),
+      sessions: Array.isArray(t.sessions)
+        ? t.sessions.map((row) => normalizeSessionRow(row, t.blinds ?? ''))
+        : [],
+    };
+  });
+}
+
+/**
+ * Where the tables came from on startup. 'backup' and 'lost' mean the saved tables could
+ * not be read; 'lost' means no backup could be either and the app started empty.
+ */
+export type TablesLoadSource = 'current' | 'legacy' | 'backup' | 'empty' | 'lost';
+
+export interface TablesLoadResult {
+  tables: TableState[];
+  source: TablesLoadSource;
+  /** When the data that was loaded had been saved; 0 if unknown. */
+  savedAt: number;
+}
+
+function readTables(key: string): StoredSnapshot<TableState[]> | null {
+  const snapshot = readSnapshot<TableState[]>(key);
+  if (snapshot && !Array.isArray(snapshot.data)) throw new Error(`${key} does not hold tables`);
+  return snapshot;
+}
+
+function loadInitialTables(): TablesLoadResult {
+  const empty = { tables: createDefaultTables(), savedAt: 0 };
+  if (typeof window === 'undefined') return { ...empty, source: 'empty' };
+  let damaged = false;
+  for (const key of [STORAGE_KEY, ...LEGACY_STORAGE_KEYS]) {
+    try {
+      const snapshot = readTables(key);
+      if (!snapshot) continue;
+      return {
+        tables: normalizeTables(snapshot.data),
+        source: key === STORAGE_KEY ? 'current' : 'legacy',
+        savedAt: snapshot.savedAt,
+      };
+    } catch (err) {
+      console.error(`Could not read ${key}`, err);
+      quarantine(key, window.localStorage.getItem(key) ?? '');
+      damaged = true;
+      // Backups are newer than any legacy key, so try them before going further back.
+      if (key === STORAGE_KEY) {
+        const backup = readBackups<TableState[]>(BACKUPS_KEY).find((b) => Array.isArray(b.data));
+        if (backup) {
+          return {
+            tables: normalizeTables(backup.data),
+            source: 'backup',
+            savedAt: backup.savedAt,
+          };
+        }
+      }
+    }
+  }
+  return { ...empty, source: damaged ? 'lost' : 'empty' };
+}
+
+export function usePersistentTables(): [
+  TableState[],
+  React.Dispatch<React.SetStateAction<TableState[]>>,
+  TablesLoadResult,
+] {
+  const [loaded] = useState(loadInitialTables);
+  const [tables, setTables] = useState<TableState[]>(loaded.tables);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    try {
+      const snapshot = writeSnapshot(STORAGE_KEY, TABLES_STORAGE_VERSION, tables);
+      pushBackup(BACKUPS_KEY, snapshot);
+    } catch (err) {
+      // Usually a full quota; backups go first so the live data still fits next time.
+      reportWriteFailure(STORAGE_KEY, err);
+      window.localStorage.removeItem(BACKUPS_KEY);
+    }
+  }, [tables]);
+
+  return [tables, setTables, loaded];
+}
+
+/** The start/pause clock fields shared by tables and the tournament clock. */
+export type TableClock = Pick<TableState, 'elapsedSeconds' | 'isRunning' | 'lastStartTime'>;
+
+export function getTableElapsedSeconds(table: TableClock, nowMs: number): number {
+  if (table.isRunning && table.lastStartTime != null) {
+    const delta = Math.floor((nowMs - table.lastStartTime) / 1000);
+    return table.elapsedSeconds + Math.max(0, delta);
+  }
+  return table.elapsedSeconds;
+}
+
+export function getSeatActiveSeconds(seat: SeatState, nowMs: number): number {
+  if (seat.status === 'seated' && seat.lastActiveStart != null) {
+    const delta = Math.floor((nowMs - seat.lastActiveStart) / 1000);
+    return seat.activeSeconds + Math.max(0, delta);
+  }
+  return seat.activeSeconds;
+}
+
+export function getSeatRestSeconds(seat: SeatState, nowMs: number): number {
+  if (seat.status === 'rest' && seat.lastRestStart != null) {
+    const delta = Math.floor((nowMs - seat.lastRestStart) / 1000);
+    return seat.restSeconds + Math.max(0, delta);
+  }
+  return seat.restSeconds;
+}
+
+export function isSeatOccupied(seat: SeatState): boolean {
+  return seat.status !== 'idle';
+}
+
+/**
+ * Seats a player can be placed in: idle, without a member typed in and not among
+ * `heldSeatIds`, the seats tournament entries hold at this table.
+ */
+export function getOpenSeats(table: TableState, heldSeatIds: number[] = []): SeatState[] {
+  return table.seats.filter(
+    (s) => !isSeatOccupied(s) && !s.memberId.trim() && !heldSeatIds.includes(s.id),
+  );
+}
+
+/** True while `latest` still holds the same player and session as `seat` did. */
+export function isSameSession(seat: SeatState, latest: SeatState | undefined): boolean {
+  return (
+    !!latest &&
+    latest.status === seat.status &&
+    latest.memberId === seat.memberId &&
+    latest.sessionStart === seat.sessionStart
+  );
+}
+
+export function isTableInUse(table: TableState): boolean {
+  return table.isRunning || table.seats.some(isSeatOccupied);
+}
+
+export function getActiveTables(tables: TableState[]): TableState[] {
+  return tables.filter((tbl) => !tbl.retired);
+}
+
+export interface MemberSeating {
+  table: TableState;
+  seat: SeatState;
+}
+
+/**
+ * Every occupied seat held by `memberId`, looking across all tables. IDs match ignoring case,
+ * as in the member registry.
+ */
+export function findMemberSeatings(tables: TableState[], memberId: string): MemberSeating[] {
+  const id = memberId.trim().toLowerCase();
+  if (!id) return [];
+  return tables.flatMap((table) =>
+    table.seats
+      .filter((seat) => seat.memberId.trim().toLowerCase() === id && isSeatOccupied(seat))
+      .map((seat) => ({ table, seat })),
+  );
+}
+
+/** Note written on the receiving seat so its session row shows where the chips came from. */
+export function formatTransferNote(fromTable: TableState, fromSeatId: number): string {
+  return `Transfer-${fromTable.name}-Seat${fromSeatId}`;
+}
+
+/**
+ * Exchanges the players on two seats of one table. Clocks, buy-ins and session starts go with
+ * each player, so neither session is closed; the batch tick stays with the seat.
+ */
+export function swapSeats(table: TableState, seatIdA: number, seatIdB: number): TableState {
+  const a = table.seats.find((s) => s.id === seatIdA);
+  const b = table.seats.find((s) => s.id === seatIdB);
+  if (!a || !b || a === b) return table;
+  return {
+    ...table,
+    seats: table.seats.map((s) => {
+      if (s.id === seatIdA) return { ...b, id: s.id, selectedForBatch: s.selectedForBatch };
+      if (s.id === seatIdB) return { ...a, id: s.id, selectedForBatch: s.selectedForBatch };
+      return s;
+    }),
+  };
+}
+
+// Layout operations used by the table setup screen. Each returns a new list and
+// never touches `sessions`, so history survives every layout change.
+
+export function addTable(tables: TableState[], seatCount: number): TableState[] {
+  const id = tables.reduce((max, tbl) => Math.max(max, tbl.id), 0) + 1;
+  return [...tables, createInitialTable(id, clampSeatCount(seatCount))];
+}
+
+export function renameTable(tables: TableState[], tableId: number, name: string): TableState[] {
+  return tables.map((tbl) => (tbl.id === tableId ? { ...tbl, name } : tbl));
+}
+
+export function setTableRetired(
+  tables: TableState[],
+  tableId: number,
+  retired: boolean,
+): TableState[] {
+  return tables.map((tbl) => (tbl.id === tableId ? { ...tbl, retired } : tbl));
+}
+
+export function setTableRestLimit(
+  tables: TableState[],
+  tableId: number,
+  restLimitMinutes: number | null,
+): TableState[] {
+  return tables.map((tbl) => (tbl.id === tableId ? { ...tbl, restLimitMinutes } : tbl));
+}
+
+export function removeTable(tables: TableState[], tableId: number): TableState[] {
+  return tables.filter((tbl) => tbl.id !== tableId);
+}
+
+export function moveTable(tables: TableState[], tableId: number, offset: number): TableState[] {
+  const from = tables.findIndex((tbl) => tbl.id === tableId);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= tables.length) return tables;
+  const next = [...tables];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+export function clampSeatCount(seatCount: number): number {
+  if (!Number.isFinite(seatCount)) return DEFAULT_SEATS_PER_TABLE;
+  return Math.min(MAX_SEATS_PER_TABLE, Math.max(MIN_SEATS_PER_TABLE, Math.round(seatCount)));
+}
+
+/** Seats that would be dropped by shrinking the table and still have a player on them. */
+export function getBlockingSeatsForResize(table: TableState, seatCount: number): SeatState[] {
+  return table.seats.filter((s) => s.id > seatCount && isSeatOccupied(s));
+}
+
+export function resizeTable(
+  tables: TableState[],
+  tableId: number,
+  seatCount: number,
+): TableState[] {
+  const count = clampSeatCount(seatCount);
+  return tables.map((tbl) => {
+    if (tbl.id !== tableId) return tbl;
+    const seats =
+      count <= tbl.seats.length
+        ? tbl.seats.slice(0, count)
+        : [
+            ...tbl.seats,
+            ...Array.from({ length: count - tbl.seats.length }, (_, i) =>
+              createInitialSeat(tbl.seats.length + i + 1),
+            ),
+          ];
+    return { ...tbl, seats };
+  });
+}
@@ -0,0 +1,925 @@
+import type { AuditAction } from './audit';
+import type { BackupMode, BackupProblem, TablePreview } from './backup';
+import type { CorrectionProblem } from './sessions';
+import type { SyncStatus } from './sync';
+import type { PaymentMethod, StaffRole } from './types';
+
+export const zhTexts = {
+  tableLabel: '桌號',
+  running: '運行中',
+  stopped: '未開桌',
+  startOrResume: '開桌 / 繼續',
+  pause: '暫停牌桌',
+  stop: '關桌（輸出本局）',
+  exportCsv: '手動匯出 CSV',
+  resetTable: 'Reset 本桌（匯出後清除）',
+  today: '營業日',
+  currentTableTime: '牌桌時間',
+  openedAt: '開桌時間',
+  closedAt: '關桌時間',
+  blinds: '盲注級別',
+  blindsPlaceholder: '例如 25-50 / 50-100',
+  seat: '席次',
+  statusIdle: '空位 / 未上桌',
+  statusSeated: '上桌中',
+  statusRest: '休息中',
+  todayTotal: '本局上桌時間',
+  todayCount: '本局上桌次數',
+  restSeconds: '休息秒數',
+  buyIn: '買碼總額',
+  memberId: '會員 ID',
+  batchLabel: '批次',
+  btnSeat: '上桌',
+  btnRest: '休息',
+  btnLeave: '下桌',
+  btnAddBuyIn: '加買籌碼',
+  btnBatchSeat: '批次上桌',
+  btnBatchLeave: '批次下桌',
+  tableHasPlayers: '仍有玩家在桌上（非休息），請先讓所有玩家下桌。',
+  tableNotRunning: '請先運行開桌，再為玩家上桌。',
+  needMemberId: '請先輸入會員號碼再上桌。',
+  seatChanged: '座位在確認期間已有變動，請重新操作。',
+  seatHeldByTournament: (seats: string) => `座位 ${seats} 由錦標賽玩家使用中，無法安排現金桌玩家。`,
+  duplicateMember: '同一位會員已在本桌其他位置上桌，請先處理座位移動。',
+  batchNoSelection: '請先勾選要批次操作的席次。',
+  batchMissingMember: '批次上桌的每個席次都必須先輸入會員號。',
+  batchPromptChips: '請輸入本次上桌每位玩家的買入籌碼（金額，可為 0）',
+  invalidNumber: '請輸入正確的數字。',
+  leavePromptChips: (memberId: string, seatId: number) =>
+    `請輸入會員 ${memberId}（席次 ${seatId}）下桌時的籌碼數量`,
+  movePromptChips: (memberId: string, seatId: number) =>
+    `請輸入會員 ${memberId}（席次 ${seatId}）帶往新座位的籌碼數量`,
+  movePromptChipsAll: '請輸入每位換桌玩家帶往新座位的籌碼數量',
+  confirmMove: (memberId: string, fromSeat: number, toSeat: number) =>
+    `會員 ${memberId} 目前在席次 ${fromSeat}，要移動到席次 ${toSeat} 嗎？`,
+  confirmMoveTable: (memberId: string, fromTable: string, fromSeat: number, toTable: string, toSeat: number) =>
+    `會員 ${memberId} 目前在 ${fromTable} 席次 ${fromSeat}，要換到 ${toTable} 席次 ${toSeat} 嗎？`,
+  duplicateMemberOtherTable: (memberId: string, table: string, seat: number) =>
+    `會員 ${memberId} 已在 ${table} 席次 ${seat} 上桌，請先處理換桌。`,
+  confirmReset: '確定要重置本桌所有資料嗎？系統會先自動匯出一份 CSV，下桌紀錄仍保留在歷史紀錄中。',
+  confirmBatchLeave: '確定要將勾選的席次全部下桌並寫入紀錄嗎？',
+  csvHeaderDate: '日期',
+  csvHeaderTable: '桌號',
+  csvHeaderSeat: '席次',
+  csvHeaderMember: '會員 ID',
+  csvHeaderStart: '上桌時間',
+  csvHeaderEnd: '下桌時間',
+  csvHeaderActiveSec: '上桌秒數',
+  csvHeaderRestSec: '休息秒數',
+  csvHeaderDuration: '上桌時間(HH:MM:SS)',
+  csvHeaderBuyIn: '買碼',
+  csvHeaderCashOut: '兌出籌碼',
+  csvHeaderNet: '輸贏',
+  csvHeaderTransfer: '轉席註記',
+  csvHeaderWait: '候位秒數',
+  csvHeaderTimeCharge: '計時費',
+  csvHeaderLevels: '各級別時間',
+  csvBlindsHistory: '盲注變更',
+  blindsHistory: '盲注變更',
+  csvSummaryTimeCharge: '計時費合計',
+  timeCharge: '計時費',
+  csvSummaryTotalBuyIn: '本局總買碼',
+  csvSummaryUniquePlayers: '不重複會員數',
+  csvSummaryTotalSessions: '本局紀錄筆數',
+  csvSummaryTotalCashOut: '本局總兌出',
+  csvSummaryNet: '玩家總輸贏',
+  csvSummaryBalance: '籌碼平衡（買入 - 兌出）',
+  balanceOk: '平衡',
+  balanceMismatch: '不平衡',
+  summaryTitle: '本局籌碼',
+  staffOnDuty: '當班人員',
+  paymentMethod: '付款方式',
+  methodLabels: { cash: '現金', credit: '信用卡', marker: '簽單' } as Record<PaymentMethod, string>,
+  btnLedger: '買碼明細',
+  btnMoveTable: '換桌',
+  moveConfirm: '確認換桌',
+  moveCancel: '取消',
+  moveNoTarget: '沒有其他運行中且有空位的牌桌',
+  ledgerEmpty: '尚無買碼紀錄',
+  btnVoid: '作廢',
+  voidedTag: '已作廢',
+  confirmVoidBuyIn: (amount: number, time: string) => `確定要作廢 ${time} 的買碼 ${amount} 嗎？`,
+  csvLedgerTitle: '買碼明細',
+  csvHeaderBuyInTime: '買碼時間',
+  csvHeaderAmount: '金額',
+  csvHeaderMethod: '付款方式',
+  csvHeaderStaff: '經手人',
+  csvHeaderVoided: '作廢',
+  navLog: '操作紀錄',
+  navMembers: '會員',
+  navHistory: '歷史紀錄',
+  navReport: '會員報表',
+  navSettings: '系統設定',
+  undo: '復原',
+  redo: '重做',
+  undoStale: '這個步驟之後，相關的牌桌、座位或紀錄又有變動，無法復原或重做。',
+  auditTitle: '操作紀錄',
+  auditHint: '所有牌桌與座位操作的完整紀錄（只增不改），可依牌桌、席次或會員篩選。',
+  auditFilterTable: '牌桌',
+  auditFilterSeat: '席次',
+  auditFilterMember: '會員 ID',
+  auditAll: '全部',
+  auditTime: '時間',
+  auditAction: '動作',
+  auditStaff: '經手人',
+  auditChanges: '變更（前 → 後）',
+  auditEmpty: '沒有符合條件的紀錄',
+  auditShowing: (shown: number, total: number) => `顯示 ${shown} / ${total} 筆`,
+  auditActionLabels: {
+    start: '開桌 / 繼續',
+    pause: '暫停',
+    stop: '關桌',
+    reset: '重置牌桌',
+    blinds: '變更盲注',
+    seat: '上桌',
+    rest: '休息',
+    leave: '下桌',
+    move: '移動座位',
+    swap: '交換座位',
+    buyIn: '加買籌碼',
+    voidBuyIn: '作廢買碼',
+    batchSeat: '批次上桌',
+    batchLeave: '批次下桌',
+    tableSetup: '牌桌設定',
+    correctSession: '修正紀錄',
+    recover: '中斷復原',
+    autoLeave: '休息超時下桌',
+    restore: '匯入備份',
+    undo: '復原',
+    redo: '重做',
+  } as Record<AuditAction, string>,
+  navTables: '牌桌',
+  navTournament: '錦標賽',
+  navSetup: '牌桌設定',
+  setupTitle: '牌桌設定',
+  setupHint: '新增、停用、改名、排序牌桌並設定每桌座位數。停用的牌桌會保留所有紀錄，可隨時恢復。',
+  setupName: '名稱',
+  setupSeats: '座位數',
+  setupOrder: '排序',
+  setupStatus: '狀態',
+  setupActions: '操作',
+  setupActive: '使用中',
+  setupRetired: '已停用',
+  setupSessions: '紀錄筆數',
+  setupAddTable: '新增牌桌',
+  setupNewSeatCount: '新牌桌座位數',
+  setupRetire: '停用',
+  setupRestore: '恢復',
+  setupDelete: '刪除',
+  setupMoveUp: '上移',
+  setupMoveDown: '下移',
+  setupTableInUse: '此牌桌仍在運行或有玩家在座，請先關桌並讓所有玩家下桌。',
+  setupSeatsOccupied: (seats: string) => `席次 ${seats} 仍有玩家，無法縮減座位數。`,
+  setupLastActiveTable: '至少需要保留一張使用中的牌桌。',
+  setupEmptyName: '牌桌名稱不可空白。',
+  syncTitle: '多裝置同步',
+  syncHint: '填入同步伺服器網址（npm run sync-server）後，多台平板會即時共用同一組牌桌。留空則只存在本機。連線中斷時仍可繼續操作，恢復後自動上傳。',
+  syncUrl: '伺服器網址',
+  syncStatusLabels: {
+    disabled: '未啟用同步',
+    connecting: '同步連線中…',
+    online: '已同步',
+    offline: '離線（稍後重試）',
+  } as Record<SyncStatus, string>,
+  syncConflictNotice: (seats: string) => `其他裝置同時修改了 ${seats}，已採用伺服器上的版本，請確認。`,
+  syncDismiss: '知道了',
+  confirmDeleteTable: (name: string) => `確定要永久刪除「${name}」嗎？`,
+  membersTitle: '會員資料',
+  membersHint: '上桌前會以此名單核對會員號碼；輸入座位會員時會自動提示。名單為空時不做核對。',
+  membersCount: (count: number) => `共 ${count} 位會員`,
+  memberName: '姓名',
+  memberPhone: '電話',
+  memberTier: '等級',
+  memberNotes: '備註',
+  memberBanned: '禁止上桌',
+  membersAdd: '新增會員',
+  membersUpdate: '儲存修改',
+  membersEdit: '編輯',
+  membersCancelEdit: '取消',
+  membersSearch: '搜尋',
+  membersImport: '匯入 CSV',
+  membersImportHint: 'CSV 第一列為欄位名稱：id（或 會員編號）、name、phone、tier、notes、banned；相同 ID 的會員會被覆蓋。',
+  membersEmpty: '沒有會員資料',
+  membersNeedId: '請輸入會員 ID。',
+  membersDuplicateId: (id: string) => `會員 ID ${id} 已存在。`,
+  membersConfirmDelete: (id: string) => `確定要刪除會員 ${id} 嗎？`,
+  membersImportNoId: '找不到會員 ID 欄位，請確認 CSV 第一列的欄位名稱。',
+  membersImported: (count: number) => `已匯入 ${count} 位會員。`,
+  confirmUnknownMembers: (ids: string) => `會員 ${ids} 不在會員資料中，可能是輸入錯誤。仍要上桌嗎？`,
+  confirmBannedMembers: (ids: string) => `會員 ${ids} 已被設為禁止上桌！確定仍要讓其上桌嗎？`,
+  historyTitle: '歷史紀錄',
+  historyHint: '每筆下桌紀錄都會永久保存在本機資料庫，重設牌桌也不會遺失。可依日期、牌桌、會員或盲注查詢並匯出。',
+  historyFrom: '開始日期',
+  historyTo: '結束日期',
+  historyBlinds: '盲注',
+  historyBusinessDate: '營業日',
+  historyExport: '匯出 CSV',
+  historyUnavailable: '無法讀取歷史資料庫（瀏覽器可能停用了 IndexedDB）。',
+  historyTotals: (sessions: number, members: number, hours: number, buyIn: number, cashOut: number) =>
+    `共 ${sessions} 筆、${members} 位會員、上桌 ${hours} 小時、買碼 ${buyIn}、兌出 ${cashOut}`,
+  reportTitle: '會員統計報表',
+  reportHint: '依歷史紀錄統計每位會員的上桌時數與買碼，可匯出 CSV 或列印，用於時數回饋與促銷。點選會員可查看明細。',
+  reportPeriod: '統計期間',
+  reportHours: '上桌時數',
+  reportSessions: '場次',
+  reportAverage: '平均每場',
+  reportTables: '牌桌',
+  reportLastVisit: '最近到訪',
+  reportPrint: '列印',
+  reportSessionsOf: (memberId: string) => `會員 ${memberId} 的上桌明細`,
+  settingsTitle: '系統設定',
+  settingsCutoff: '營業日切換時間',
+  settingsCutoffHint: (date: string) => `此時間之前的場次仍計入前一個營業日（以上桌時間為準），CSV 日期與檔名也依營業日。目前營業日：${date}`,
+  waitlistTitle: '候位名單',
+  waitlistCount: (count: number) => `${count} 人等候`,
+  waitlistEmpty: '目前沒有人候位',
+  waitlistThisTable: '本桌',
+  waitlistAnyTable: (blinds: string) => `任何 ${blinds} 桌`,
+  waitlistAdd: '加入候位',
+  waitlistSeat: '入座',
+  waitlistDuplicate: (memberId: string) => `會員 ${memberId} 已在此候位名單中。`,
+  waitlistNoSeat: '本桌目前沒有空位。',
+  waitlistCallNext: (memberId: string, seatId: number, waited: string) =>
+    `席次 ${seatId} 已空出。要叫下一位候位會員 ${memberId}（已等候 ${waited}）入座嗎？`,
+  historyAvgWait: (waited: string, count: number) => `平均候位時間 ${waited}（${count} 位由候位名單入座）`,
+  settingsFees: '計時收費',
+  settingsFeesHint: '每開始一個計費區段即收取一次費用。盲注欄位留空為預設費率，其他盲注可個別設定。休息超過免費時間的部分也會計費。',
+  settingsFeeBlinds: '盲注',
+  settingsFeeDefault: '（預設）',
+  settingsFeeAmount: '每段金額',
+  settingsFeeBlock: '每段分鐘',
+  settingsFeeAdd: '新增費率',
+  settingsFreeRest: '免費休息（分鐘）',
+  stakesTitle: '盲注級別',
+  stakesHint: '設定後牌桌盲注改為從清單選擇，每次變更都會記錄時間。買入金額會依最低／最高買入檢查（0 表示不限制）。',
+  stakeSmallBlind: '小盲',
+  stakeBigBlind: '大盲',
+  stakeAnte: '前注',
+  stakeMinBuyIn: '最低買入',
+  stakeMaxBuyIn: '最高買入',
+  stakesAdd: '新增級別',
+  buyInBelowMin: (min: number) => `買入金額低於此級別的最低買入 ${min}。`,
+  buyInAboveMax: (max: number) => `買入金額超過此級別的最高買入 ${max}。`,
+  tournamentTitle: '錦標賽',
+  tournamentNew: '新一場',
+  tournamentConfirmReset: '清除所有參賽紀錄並重設計時器？盲注結構、獎金分配與桌次會保留。',
+  tournamentLevel: (n: number) => `第 ${n} 級`,
+  tournamentBreak: '休息',
+  tournamentNext: '下一級',
+  tournamentElapsed: '已進行',
+  tournamentPlayers: (left: number, total: number) => `剩餘 ${left} / ${total} 人`,
+  tournamentAverageStack: (chips: number) => `平均籌碼 ${chips}`,
+  tournamentPrizePool: '獎金池',
+  tournamentPrevLevel: '上一級',
+  tournamentNextLevel: '下一級',
+  tournamentEntriesTitle: '參賽者',
+  tournamentRegister: '報名 / 重購',
+  tournamentAlreadyIn: (id: string) => `${id} 仍在比賽中。`,
+  tournamentReEntryClosed: '已超過可重新報名的級別。',
+  tournamentNoSeat: '比賽桌次沒有空位，請先在設定中加入桌次。',
+  tournamentChipCount: (counted: number, expected: number) =>
+    `登記籌碼 ${counted} / 應有籌碼 ${expected}`,
+  tournamentPlace: '名次',
+  tournamentEntries: '報名次數',
+  tournamentAddOns: '加購',
+  tournamentChips: '籌碼',
+  tournamentEliminatedAt: '淘汰時間',
+  tournamentPrize: '獎金',
+  tournamentNoEntries: '尚無參賽者',
+  tournamentAddOn: '加購',
+  tournamentEliminate: '淘汰',
+  tournamentConfirmEliminate: (id: string, place: number) => `確定淘汰 ${id}（第 ${place} 名）？`,
+  tournamentBalanceTitle: '平衡桌次',
+  tournamentBalanced: '各桌人數已平衡。',
+  tournamentMove: (id: string, from: string, to: string) => `${id}：${from} → ${to}`,
+  tournamentApplyMoves: '執行換桌',
+  tournamentPayoutsTitle: '獎金分配',
+  tournamentPercent: '比例 (%)',
+  tournamentPayoutsNot100: '比例合計不是 100%',
+  tournamentAddPlace: '新增名次',
+  tournamentSetupTitle: '比賽設定',
+  tournamentName: '賽事名稱',
+  tournamentBuyIn: '報名費',
+  tournamentStartingChips: '起始籌碼',
+  tournamentAddOnCost: '加購費用',
+  tournamentAddOnChips: '加購籌碼',
+  tournamentReEntryUntil: '可重購至第幾級',
+  tournamentTables: '使用桌次',
+  tournamentStructureHint: '依序進行各級別，休息時間計時器照常倒數。',
+  tournamentLevelColumn: '級別',
+  tournamentMinutes: '分鐘',
+  tournamentAddBreak: '新增休息',
+  tournamentAddLevel: '新增級別',
+  navStaff: '人員',
+  csvHeaderClosedBy: '下桌經手人',
+  staffLoginTitle: '人員登入',
+  staffFirstManagerHint: '尚未建立任何人員帳號，請先建立第一位經理帳號。',
+  staffName: '姓名',
+  staffPin: 'PIN 碼',
+  staffPinRepeat: '再次輸入 PIN 碼',
+  staffCreateManager: '建立經理帳號',
+  staffLogin: '登入',
+  staffLogout: '登出',
+  staffWrongPin: 'PIN 碼錯誤。',
+  staffNeedName: '請輸入姓名。',
+  staffPinRule: 'PIN 碼需為 4 到 8 位數字。',
+  staffPinMismatch: '兩次輸入的 PIN 碼不一致。',
+  staffRoleLabels: { dealer: '荷官', floor: '現場主管', manager: '經理' } as Record<StaffRole, string>,
+  staffNoPermission: '您的角色沒有執行此操作的權限。',
+  staffTitle: '人員與班表',
+  staffHint: '荷官可入座、離桌與買碼；現場主管另可結束牌桌、作廢買碼與設定牌桌；經理另可重設牌桌、修正已結束的紀錄與管理人員。',
+  staffRole: '角色',
+  staffActive: '啟用',
+  staffYou: '目前登入',
+  staffResetPin: '重設 PIN',
+  staffNewPinPrompt: (name: string) => `請輸入 ${name} 的新 PIN 碼（4 到 8 位數字）`,
+  staffAdd: '新增人員',
+  staffShiftsTitle: '班表紀錄',
+  staffLoginAt: '登入時間',
+  staffLogoutAt: '登出時間',
+  staffOnShift: '值班中',
+  staffNeedManager: '至少需保留一位啟用中的經理。',
+  csvHeaderCorrected: '修正紀錄',
+  sessionsTitle: (count: number) => `已結束紀錄（${count}）`,
+  sessionActive: '上桌時間',
+  sessionRest: '休息時間',
+  sessionEdit: '修正',
+  sessionSave: '儲存',
+  sessionCancel: '取消',
+  sessionReason: '修正原因（必填）',
+  sessionCorrectedTag: (count: number) => `已修正 ${count} 次`,
+  sessionBadDuration: '時間請以 HH:MM:SS 格式輸入。',
+  sessionProblems: {
+    noReason: '請填寫修正原因。',
+    noChange: '沒有任何變更。',
+    badTime: '上桌與下桌時間請以 YYYY-MM-DD HH:MM:SS 格式輸入。',
+    endBeforeStart: '下桌時間不可早於上桌時間。',
+    buyInLedger: '這筆紀錄的買入金額是買入明細的合計，不能直接修改。',
+  } as Record<CorrectionProblem, string>,
+  recoveryTitle: '確認中斷期間的座位',
+  recoveryHint: (time: string) =>
+    `系統最後運作時間為 ${time}，以下座位當時仍在計時，期間的時間都會被算入。請確認實際下桌時間，仍在桌上的玩家請勾選「仍在遊戲」。`,
+  recoveryStillPlaying: '仍在遊戲',
+  recoveryConfirm: '確認',
+  recoveryBadTime: (table: string, seat: number) =>
+    `${table} 座位 ${seat} 的下桌時間無效：請以 YYYY-MM-DD HH:MM:SS 輸入，且需介於上桌時間與現在之間。`,
+  storageRestoredFromBackup: (time: string) =>
+    `牌桌資料無法讀取，已從 ${time} 的備份還原。原始資料已另外保存。`,
+  storageLost: '牌桌資料無法讀取，且沒有可用的備份，已從空白牌桌開始。原始資料已另外保存。',
+  storageFull: '本機儲存空間已滿，最新變更可能未保存。請盡快匯出備份。',
+  settingsRecovery: '中斷確認門檻（分鐘）',
+  settingsRecoveryHint: '系統關閉超過此時間後重新開啟，仍在計時的座位需先確認實際下桌時間。',
+  backupTitle: '備份與還原',
+  backupHint: '匯出包含牌桌、設定、會員、候補、錦標賽、人員、班表、歷史封存與操作紀錄的完整備份檔，可用於換機或災後還原。',
+  backupExport: '匯出備份',
+  backupImport: '匯入備份',
+  backupProblems: {
+    notJson: '檔案不是有效的 JSON。',
+    notBackup: '這不是本系統的備份檔。',
+    newerVersion: '備份檔來自較新的版本，請先更新系統。',
+    invalid: '備份檔內容不完整或格式錯誤。',
+  } as Record<BackupProblem, string>,
+  backupFileInfo: (time: string, tables: number) => `備份時間 ${time}，共 ${tables} 桌。`,
+  backupModes: { merge: '合併', replace: '取代' } as Record<BackupMode, string>,
+  backupModeHints: {
+    merge: '保留本機資料，只加入備份中沒有的紀錄；本機空位才會填入備份中的玩家，設定維持不變。',
+    replace: '以備份內容完全取代本機資料。',
+  } as Record<BackupMode, string>,
+  backupChange: '變更',
+  backupSeated: '在座人數',
+  backupSessions: '紀錄筆數',
+  backupConflicts: '座位衝突（保留本機）',
+  backupSkipped: '略過（已在座或已下桌）',
+  backupSeatList: (seats: number[]) => `座位 ${seats.join(', ')}`,
+  backupTableStatus: {
+    added: '新增',
+    changed: '更新',
+    same: '不變',
+    removed: '移除',
+  } as Record<TablePreview['status'], string>,
+  backupWaitlist: '候補',
+  backupShifts: '班表',
+  backupNotInFile: '備份中沒有（保留本機）',
+  backupNoArchive: '無法讀取歷史封存，這份備份不含歷史紀錄。',
+  backupApply: '套用',
+  backupReplaceConfirm: '確定以備份取代所有本機資料？若備份中沒有目前登入的人員，需要重新登入。',
+  backupImported: '備份已匯入。',
+  navDaily: '營業日報',
+  dailyTitle: '營業日報表',
+  dailyScopes: { day: '營業日', shift: '本班' } as Record<'day' | 'shift', string>,
+  dailyPreparedBy: '製表人員',
+  dailyOpenHours: '開桌時數',
+  dailySeatedNow: '目前在座',
+  dailyMembers: '不重複會員',
+  dailyTotal: '合計',
+  dailyPeak: '同時在座人數高峰',
+  dailyMultiTable: '跨桌遊戲的會員',
+  exportXlsx: '匯出 Excel',
+  xlsxSummarySheet: '摘要',
+  xlsxSessionsSheet: '上桌紀錄',
+  closingReport: '結桌報表（PDF）',
+  closingReportTitle: (table: string) => `${table} 結桌報表`,
+  closingReportPrinted: (time: string, staff: string) => `列印時間 ${time}，列印人員 ${staff}`,
+  closingReportPrint: '列印 / 另存 PDF',
+  closingReportSigners: ['荷官', '現場主管', '經理'],
+  closingReportSignDate: '日期',
+  navOverview: '全場總覽',
+  overviewTitle: '全場牌桌總覽',
+  overviewSeatedTotal: (seated: number, seats: number) => `全場在座 ${seated} / ${seats} 人`,
+  overviewCounts: (seated: number, resting: number, empty: number) =>
+    `遊戲中 ${seated}・休息 ${resting}・空位 ${empty}`,
+  overviewOverRest: (seats: string[]) => `休息超時：${seats.join('、')}`,
+  stakeRestLimit: '休息上限（分）',
+  settingsRest: '休息時間上限',
+  settingsRestHint: '單次休息超過上限的座位會被標示。各桌或各盲注級別可另設上限，未設定時使用預設值；0 表示不限制。',
+  settingsRestLimit: '預設休息上限（分鐘）',
+  settingsRestWarning: '提前提醒（分鐘）',
+  settingsRestAutoLeave: '超過上限加寬限時間後自動下桌',
+  settingsRestGrace: '寬限時間（分鐘）',
+  setupRestLimit: '休息上限（分）',
+  setupRestLimitDefault: '依盲注／預設',
+  restNear: (time: string, limit: number) => `休息 ${time}，即將達到 ${limit} 分鐘上限`,
+  restOver: (time: string, limit: number) => `休息 ${time}，已超過 ${limit} 分鐘上限`,
+  restAutoLeftSeat: (table: string, seat: number, member: string) => `${table} 座位 ${seat}（${member}）`,
+  restAutoLeftNotice: (seats: string[]) => `休息超時已自動下桌：${seats.join('、')}`,
+  csvHeaderAutoLeave: '超時自動下桌',
+  scannerMode: '掃碼模式',
+  scannerHint:
+    '1-9 / ← → 選擇席次；S 上桌，R 休息，L 下桌，B 加買籌碼；Esc 取消選擇。掃描會員卡會填入所選空位，未選擇時填入下一個空位。',
+  scanNoSeat: (code: string) => `沒有可上桌的空位，會員 ${code} 未上桌。`,
+  dialogOk: '確定',
+  dialogCancel: '取消',
+  addBuyInPrompt: '請輸入加買籌碼數量（金額，可為 0）',
+  batchLeavePromptChips: '請輸入每位玩家下桌時的籌碼數量',
+  btnSwapSeat: '換位',
+  swapConfirm: '確認換位',
+  swapNoTarget: '本桌沒有其他在座的玩家',
+  balanceTitle: '平衡牌桌',
+  balanceHint: '同一級別運行中的牌桌人數相差兩人以上時，建議將最晚上桌的玩家移到人數最少的牌桌。',
+  balanceNone: '各桌人數已平衡。',
+  balanceSuggestion: (id: string, from: string, to: string) => `${id}：${from} → ${to}`,
+  balanceMove: '移動',
+  balanceMoveAll: '全部移動',
+};
+
+export type Texts = typeof zhTexts;
+
+export const enTexts: Texts = {
+  tableLabel: 'Table',
+  running: 'Running',
+  stopped: 'Stopped',
+  startOrResume: 'Start / Resume',
+  pause: 'Pause Table',
+  stop: 'Close Table (Export)',
+  exportCsv: 'Export CSV (manual)',
+  resetTable: 'Reset Table (export & clear)',
+  today: 'Gaming Day',
+  currentTableTime: 'Table Time',
+  openedAt: 'Opened At',
+  closedAt: 'Closed At',
+  blinds: 'Blinds',
+  blindsPlaceholder: 'e.g. 25-50 / 50-100',
+  seat: 'Seat',
+  statusIdle: 'Empty / Idle',
+  statusSeated: 'Seated',
+  statusRest: 'Resting',
+  todayTotal: 'Session Time',
+  todayCount: 'Seat Count',
+  restSeconds: 'Rest Seconds',
+  buyIn: 'Total Buy-in',
+  memberId: 'Member ID',
+  batchLabel: 'Batch',
+  btnSeat: 'Seat',
+  btnRest: 'Rest',
+  btnLeave: 'Leave',
+  btnAddBuyIn: 'Add Chips',
+  btnBatchSeat: 'Batch Seat',
+  btnBatchLeave: 'Batch Leave',
+  tableHasPlayers: 'There are still players seated (not resting). Please let them leave first.',
+  tableNotRunning: 'Please start the table clock before seating players.',
+  needMemberId: 'Please enter a member ID before seating.',
+  seatChanged: 'The seat changed while the dialog was open. Please try again.',
+  seatHeldByTournament: (seats: string) => `Seat ${seats} is held by a tournament player and cannot take a cash player.`,
+  duplicateMember: 'This member is already seated at another position. Please handle seat move first.',
+  batchNoSelection: 'Please select seats for batch operation first.',
+  batchMissingMember: 'Every batch seat must have a member ID.',
+  batchPromptChips: 'Enter buy-in amount for each selected player (can be 0).',
+  invalidNumber: 'Please enter a valid number.',
+  leavePromptChips: (memberId: string, seatId: number) =>
+    `Enter the chip count member ${memberId} (Seat ${seatId}) is taking off the table`,
+  movePromptChips: (memberId: string, seatId: number) =>
+    `Enter the chip count member ${memberId} (Seat ${seatId}) is taking to the new seat`,
+  movePromptChipsAll: 'Enter the chips each moving player takes to the new seat.',
+  confirmMove: (memberId: string, fromSeat: number, toSeat: number) =>
+    `Member ${memberId} is currently seated at Seat ${fromSeat}. Move to Seat ${toSeat}?`,
+  confirmMoveTable: (memberId: string, fromTable: string, fromSeat: number, toTable: string, toSeat: number) =>
+    `Member ${memberId} is currently at ${fromTable} Seat ${fromSeat}. Move to ${toTable} Seat ${toSeat}?`,
+  duplicateMemberOtherTable: (memberId: string, table: string, seat: number) =>
+    `Member ${memberId} is already seated at ${table} Seat ${seat}. Please move them first.`,
+  confirmReset: 'Reset this table and clear all data? A CSV will be exported first. Closed sessions stay in the history.',
+  confirmBatchLeave: 'Leave all selected seats and write their sessions?',
+  csvHeaderDate: 'Date',
+  csvHeaderTable: 'Table',
+  csvHeaderSeat: 'Seat',
+  csvHeaderMember: 'Member ID',
+  csvHeaderStart: 'Start Time',
+  csvHeaderEnd: 'End Time',
+  csvHeaderActiveSec: 'Active Seconds',
+  csvHeaderRestSec: 'Rest Seconds',
+  csvHeaderDuration: 'Duration (HH:MM:SS)',
+  csvHeaderBuyIn: 'Buy-in',
+  csvHeaderCashOut: 'Cash-out',
+  csvHeaderNet: 'Net',
+  csvHeaderTransfer: 'Transfer Note',
+  csvHeaderWait: 'Wait (sec)',
+  csvHeaderTimeCharge: 'Time Charge',
+  csvHeaderLevels: 'Levels Played',
+  csvBlindsHistory: 'Blinds history',
+  blindsHistory: 'Level changes',
+  csvSummaryTimeCharge: 'Total time charge',
+  timeCharge: 'Time charge',
+  csvSummaryTotalBuyIn: 'Total Buy-in',
+  csvSummaryUniquePlayers: 'Unique Members',
+  csvSummaryTotalSessions: 'Total Sessions',
+  csvSummaryTotalCashOut: 'Total Cash-out',
+  csvSummaryNet: 'Players Net',
+  csvSummaryBalance: 'Chip Balance (in - out)',
+  balanceOk: 'Balanced',
+  balanceMismatch: 'Not balanced',
+  summaryTitle: 'Chips This Session',
+  staffOnDuty: 'Staff on Duty',
+  paymentMethod: 'Payment',
+  methodLabels: { cash: 'Cash', credit: 'Credit', marker: 'Marker' } as Record<PaymentMethod, string>,
+  btnLedger: 'Buy-ins',
+  btnMoveTable: 'Move Table',
+  moveConfirm: 'Move',
+  moveCancel: 'Cancel',
+  moveNoTarget: 'No other running table has a free seat',
+  ledgerEmpty: 'No buy-ins yet',
+  btnVoid: 'Void',
+  voidedTag: 'Voided',
+  confirmVoidBuyIn: (amount: number, time: string) => `Void the buy-in of ${amount} at ${time}?`,
+  csvLedgerTitle: 'Buy-in Ledger',
+  csvHeaderBuyInTime: 'Buy-in Time',
+  csvHeaderAmount: 'Amount',
+  csvHeaderMethod: 'Payment',
+  csvHeaderStaff: 'Staff',
+  csvHeaderVoided: 'Voided',
+  navLog: 'Action Log',
+  navMembers: 'Members',
+  navHistory: 'History',
+  navReport: 'Member Report',
+  navSettings: 'Settings',
+  undo: 'Undo',
+  redo: 'Redo',
+  undoStale:
+    'The tables, seats or records this step touched have changed since, so it cannot be undone or redone.',
+  auditTitle: 'Action Log',
+  auditHint: 'Append-only record of every table and seat action. Filter by table, seat or member.',
+  auditFilterTable: 'Table',
+  auditFilterSeat: 'Seat',
+  auditFilterMember: 'Member ID',
+  auditAll: 'All',
+  auditTime: 'Time',
+  auditAction: 'Action',
+  auditStaff: 'Staff',
+  auditChanges: 'Changes (before → after)',
+  auditEmpty: 'No matching entries',
+  auditShowing: (shown: number, total: number) => `Showing ${shown} of ${total}`,
+  auditActionLabels: {
+    start: 'Start / Resume',
+    pause: 'Pause',
+    stop: 'Close Table',
+    reset: 'Reset Table',
+    blinds: 'Change Blinds',
+    seat: 'Seat',
+    rest: 'Rest',
+    leave: 'Leave',
+    move: 'Move Seat',
+    swap: 'Swap Seats',
+    buyIn: 'Add Chips',
+    voidBuyIn: 'Void Buy-in',
+    batchSeat: 'Batch Seat',
+    batchLeave: 'Batch Leave',
+    tableSetup: 'Table Setup',
+    correctSession: 'Correct Session',
+    recover: 'Outage Recovery',
+    autoLeave: 'Rest Limit Leave',
+    restore: 'Backup Import',
+    undo: 'Undo',
+    redo: 'Redo',
+  } as Record<AuditAction, string>,
+  navTables: 'Tables',
+  navTournament: 'Tournament',
+  navSetup: 'Table Setup',
+  setupTitle: 'Table Setup',
+  setupHint: 'Add, retire, rename and reorder tables and set the seat count of each. Retired tables keep all their records and can be restored at any time.',
+  setupName: 'Name',
+  setupSeats: 'Seats',
+  setupOrder: 'Order',
+  setupStatus: 'Status',
+  setupActions: 'Actions',
+  setupActive: 'Active',
+  setupRetired: 'Retired',
+  setupSessions: 'Sessions',
+  setupAddTable: 'Add Table',
+  setupNewSeatCount: 'Seats for new table',
+  setupRetire: 'Retire',
+  setupRestore: 'Restore',
+  setupDelete: 'Delete',
+  setupMoveUp: 'Up',
+  setupMoveDown: 'Down',
+  setupTableInUse: 'This table is running or has players seated. Close it and let everyone leave first.',
+  setupSeatsOccupied: (seats: string) => `Seat ${seats} still has a player, cannot shrink the table.`,
+  setupLastActiveTable: 'At least one active table is required.',
+  setupEmptyName: 'Table name cannot be empty.',
+  syncTitle: 'Multi-device Sync',
+  syncHint: 'Enter the sync server URL (npm run sync-server) to share the same tables across tablets in real time. Leave empty to keep data on this device only. Work continues while offline and is uploaded once the server is back.',
+  syncUrl: 'Server URL',
+  syncStatusLabels: {
+    disabled: 'Sync off',
+    connecting: 'Connecting…',
+    online: 'Synced',
+    offline: 'Offline (retrying)',
+  },
+  syncConflictNotice: (seats: string) => `Another device changed ${seats} at the same time. The server version was kept, please check.`,
+  syncDismiss: 'Dismiss',
+  confirmDeleteTable: (name: string) => `Permanently delete "${name}"?`,
+  membersTitle: 'Members',
+  membersHint: 'Member IDs are checked against this list before seating and suggested while typing on a seat. No check is done while the list is empty.',
+  membersCount: (count: number) => `${count} members`,
+  memberName: 'Name',
+  memberPhone: 'Phone',
+  memberTier: 'Tier',
+  memberNotes: 'Notes',
+  memberBanned: 'Banned',
+  membersAdd: 'Add Member',
+  membersUpdate: 'Save Changes',
+  membersEdit: 'Edit',
+  membersCancelEdit: 'Cancel',
+  membersSearch: 'Search',
+  membersImport: 'Import CSV',
+  membersImportHint: 'The first CSV row names the columns: id, name, phone, tier, notes, banned. Members with an existing ID are replaced.',
+  membersEmpty: 'No members',
+  membersNeedId: 'Please enter a member ID.',
+  membersDuplicateId: (id: string) => `Member ID ${id} already exists.`,
+  membersConfirmDelete: (id: string) => `Delete member ${id}?`,
+  membersImportNoId: 'No member ID column found. Check the column names in the first CSV row.',
+  membersImported: (count: number) => `Imported ${count} members.`,
+  confirmUnknownMembers: (ids: string) => `Member ${ids} is not in the member list and may be a typo. Seat anyway?`,
+  confirmBannedMembers: (ids: string) => `Member ${ids} is BANNED from play! Seat anyway?`,
+  historyTitle: 'Session History',
+  historyHint: 'Every closed session is kept permanently in a database on this device and survives table resets. Filter by date, table, member or blinds and export the result.',
+  historyFrom: 'From',
+  historyTo: 'To',
+  historyBlinds: 'Blinds',
+  historyBusinessDate: 'Business Date',
+  historyExport: 'Export CSV',
+  historyUnavailable: 'The history database could not be opened (IndexedDB may be disabled in this browser).',
+  historyTotals: (sessions: number, members: number, hours: number, buyIn: number, cashOut: number) =>
+    `${sessions} sessions, ${members} members, ${hours} h played, buy-in ${buyIn}, cash-out ${cashOut}`,
+  reportTitle: 'Member Statistics',
+  reportHint: 'Hours and buy-ins per member from the session history. Export to CSV or print for hour-based rewards and promotions. Click a member to see their sessions.',
+  reportPeriod: 'Period',
+  reportHours: 'Hours',
+  reportSessions: 'Sessions',
+  reportAverage: 'Avg. Session',
+  reportTables: 'Tables',
+  reportLastVisit: 'Last Visit',
+  reportPrint: 'Print',
+  reportSessionsOf: (memberId: string) => `Sessions of member ${memberId}`,
+  settingsTitle: 'Settings',
+  settingsCutoff: 'Gaming day starts at',
+  settingsCutoffHint: (date: string) => `Sessions that start before this time count towards the previous gaming day. CSV dates and file names follow the gaming day. Current gaming day: ${date}`,
+  waitlistTitle: 'Waitlist',
+  waitlistCount: (count: number) => `${count} waiting`,
+  waitlistEmpty: 'Nobody is waiting',
+  waitlistThisTable: 'This table',
+  waitlistAnyTable: (blinds: string) => `Any ${blinds} table`,
+  waitlistAdd: 'Add',
+  waitlistSeat: 'Seat',
+  waitlistDuplicate: (memberId: string) => `Member ${memberId} is already on this waitlist.`,
+  waitlistNoSeat: 'There is no open seat at this table.',
+  waitlistCallNext: (memberId: string, seatId: number, waited: string) =>
+    `Seat ${seatId} is open. Call the next player on the waitlist, member ${memberId} (waited ${waited})?`,
+  historyAvgWait: (waited: string, count: number) => `Average wait ${waited} (${count} seated from the waitlist)`,
+  settingsFees: 'Seat-time Fees',
+  settingsFeesHint: 'Every started block of play is charged once. Leave blinds empty for the default rate and add rows for blinds levels with their own rate. Rest beyond the free allowance is charged too.',
+  settingsFeeBlinds: 'Blinds',
+  settingsFeeDefault: '(default)',
+  settingsFeeAmount: 'Amount per block',
+  settingsFeeBlock: 'Block (minutes)',
+  settingsFeeAdd: 'Add Rate',
+  settingsFreeRest: 'Free rest (minutes)',
+  stakesTitle: 'Stakes',
+  stakesHint: 'Once stakes are configured, table blinds are picked from this list and every change is recorded with its time. Buy-ins are checked against the minimum and maximum (0 means no limit).',
+  stakeSmallBlind: 'Small Blind',
+  stakeBigBlind: 'Big Blind',
+  stakeAnte: 'Ante',
+  stakeMinBuyIn: 'Min Buy-in',
+  stakeMaxBuyIn: 'Max Buy-in',
+  stakesAdd: 'Add Level',
+  buyInBelowMin: (min: number) => `The buy-in is below this level's minimum of ${min}.`,
+  buyInAboveMax: (max: number) => `The buy-in is above this level's maximum of ${max}.`,
+  tournamentTitle: 'Tournament',
+  tournamentNew: 'New Tournament',
+  tournamentConfirmReset: 'Clear all entries and reset the clock? The structure, payouts and tables are kept.',
+  tournamentLevel: (n: number) => `Level ${n}`,
+  tournamentBreak: 'Break',
+  tournamentNext: 'Next',
+  tournamentElapsed: 'Elapsed',
+  tournamentPlayers: (left: number, total: number) => `${left} / ${total} players left`,
+  tournamentAverageStack: (chips: number) => `avg stack ${chips}`,
+  tournamentPrizePool: 'Prize Pool',
+  tournamentPrevLevel: 'Previous Level',
+  tournamentNextLevel: 'Next Level',
+  tournamentEntriesTitle: 'Entries',
+  tournamentRegister: 'Register / Re-enter',
+  tournamentAlreadyIn: (id: string) => `${id} is still in the tournament.`,
+  tournamentReEntryClosed: 'Re-entry is closed at this level.',
+  tournamentNoSeat: 'No free seat at the tournament tables. Add tables in the setup below.',
+  tournamentChipCount: (counted: number, expected: number) =>
+    `Counted chips ${counted} / expected ${expected}`,
+  tournamentPlace: 'Place',
+  tournamentEntries: 'Entries',
+  tournamentAddOns: 'Add-ons',
+  tournamentChips: 'Chips',
+  tournamentEliminatedAt: 'Busted At',
+  tournamentPrize: 'Prize',
+  tournamentNoEntries: 'No entries yet',
+  tournamentAddOn: 'Add-on',
+  tournamentEliminate: 'Bust',
+  tournamentConfirmEliminate: (id: string, place: number) => `Bust ${id} in place ${place}?`,
+  tournamentBalanceTitle: 'Table Balancing',
+  tournamentBalanced: 'Tables are balanced.',
+  tournamentMove: (id: string, from: string, to: string) => `${id}: ${from} → ${to}`,
+  tournamentApplyMoves: 'Apply Moves',
+  tournamentPayoutsTitle: 'Payouts',
+  tournamentPercent: 'Share (%)',
+  tournamentPayoutsNot100: 'Shares do not add up to 100%',
+  tournamentAddPlace: 'Add Place',
+  tournamentSetupTitle: 'Tournament Setup',
+  tournamentName: 'Name',
+  tournamentBuyIn: 'Buy-in',
+  tournamentStartingChips: 'Starting Chips',
+  tournamentAddOnCost: 'Add-on Cost',
+  tournamentAddOnChips: 'Add-on Chips',
+  tournamentReEntryUntil: 'Re-entry Until Level',
+  tournamentTables: 'Tables',
+  tournamentStructureHint: 'Levels run in order; the clock keeps counting down through breaks.',
+  tournamentLevelColumn: 'Level',
+  tournamentMinutes: 'Minutes',
+  tournamentAddBreak: 'Add Break',
+  tournamentAddLevel: 'Add Level',
+  navStaff: 'Staff',
+  csvHeaderClosedBy: 'Closed By',
+  staffLoginTitle: 'Staff Login',
+  staffFirstManagerHint: 'No staff accounts exist yet. Create the first manager account to start.',
+  staffName: 'Name',
+  staffPin: 'PIN',
+  staffPinRepeat: 'Repeat PIN',
+  staffCreateManager: 'Create Manager',
+  staffLogin: 'Log In',
+  staffLogout: 'Log Out',
+  staffWrongPin: 'Wrong PIN.',
+  staffNeedName: 'Please enter a name.',
+  staffPinRule: 'The PIN must be 4 to 8 digits.',
+  staffPinMismatch: 'The PINs do not match.',
+  staffRoleLabels: { dealer: 'Dealer', floor: 'Floor', manager: 'Manager' } as Record<StaffRole, string>,
+  staffNoPermission: 'Your role is not allowed to do this.',
+  staffTitle: 'Staff & Shifts',
+  staffHint: 'Dealers can seat players, record leaves and take buy-ins. Floor staff can also stop tables, void buy-ins and set up tables. Managers can also reset tables, correct closed sessions and manage staff.',
+  staffRole: 'Role',
+  staffActive: 'Active',
+  staffYou: 'logged in',
+  staffResetPin: 'Reset PIN',
+  staffNewPinPrompt: (name: string) => `Enter a new PIN for ${name} (4 to 8 digits)`,
+  staffAdd: 'Add Staff',
+  staffShiftsTitle: 'Shifts',
+  staffLoginAt: 'Logged In',
+  staffLogoutAt: 'Logged Out',
+  staffOnShift: 'On shift',
+  staffNeedManager: 'At least one active manager must remain.',
+  csvHeaderCorrected: 'Corrections',
+  sessionsTitle: (count: number) => `Closed sessions (${count})`,
+  sessionActive: 'Active',
+  sessionRest: 'Rest',
+  sessionEdit: 'Correct',
+  sessionSave: 'Save',
+  sessionCancel: 'Cancel',
+  sessionReason: 'Reason (required)',
+  sessionCorrectedTag: (count: number) => `Corrected ×${count}`,
+  sessionBadDuration: 'Enter durations as HH:MM:SS.',
+  sessionProblems: {
+    noReason: 'Please give a reason for the correction.',
+    noChange: 'Nothing was changed.',
+    badTime: 'Enter start and end as YYYY-MM-DD HH:MM:SS.',
+    endBeforeStart: 'The end time cannot be before the start time.',
+    buyInLedger: 'This buy-in is the total of its ledger entries and cannot be typed over.',
+  } as Record<CorrectionProblem, string>,
+  recoveryTitle: 'Confirm Seats From Before the Outage',
+  recoveryHint: (time: string) =>
+    `The app was last running at ${time}. These seats were still timing, so the outage counts as play. Confirm when each player really left, or tick "Still playing".`,
+  recoveryStillPlaying: 'Still playing',
+  recoveryConfirm: 'Confirm',
+  recoveryBadTime: (table: string, seat: number) =>
+    `Invalid end time for ${table} seat ${seat}: use YYYY-MM-DD HH:MM:SS, between the start time and now.`,
+  storageRestoredFromBackup: (time: string) =>
+    `The saved tables could not be read and were restored from the backup of ${time}. The original data was kept aside.`,
+  storageLost: 'The saved tables could not be read and no backup was usable, so the app started with empty tables. The original data was kept aside.',
+  storageFull: 'Local storage is full, so the latest changes may not be saved. Please export a backup soon.',
+  settingsRecovery: 'Outage threshold (minutes)',
+  settingsRecoveryHint: 'When the app reopens after being closed this long, seats still timing must be confirmed first.',
+  backupTitle: 'Backup & Restore',
+  backupHint: 'Exports tables, settings, members, waitlist, tournament, staff, shifts, the session archive and the action log to one file, for moving to another device or recovering after a failure.',
+  backupExport: 'Export backup',
+  backupImport: 'Import backup',
+  backupProblems: {
+    notJson: 'The file is not valid JSON.',
+    notBackup: 'This is not a backup file from this app.',
+    newerVersion: 'The backup comes from a newer version. Update the app first.',
+    invalid: 'The backup file is incomplete or malformed.',
+  } as Record<BackupProblem, string>,
+  backupFileInfo: (time: string, tables: number) => `Backed up ${time}, ${tables} tables.`,
+  backupModes: { merge: 'Merge', replace: 'Replace' } as Record<BackupMode, string>,
+  backupModeHints: {
+    merge: 'Keeps this device\'s data and adds only records it is missing. Players from the backup fill seats that are empty here; settings stay as they are.',
+    replace: 'Replaces everything on this device with the backup.',
+  } as Record<BackupMode, string>,
+  backupChange: 'Change',
+  backupSeated: 'Seated',
+  backupSessions: 'Sessions',
+  backupConflicts: 'Seat conflicts (kept here)',
+  backupSkipped: 'Skipped (seated here or already left)',
+  backupSeatList: (seats: number[]) => `Seat ${seats.join(', ')}`,
+  backupTableStatus: {
+    added: 'Added',
+    changed: 'Updated',
+    same: 'Unchanged',
+    removed: 'Removed',
+  } as Record<TablePreview['status'], string>,
+  backupWaitlist: 'Waitlist',
+  backupShifts: 'Shifts',
+  backupNotInFile: 'Not in the file (kept here)',
+  backupNoArchive: 'The session archive could not be read, so this backup leaves it out.',
+  backupApply: 'Apply',
+  backupReplaceConfirm: 'Replace all data on this device with the backup? If the logged-in staff member is not in the backup, you will need to log in again.',
+  backupImported: 'Backup imported.',
+  navDaily: 'Daily Report',
+  dailyTitle: 'Daily Report',
+  dailyScopes: { day: 'Gaming day', shift: 'This shift' } as Record<'day' | 'shift', string>,
+  dailyPreparedBy: 'Prepared by',
+  dailyOpenHours: 'Open hours',
+  dailySeatedNow: 'Seated now',
+  dailyMembers: 'Unique members',
+  dailyTotal: 'Total',
+  dailyPeak: 'Peak seated players',
+  dailyMultiTable: 'Members Who Played Several Tables',
+  exportXlsx: 'Export Excel',
+  xlsxSummarySheet: 'Summary',
+  xlsxSessionsSheet: 'Sessions',
+  closingReport: 'Closing Report (PDF)',
+  closingReportTitle: (table: string) => `${table} Closing Report`,
+  closingReportPrinted: (time: string, staff: string) => `Printed ${time} by ${staff}`,
+  closingReportPrint: 'Print / Save as PDF',
+  closingReportSigners: ['Dealer', 'Floor', 'Manager'],
+  closingReportSignDate: 'Date',
+  navOverview: 'Overview',
+  overviewTitle: 'Room Overview',
+  overviewSeatedTotal: (seated: number, seats: number) => `${seated} of ${seats} seats taken`,
+  overviewCounts: (seated: number, resting: number, empty: number) =>
+    `Playing ${seated} · Resting ${resting} · Empty ${empty}`,
+  overviewOverRest: (seats: string[]) => `Over rest time: ${seats.join(', ')}`,
+  stakeRestLimit: 'Rest limit (min)',
+  settingsRest: 'Rest Limits',
+  settingsRestHint: 'Seats on a single break longer than the limit are flagged. Tables and stakes can set their own limit; otherwise the default applies. 0 means no limit.',
+  settingsRestLimit: 'Default rest limit (minutes)',
+  settingsRestWarning: 'Warn before limit (minutes)',
+  settingsRestAutoLeave: 'Make players leave once the limit and grace period have passed',
+  settingsRestGrace: 'Grace period (minutes)',
+  setupRestLimit: 'Rest limit (min)',
+  setupRestLimitDefault: 'Stake / default',
+  restNear: (time: string, limit: number) => `Resting ${time}, nearing the ${limit} min limit`,
+  restOver: (time: string, limit: number) => `Resting ${time}, over the ${limit} min limit`,
+  restAutoLeftSeat: (table: string, seat: number, member: string) => `${table} seat ${seat} (${member})`,
+  restAutoLeftNotice: (seats: string[]) => `Left automatically after resting too long: ${seats.join(', ')}`,
+  csvHeaderAutoLeave: 'Auto Leave',
+  scannerMode: 'Scanner mode',
+  scannerHint:
+    '1-9 / ← → select a seat; S seat, R rest, L leave, B add chips; Esc clears the selection. A scanned member card fills the selected empty seat, or the next open seat.',
+  scanNoSeat: (code: string) => `No open seat for member ${code}.`,
+  dialogOk: 'OK',
+  dialogCancel: 'Cancel',
+  addBuyInPrompt: 'Enter additional buy-in amount (can be 0)',
+  batchLeavePromptChips: 'Enter the chips each player takes off the table.',
+  btnSwapSeat: 'Swap Seat',
+  swapConfirm: 'Swap',
+  swapNoTarget: 'No other occupied seat at this table',
+  balanceTitle: 'Table Balancing',
+  balanceHint:
+    'When running tables of the same game differ by two or more players, the most recently seated player moves to the shortest table.',
+  balanceNone: 'Tables are balanced.',
+  balanceSuggestion: (id: string, from: string, to: string) => `${id}: ${from} → ${to}`,
+  balanceMove: 'Move',
+  balanceMoveAll: 'Move All',
+};
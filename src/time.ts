@@ -0,0 +1,48 @@
+export function formatHMS(totalSeconds: number): string {
+  const s = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const sec = s % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(h)}:${pad(m)}:${pad(sec)}`;
+}
+
+/** Reads back 'H:MM:SS' as written by formatHMS; hours may run past 24. */
+export function parseHMS(value: string): number | null {
+  const match = value.trim().match(/^(\d+):([0-5]\d):([0-5]\d)$/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+export function formatDateTime(d: Date): string {
+  const y = d.getFullYear();
+  const m = (d.getMonth() + 1).toString().padStart(2, '0');
+  const day = d.getDate().toString().padStart(2, '0');
+  const h = d.getHours().toString().padStart(2, '0');
+  const min = d.getMinutes().toString().padStart(2, '0');
+  const sec = d.getSeconds().toString().padStart(2, '0');
+  return `${y}-${m}-${day} ${h}:${min}:${sec}`;
+}
+
+function formatDate(d: Date): string {
+  const y = d.getFullYear();
+  const m = (d.getMonth() + 1).toString().padStart(2, '0');
+  const day = d.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+/** Reads back a 'YYYY-MM-DD HH:MM:SS' string written by formatDateTime. */
+export function parseDateTime(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [, y, m, d, h, min, sec] = match.map(Number);
+  return new Date(y, m - 1, d, h, min, sec);
+}
+
+/**
+ * The gaming day `d` belongs to. Play before the cut-off (minutes after midnight) still
+ * counts towards the previous day, so a game running past midnight is booked as one day.
+ */
+export function formatBusinessDate(d: Date, cutoffMinutes: number): string {
+  return formatDate(new Date(d.getTime() - cutoffMinutes * 60 * 1000));
+}
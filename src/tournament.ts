@@ -0,0 +1,447 @@
+import React from 'react';
+import { createId } from './ids';
+import { usePersistentState } from './storage';
+import { getTableElapsedSeconds, isSeatOccupied } from './tables';
+import { formatDateTime } from './time';
+import type { TableState, TournamentEntry, TournamentLevel, TournamentState } from './types';
+
+export const TOURNAMENT_STORAGE_KEY = 'everwin_poker_tournament_v1';
+
+export function createTournamentLevel(previous?: TournamentLevel): TournamentLevel {
+  if (!previous || previous.isBreak) {
+    return {
+      id: createId(),
+      smallBlind: previous ? 0 : 100,
+      bigBlind: previous ? 0 : 200,
+      ante: 0,
+      minutes: previous?.minutes || 20,
+      isBreak: false,
+    };
+  }
+  return {
+    ...previous,
+    id: createId(),
+    smallBlind: previous.smallBlind * 2,
+    bigBlind: previous.bigBlind * 2,
+    ante: previous.ante * 2,
+  };
+}
+
+export function createTournamentBreak(minutes = 10): TournamentLevel {
+  return { id: createId(), smallBlind: 0, bigBlind: 0, ante: 0, minutes, isBreak: true };
+}
+
+function createDefaultLevels(): TournamentLevel[] {
+  const blinds: [number, number, number][] = [
+    [100, 200, 0],
+    [200, 400, 0],
+    [300, 600, 0],
+    [400, 800, 100],
+    [500, 1000, 100],
+    [1000, 2000, 200],
+  ];
+  const levels: TournamentLevel[] = blinds.map(([smallBlind, bigBlind, ante]) => ({
+    id: createId(),
+    smallBlind,
+    bigBlind,
+    ante,
+    minutes: 20,
+    isBreak: false,
+  }));
+  levels.splice(3, 0, createTournamentBreak());
+  return levels;
+}
+
+export function createTournament(): TournamentState {
+  return {
+    name: '',
+    buyIn: 1000,
+    startingChips: 10000,
+    addOnCost: 0,
+    addOnChips: 0,
+    reEntryUntilLevel: 0,
+    tableIds: [],
+    levels: createDefaultLevels(),
+    payouts: [50, 30, 20],
+    entries: [],
+    openedAt: null,
+    elapsedSeconds: 0,
+    lastStartTime: null,
+    isRunning: false,
+  };
+}
+
+const DEFAULT_TOURNAMENT = createTournament();
+
+/** Clears entries and the clock, keeping the structure, payouts and tables for the next run. */
+export function clearTournamentRun(tour: TournamentState): TournamentState {
+  return {
+    ...tour,
+    entries: [],
+    openedAt: null,
+    elapsedSeconds: 0,
+    lastStartTime: null,
+    isRunning: false,
+  };
+}
+
+// Clock. The tournament runs the same start/pause clock as the tables, so elapsed time
+// always comes from getTableElapsedSeconds and the level is derived from it.
+
+export function startTournamentClock(tour: TournamentState, nowMs: number): TournamentState {
+  if (tour.isRunning) return tour;
+  return {
+    ...tour,
+    isRunning: true,
+    lastStartTime: nowMs,
+    openedAt: tour.openedAt ?? formatDateTime(new Date(nowMs)),
+  };
+}
+
+export function pauseTournamentClock(tour: TournamentState, nowMs: number): TournamentState {
+  if (!tour.isRunning) return tour;
+  return {
+    ...tour,
+    isRunning: false,
+    lastStartTime: null,
+    elapsedSeconds: getTableElapsedSeconds(tour, nowMs),
+  };
+}
+
+export function getLevelStartSeconds(levels: TournamentLevel[], index: number): number {
+  return levels.slice(0, index).reduce((sum, level) => sum + level.minutes * 60, 0);
+}
+
+/** Moves the clock to the start of level `index`, keeping it running if it was. */
+export function jumpToLevel(tour: TournamentState, index: number, nowMs: number): TournamentState {
+  if (index < 0 || index >= tour.levels.length) return tour;
+  return {
+    ...tour,
+    elapsedSeconds: getLevelStartSeconds(tour.levels, index),
+    lastStartTime: tour.isRunning ? nowMs : null,
+  };
+}
+
+export interface LevelClock {
+  index: number;
+  level: TournamentLevel;
+  next: TournamentLevel | undefined;
+  remainingSeconds: number;
+}
+
+/** The level running after `elapsedSeconds`; the last level holds once the structure runs out. */
+export function getLevelClock(
+  levels: TournamentLevel[],
+  elapsedSeconds: number,
+): LevelClock | null {
+  let end = 0;
+  for (let index = 0; index < levels.length; index += 1) {
+    end += levels[index].minutes * 60;
+    if (elapsedSeconds < end || index === levels.length - 1) {
+      return {
+        index,
+        level: levels[index],
+        next: levels[index + 1],
+        remainingSeconds: Math.max(0, end - elapsedSeconds),
+      };
+    }
+  }
+  return null;
+}
+
+/** 1-based blinds level number at `index`; breaks are not counted. */
+export function getLevelNumber(levels: TournamentLevel[], index: number): number {
+  return levels.slice(0, index + 1).filter((level) => !level.isBreak).length;
+}
+
+// Entries
+
+export function getRemainingEntries(tour: TournamentState): TournamentEntry[] {
+  return tour.entries.filter((entry) => !entry.eliminatedAt);
+}
+
+export function getTournamentTables(tour: TournamentState, tables: TableState[]): TableState[] {
+  return tour.tableIds
+    .map((id) => tables.find((tbl) => tbl.id === id && !tbl.retired))
+    .filter((tbl): tbl is TableState => !!tbl);
+}
+
+interface TournamentSeat {
+  tableId: number;
+  seatId: number;
+}
+
+/** Seats at `tableId` held by players still in the tournament; cash players cannot take them. */
+export function getTournamentSeatIds(tour: TournamentState, tableId: number): number[] {
+  return getRemainingEntries(tour)
+    .filter((entry) => entry.tableId === tableId && entry.seatId != null)
+    .map((entry) => entry.seatId as number);
+}
+
+/** Seats a tournament entry may take: not held by a cash-game player. */
+function getCashFreeSeatIds(tbl: TableState): number[] {
+  return tbl.seats.filter((seat) => !isSeatOccupied(seat)).map((seat) => seat.id);
+}
+
+/** A free seat at the tournament table with the fewest players, picked at random. */
+export function drawSeat(
+  tour: TournamentState,
+  tables: TableState[],
+  random: () => number = Math.random,
+): TournamentSeat | null {
+  const remaining = getRemainingEntries(tour);
+  const candidates = getTournamentTables(tour, tables)
+    .map((tbl) => ({
+      tableId: tbl.id,
+      players: remaining.filter((entry) => entry.tableId === tbl.id).length,
+      free: getCashFreeSeatIds(tbl).filter(
+        (seatId) => !remaining.some((entry) => entry.tableId === tbl.id && entry.seatId === seatId),
+      ),
+    }))
+    .filter((candidate) => candidate.free.length > 0);
+  if (candidates.length === 0) return null;
+  const target = candidates.reduce((best, c) => (c.players < best.players ? c : best));
+  return {
+    tableId: target.tableId,
+    seatId: target.free[Math.floor(random() * target.free.length)],
+  };
+}
+
+export type EntryProblem = 'alreadyIn' | 'reEntryClosed' | 'noSeat';
+
+export function getEntryProblem(
+  tour: TournamentState,
+  memberId: string,
+  tables: TableState[],
+  nowMs: number,
+): EntryProblem | null {
+  const existing = tour.entries.find((entry) => entry.memberId === memberId);
+  if (existing && !existing.eliminatedAt) return 'alreadyIn';
+  if (existing) {
+    const clock = getLevelClock(tour.levels, getTableElapsedSeconds(tour, nowMs));
+    const levelNumber = clock ? getLevelNumber(tour.levels, clock.index) : 1;
+    if (levelNumber > tour.reEntryUntilLevel) return 'reEntryClosed';
+  }
+  if (!drawSeat(tour, tables)) return 'noSeat';
+  return null;
+}
+
+/** Registers a new entry, or a re-entry for a member who busted. Check getEntryProblem first. */
+export function registerEntry(
+  tour: TournamentState,
+  memberId: string,
+  tables: TableState[],
+): TournamentState {
+  const seat = drawSeat(tour, tables);
+  const fresh = {
+    tableId: seat?.tableId ?? null,
+    seatId: seat?.seatId ?? null,
+    chips: tour.startingChips,
+    eliminatedAt: null,
+    place: null,
+  };
+  const existing = tour.entries.find((entry) => entry.memberId === memberId);
+  if (existing) {
+    return {
+      ...tour,
+      entries: tour.entries.map((entry) =>
+        entry.id === existing.id ? { ...entry, ...fresh, entries: entry.entries + 1 } : entry,
+      ),
+    };
+  }
+  return {
+    ...tour,
+    entries: [...tour.entries, { id: createId(), memberId, entries: 1, addOns: 0, ...fresh }],
+  };
+}
+
+export function addOnEntry(tour: TournamentState, entryId: string): TournamentState {
+  return {
+    ...tour,
+    entries: tour.entries.map((entry) =>
+      entry.id === entryId
+        ? { ...entry, addOns: entry.addOns + 1, chips: entry.chips + tour.addOnChips }
+        : entry,
+    ),
+  };
+}
+
+export function setEntryChips(
+  tour: TournamentState,
+  entryId: string,
+  chips: number,
+): TournamentState {
+  return {
+    ...tour,
+    entries: tour.entries.map((entry) => (entry.id === entryId ? { ...entry, chips } : entry)),
+  };
+}
+
+/** Busts a player in the next place down; the last player left is given first place. */
+export function eliminateEntry(
+  tour: TournamentState,
+  entryId: string,
+  nowMs: number,
+): TournamentState {
+  const place = getRemainingEntries(tour).length;
+  const entries = tour.entries.map((entry) =>
+    entry.id === entryId
+      ? {
+          ...entry,
+          eliminatedAt: formatDateTime(new Date(nowMs)),
+          place,
+          chips: 0,
+          tableId: null,
+          seatId: null,
+        }
+      : entry,
+  );
+  return {
+    ...tour,
+    entries:
+      place === 2
+        ? entries.map((entry) => (entry.eliminatedAt ? entry : { ...entry, place: 1 }))
+        : entries,
+  };
+}
+
+// Money and chips
+
+export function getPrizePool(tour: TournamentState): number {
+  return tour.entries.reduce(
+    (sum, entry) => sum + entry.entries * tour.buyIn + entry.addOns * tour.addOnCost,
+    0,
+  );
+}
+
+/** Chips that should be on the tables, from every entry and add-on sold. */
+export function getChipsInPlay(tour: TournamentState): number {
+  return tour.entries.reduce(
+    (sum, entry) => sum + entry.entries * tour.startingChips + entry.addOns * tour.addOnChips,
+    0,
+  );
+}
+
+export function getCountedChips(tour: TournamentState): number {
+  return getRemainingEntries(tour).reduce((sum, entry) => sum + entry.chips, 0);
+}
+
+/** Prize per place, rounded down; what rounding leaves over goes to first place. */
+export function computePayouts(prizePool: number, payouts: number[]): number[] {
+  const amounts = payouts.map((percent) => Math.floor((prizePool * percent) / 100));
+  const total = payouts.reduce((sum, percent) => sum + percent, 0);
+  const leftover =
+    Math.floor((prizePool * total) / 100) - amounts.reduce((sum, amount) => sum + amount, 0);
+  if (amounts.length > 0) amounts[0] += leftover;
+  return amounts;
+}
+
+// Table balancing
+
+export interface TournamentMove {
+  entryId: string;
+  memberId: string;
+  fromTableId: number | null;
+  fromSeatId: number | null;
+  toTableId: number;
+  toSeatId: number;
+}
+
+/**
+ * Moves that bring the field onto as few tables as it fits and keep table sizes within one
+ * player of each other. Players at tables no longer in the tournament are reseated first.
+ */
+export function planTableBalance(tour: TournamentState, tables: TableState[]): TournamentMove[] {
+  let open = getTournamentTables(tour, tables);
+  const remaining = getRemainingEntries(tour);
+  const seating = new Map<string, TournamentSeat | null>(
+    remaining.map((entry) => [
+      entry.id,
+      entry.tableId != null && entry.seatId != null && open.some((t) => t.id === entry.tableId)
+        ? { tableId: entry.tableId, seatId: entry.seatId }
+        : null,
+    ]),
+  );
+  const moves = new Map<string, TournamentMove>();
+
+  const playersAt = (tbl: TableState) =>
+    remaining.filter((entry) => seating.get(entry.id)?.tableId === tbl.id);
+  const freeSeats = (tbl: TableState) =>
+    getCashFreeSeatIds(tbl).filter(
+      (seatId) =>
+        !remaining.some((entry) => {
+          const seat = seating.get(entry.id);
+          return seat?.tableId === tbl.id && seat.seatId === seatId;
+        }),
+    );
+  const withRoom = (candidates: TableState[]) =>
+    candidates.filter((tbl) => freeSeats(tbl).length > 0);
+  const smallest = (candidates: TableState[]) =>
+    candidates.reduce((best, tbl) => (playersAt(tbl).length < playersAt(best).length ? tbl : best));
+  const moveTo = (entry: TournamentEntry, tbl: TableState) => {
+    const seatId = freeSeats(tbl)[0];
+    seating.set(entry.id, { tableId: tbl.id, seatId });
+    moves.set(entry.id, {
+      entryId: entry.id,
+      memberId: entry.memberId,
+      fromTableId: entry.tableId,
+      fromSeatId: entry.seatId,
+      toTableId: tbl.id,
+      toSeatId: seatId,
+    });
+  };
+
+  remaining
+    .filter((entry) => seating.get(entry.id) === null)
+    .forEach((entry) => {
+      const candidates = withRoom(open);
+      if (candidates.length > 0) moveTo(entry, smallest(candidates));
+    });
+
+  // Break the shortest table while everyone on it fits on the others.
+  open = open.filter((tbl) => playersAt(tbl).length > 0);
+  while (open.length > 1) {
+    const breaking = smallest([...open].reverse());
+    const others = open.filter((tbl) => tbl.id !== breaking.id);
+    const room = others.reduce((sum, tbl) => sum + freeSeats(tbl).length, 0);
+    if (playersAt(breaking).length > room) break;
+    playersAt(breaking).forEach((entry) => moveTo(entry, smallest(withRoom(others))));
+    open = others;
+  }
+
+  // Then even out, one player at a time from the biggest table to the smallest.
+  for (let guard = 0; guard < remaining.length && open.length > 1; guard += 1) {
+    const target = smallest(open);
+    const source = open.reduce((best, tbl) =>
+      playersAt(tbl).length > playersAt(best).length ? tbl : best,
+    );
+    if (playersAt(source).length - playersAt(target).length <= 1) break;
+    if (freeSeats(target).length === 0) break;
+    const mover = playersAt(source).reduce((last, entry) =>
+      (seating.get(entry.id)?.seatId ?? 0) > (seating.get(last.id)?.seatId ?? 0) ? entry : last,
+    );
+    moveTo(mover, target);
+  }
+
+  return [...moves.values()];
+}
+
+export function applyTournamentMoves(
+  tour: TournamentState,
+  moves: TournamentMove[],
+): TournamentState {
+  return {
+    ...tour,
+    entries: tour.entries.map((entry) => {
+      const move = moves.find((m) => m.entryId === entry.id);
+      return move ? { ...entry, tableId: move.toTableId, seatId: move.toSeatId } : entry;
+    }),
+  };
+}
+
+export function useTournament(): [
+  TournamentState,
+  React.Dispatch<React.SetStateAction<TournamentState>>,
+] {
+  return usePersistentState<TournamentState>(TOURNAMENT_STORAGE_KEY, DEFAULT_TOURNAMENT);
+}
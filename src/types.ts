@@ -0,0 +1,215 @@
+export type SeatStatus = 'idle' | 'seated' | 'rest';
+export type Lang = 'zh' | 'en';
+export type PaymentMethod = 'cash' | 'credit' | 'marker';
+
+export interface BuyInEntry {
+  id: string;
+  time: string;
+  amount: number;
+  method: PaymentMethod;
+  staff: string;
+  voided: boolean;
+  voidedAt: string | null;
+  voidedBy: string | null;
+}
+
+export interface SeatState {
+  id: number;
+  memberId: string;
+  status: SeatStatus;
+  activeSeconds: number;
+  restSeconds: number;
+  lastActiveStart: number | null;
+  lastRestStart: number | null;
+  buyInAmount: number;
+  buyIns: BuyInEntry[];
+  transferNote: string | null;
+  /** Chips the player brought from the seat they moved from; null when they bought in here. */
+  carriedIn: number | null;
+  sessionStart: string | null;
+  selectedForBatch: boolean;
+  /** Seconds the player spent on the waitlist before being called to this seat. */
+  waitSeconds: number | null;
+}
+
+export interface SessionRow {
+  id: string;
+  date: string;
+  tableId: number;
+  tableName: string;
+  blinds: string;
+  seatId: number;
+  memberId: string;
+  startTime: string;
+  endTime: string;
+  activeSeconds: number;
+  restSeconds: number;
+  durationHMS: string;
+  buyInDisplay: string;
+  /** Carried-in chips plus the non-voided ledger total; null on old transfer rows. */
+  buyInAmount: number | null;
+  buyIns: BuyInEntry[];
+  /** Chips brought from the previous seat, part of `buyInAmount`; null if none or not known. */
+  carriedIn: number | null;
+  cashOutAmount: number | null;
+  netAmount: number | null;
+  transferNote: string | null;
+  waitSeconds: number | null;
+  timeCharge: number | null;
+  /** Time spent at each blinds level while the player was seated, in order of play. */
+  blindsLevels: BlindsLevelTime[];
+  /** Staff member logged in when the session was closed. */
+  staff: string;
+  /** Edits made after the row was written, oldest first; the first `before` of a field is its original value. */
+  corrections: SessionCorrection[];
+  /** Set when the rest policy ended the session because the player did not come back. */
+  autoLeave: AutoLeaveRecord | null;
+}
+
+export interface AutoLeaveRecord {
+  at: string;
+  breakSeconds: number;
+  limitMinutes: number;
+}
+
+export type SessionEditableField =
+  | 'memberId'
+  | 'startTime'
+  | 'endTime'
+  | 'activeSeconds'
+  | 'restSeconds'
+  | 'buyInAmount';
+
+export type SessionPatch = Partial<Pick<SessionRow, SessionEditableField>>;
+
+export interface SessionCorrection {
+  id: string;
+  time: string;
+  staff: string;
+  reason: string;
+  before: SessionPatch;
+  after: SessionPatch;
+}
+
+export interface StakeLevel {
+  id: string;
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+  minBuyIn: number;
+  maxBuyIn: number;
+  /** Longest break allowed at this stake; 0 uses the default rest limit. */
+  restLimitMinutes: number;
+}
+
+export interface BlindsChange {
+  at: number;
+  time: string;
+  blinds: string;
+  stakeId: string | null;
+}
+
+export interface BlindsLevelTime {
+  blinds: string;
+  seconds: number;
+}
+
+export interface TableState {
+  id: number;
+  name: string;
+  blinds: string;
+  /** Configured stake the blinds were picked from; null for free-text blinds. */
+  stakeId: string | null;
+  blindsHistory: BlindsChange[];
+  openedAt: string | null;
+  closedAt: string | null;
+  elapsedSeconds: number;
+  lastStartTime: number | null;
+  isRunning: boolean;
+  retired: boolean;
+  /** Longest break allowed at this table; null follows the stake or the default. */
+  restLimitMinutes: number | null;
+  seats: SeatState[];
+  sessions: SessionRow[];
+}
+
+export interface Member {
+  id: string;
+  name: string;
+  phone: string;
+  tier: string;
+  notes: string;
+  banned: boolean;
+}
+
+export type StaffRole = 'dealer' | 'floor' | 'manager';
+
+export interface StaffAccount {
+  id: string;
+  name: string;
+  role: StaffRole;
+  pinHash: string;
+  active: boolean;
+}
+
+/** One login-to-logout stretch on this device. */
+export interface ShiftRecord {
+  id: string;
+  staffId: string;
+  staffName: string;
+  role: StaffRole;
+  loginAt: string;
+  logoutAt: string | null;
+}
+
+/** A waiting player, queued either for one table or for any table at a blinds level. */
+export interface WaitlistEntry {
+  id: string;
+  memberId: string;
+  tableId: number | null;
+  blinds: string | null;
+  addedAt: number;
+}
+
+export interface TournamentLevel {
+  id: string;
+  smallBlind: number;
+  bigBlind: number;
+  ante: number;
+  minutes: number;
+  /** Breaks carry no blinds; the clock keeps running through them. */
+  isBreak: boolean;
+}
+
+export interface TournamentEntry {
+  id: string;
+  memberId: string;
+  tableId: number | null;
+  seatId: number | null;
+  /** Paid entries including the first; anything above 1 is a re-entry. */
+  entries: number;
+  addOns: number;
+  chips: number;
+  eliminatedAt: string | null;
+  /** Finishing position, set on elimination and for the last player standing. */
+  place: number | null;
+}
+
+export interface TournamentState {
+  name: string;
+  buyIn: number;
+  startingChips: number;
+  addOnCost: number;
+  addOnChips: number;
+  /** Last blinds level (1-based, breaks not counted) that still accepts re-entries; 0 for none. */
+  reEntryUntilLevel: number;
+  tableIds: number[];
+  levels: TournamentLevel[];
+  /** Share of the prize pool for each finishing place, in percent. */
+  payouts: number[];
+  entries: TournamentEntry[];
+  openedAt: string | null;
+  elapsedSeconds: number;
+  lastStartTime: number | null;
+  isRunning: boolean;
+}
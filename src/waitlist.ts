@@ -0,0 +1,57 @@
+import React from 'react';
+import { createId } from './ids';
+import { usePersistentState } from './storage';
+import type { TableState, WaitlistEntry } from './types';
+
+export const WAITLIST_STORAGE_KEY = 'everwin_poker_waitlist_v1';
+
+export function createWaitlistEntry(
+  memberId: string,
+  target: { tableId: number } | { blinds: string },
+): WaitlistEntry {
+  return {
+    id: createId(),
+    memberId,
+    tableId: 'tableId' in target ? target.tableId : null,
+    blinds: 'blinds' in target ? target.blinds : null,
+    addedAt: Date.now(),
+  };
+}
+
+/** Entries that may be seated at `table`, in queue order: its own list plus its blinds list. */
+export function getWaitlistForTable(list: WaitlistEntry[], table: TableState): WaitlistEntry[] {
+  const blinds = table.blinds.trim();
+  return list.filter(
+    (entry) => entry.tableId === table.id || (!!blinds && entry.blinds === blinds),
+  );
+}
+
+/** Moves an entry up or down among the entries that share its table or blinds queue. */
+export function moveWaitlistEntry(
+  list: WaitlistEntry[],
+  entryId: string,
+  offset: number,
+): WaitlistEntry[] {
+  const entry = list.find((e) => e.id === entryId);
+  if (!entry) return list;
+  const sameQueue = list.filter((e) => e.tableId === entry.tableId && e.blinds === entry.blinds);
+  const target = sameQueue[sameQueue.indexOf(entry) + offset];
+  if (!target) return list;
+  const from = list.indexOf(entry);
+  const to = list.indexOf(target);
+  const next = [...list];
+  next[from] = target;
+  next[to] = entry;
+  return next;
+}
+
+export function getWaitSeconds(entry: WaitlistEntry, nowMs: number): number {
+  return Math.max(0, Math.floor((nowMs - entry.addedAt) / 1000));
+}
+
+export function useWaitlist(): [
+  WaitlistEntry[],
+  React.Dispatch<React.SetStateAction<WaitlistEntry[]>>,
+] {
+  return usePersistentState<WaitlistEntry[]>(WAITLIST_STORAGE_KEY, []);
+}
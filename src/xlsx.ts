@@ -0,0 +1,294 @@
+import { formatHMS, parseDateTime } from './time';
+
+/**
+ * A spreadsheet cell. Plain numbers and text are written as they are; durations (in seconds)
+ * and 'YYYY-MM-DD HH:MM:SS' times become real Excel time values.
+ */
+export type XlsxCell = string | number | null | { duration: number } | { dateTime: string };
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+  /** Row index of the column headings; printed bold. */
+  headerRow?: number;
+  /** Adds a bold row of SUM formulas under the rows below the heading for these columns. */
+  totals?: { label: string; columns: number[] };
+}
+
+/** How a cell shows up in a CSV, matching the text the table export has always used. */
+export function cellText(cell: XlsxCell): string {
+  if (cell == null) return '';
+  if (typeof cell === 'string') return cell;
+  if (typeof cell === 'number') return cell.toString();
+  return 'duration' in cell ? formatHMS(cell.duration) : cell.dateTime;
+}
+
+// Style indexes into cellXfs below.
+const STYLE_BOLD = 1;
+const STYLE_DURATION = 2;
+const STYLE_DATE_TIME = 3;
+const STYLE_BOLD_DURATION = 4;
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="2"><numFmt numFmtId="164" formatCode="[h]:mm:ss"/>' +
+  '<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="5"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1" applyNumberFormat="1"/>' +
+  '</cellXfs></styleSheet>';
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/** Excel counts days from 1899-12-30 and has no time zones, so local clock time is used. */
+function toExcelTime(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+  );
+  return utc / 86400000 + 25569;
+}
+
+function cellXml(cell: XlsxCell, ref: string, bold: boolean): string {
+  if (cell == null || cell === '') return '';
+  const boldAttr = bold ? ` s="${STYLE_BOLD}"` : '';
+  if (typeof cell === 'number') return `<c r="${ref}"${boldAttr}><v>${cell}</v></c>`;
+  if (typeof cell === 'object' && 'duration' in cell) {
+    const style = bold ? STYLE_BOLD_DURATION : STYLE_DURATION;
+    return `<c r="${ref}" s="${style}"><v>${cell.duration / 86400}</v></c>`;
+  }
+  const date = typeof cell === 'object' ? parseDateTime(cell.dateTime) : null;
+  if (date) return `<c r="${ref}" s="${STYLE_DATE_TIME}"><v>${toExcelTime(date)}</v></c>`;
+  const text = typeof cell === 'object' ? cell.dateTime : cell;
+  return `<c r="${ref}" t="inlineStr"${boldAttr}><is><t xml:space="preserve">${escapeXml(
+    text,
+  )}</t></is></c>`;
+}
+
+function totalsRow(sheet: XlsxSheet): XlsxCell[] | null {
+  if (!sheet.totals) return null;
+  const first = (sheet.headerRow ?? -1) + 1;
+  const body = sheet.rows.slice(first);
+  const row: XlsxCell[] = [sheet.totals.label];
+  for (const col of sheet.totals.columns) {
+    const cells = body.map((r) => r[col]);
+    const sum = cells.reduce<number>((acc, c) => {
+      if (typeof c === 'number') return acc + c;
+      return c != null && typeof c === 'object' && 'duration' in c ? acc + c.duration : acc;
+    }, 0);
+    const isDuration = cells.some((c) => c != null && typeof c === 'object' && 'duration' in c);
+    row[col] = isDuration ? { duration: sum } : sum;
+  }
+  return row;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const first = (sheet.headerRow ?? -1) + 2;
+  const last = sheet.rows.length;
+  const totals = totalsRow(sheet);
+  const rows = sheet.rows.map((cells, r) =>
+    cells.map((cell, c) => cellXml(cell, `${columnName(c)}${r + 1}`, r === sheet.headerRow)),
+  );
+  if (totals) {
+    const ref = last + 1;
+    rows.push(
+      totals.map((cell, c) => {
+        if (c === 0 || cell == null) return cellXml(cell, `${columnName(c)}${ref}`, true);
+        const col = columnName(c);
+        const formula = `<f>SUM(${col}${first}:${col}${last})</f>`;
+        const isDuration = typeof cell === 'object';
+        const value = isDuration ? (cell as { duration: number }).duration / 86400 : cell;
+        const style = isDuration ? STYLE_BOLD_DURATION : STYLE_BOLD;
+        return `<c r="${col}${ref}" s="${style}">${formula}<v>${value}</v></c>`;
+      }),
+    );
+  }
+  const widths = Array.from({ length: Math.max(0, ...rows.map((r) => r.length)) }, (_, c) => {
+    const longest = Math.max(0, ...sheet.rows.map((r) => cellText(r[c] ?? null).length));
+    return `<col min="${c + 1}" max="${c + 1}" width="${Math.min(
+      60,
+      Math.max(8, longest + 2),
+    )}" customWidth="1"/>`;
+  });
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    (widths.length > 0 ? `<cols>${widths.join('')}</cols>` : '') +
+    '<sheetData>' +
+    rows.map((cells, r) => `<row r="${r + 1}">${cells.join('')}</row>`).join('') +
+    '</sheetData></worksheet>'
+  );
+}
+
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+
+function workbookFiles(sheets: XlsxSheet[]): [string, string][] {
+  const ids = sheets.map((_, i) => i + 1);
+  return [
+    [
+      '[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        ids
+          .map(
+            (id) =>
+              `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+          )
+          .join('') +
+        '</Types>',
+    ],
+    [
+      '_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+    ],
+    [
+      'xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheets
+          .map(
+            (sheet, i) =>
+              `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${ids[i]}" r:id="rId${
+                ids[i]
+              }"/>`,
+          )
+          .join('') +
+        '</sheets></workbook>',
+    ],
+    [
+      'xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        ids
+          .map(
+            (id) =>
+              `<Relationship Id="rId${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${id}.xml"/>`,
+          )
+          .join('') +
+        `<Relationship Id="rId${
+          sheets.length + 1
+        }" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    ],
+    ['xl/styles.xml', STYLES_XML],
+    ...sheets.map((sheet, i): [string, string] => [
+      `xl/worksheets/sheet${ids[i]}.xml`,
+      sheetXml(sheet),
+    ]),
+  ];
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 1980-01-01, the earliest date a zip entry can carry.
+const DOS_DATE = (1 << 5) | 1;
+
+/** An uncompressed zip archive; spreadsheet apps accept stored entries. */
+function buildZip(files: [string, string][]) {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [name, content] of files) {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true);
+    lv.setUint16(12, DOS_DATE, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(14, DOS_DATE, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let pos = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+export function buildXlsx(sheets: XlsxSheet[]): Blob {
+  return new Blob([buildZip(workbookFiles(sheets))], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}